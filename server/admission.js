@@ -0,0 +1,99 @@
+// server/admission.js
+// Transcoder admission control. A new transcoder is admitted while fewer than MAX_TRANSCODES run
+// (0 = unlimited), its user owns fewer than USER_MAX_TRANSCODES (0 = unlimited, admins exempt) and
+// host CPU stays below ADMISSION_MAX_CPU percent. Otherwise the stream joins a FIFO queue and gets
+// a 429 with its position; the client retries after Retry-After and starts once its turn comes and
+// a slot is free. Entries not polled again within QUEUE_TTL_MS are dropped.
+const os = require('os');
+
+const ADMISSION = {
+  maxTranscodes: Number(process.env.MAX_TRANSCODES || 0),
+  userMaxTranscodes: Number(process.env.USER_MAX_TRANSCODES || 0),
+  maxCpu: Number(process.env.ADMISSION_MAX_CPU || 90),
+};
+const RETRY_SEC = 5;
+const QUEUE_TTL_MS = 30_000;
+const CPU_SAMPLE_MS = 5000;
+
+const cpuTimes = () => os.cpus().reduce((acc, c) => {
+  acc.idle += c.times.idle;
+  acc.total += Object.values(c.times).reduce((a, b) => a + b, 0);
+  return acc;
+}, { idle: 0, total: 0 });
+
+// Host CPU busy % over the last 5s from os.cpus() times (loadavg is always 0 on Windows)
+function sampleHostCpu() {
+  let sample = cpuTimes();
+  let pct = 0;
+  setInterval(() => {
+    const next = cpuTimes();
+    const total = next.total - sample.total;
+    pct = total > 0 ? Math.round(100 * (1 - (next.idle - sample.idle) / total)) : 0;
+    sample = next;
+  }, CPU_SAMPLE_MS).unref();
+  return () => pct;
+}
+
+// running() lists the streams with a transcoder and ownerOf(streamId) gives their owner;
+// hostCpu() reports host CPU % (sampled from os.cpus() unless given)
+function createAdmission({ running, ownerOf, hostCpu = sampleHostCpu(), limits = ADMISSION }) {
+  const queue = [];           // [{ streamId, seenAt }]
+  const admitting = new Map(); // streamId -> username: admitted, transcoder not spawned yet
+
+  function counts(username) {
+    const ids = new Set([...running(), ...admitting.keys()]);
+    let own = 0;
+    for (const id of ids) {
+      const owner = admitting.has(id) ? admitting.get(id) : ownerOf(id);
+      if (username && owner === username) own++;
+    }
+    return { total: ids.size, own };
+  }
+
+  // Admits streamId (null) or returns the 429 body
+  function admit(streamId, user) {
+    const now = Date.now();
+    for (let i = queue.length - 1; i >= 0; i--) {
+      if (now - queue[i].seenAt > QUEUE_TTL_MS) queue.splice(i, 1);
+    }
+    let idx = queue.findIndex((q) => q.streamId === streamId);
+    const { total, own } = counts(user?.username);
+    const rejection = (reason, limit, error, queuePosition = null) => ({
+      error, reason, limit, queuePosition, queueLength: queue.length, retryAfterSec: RETRY_SEC,
+    });
+
+    // waiting doesn't help against the user's own quota: no queue slot
+    const { userMaxTranscodes: userMax } = limits;
+    if (userMax > 0 && user && user.role !== 'admin' && own >= userMax) {
+      if (idx >= 0) queue.splice(idx, 1);
+      return rejection('user', userMax, `Transcoder quota reached (${own}/${userMax} streams); stop one of yours first`);
+    }
+
+    const free = limits.maxTranscodes > 0 ? limits.maxTranscodes - total : Infinity;
+    const ahead = idx >= 0 ? idx : queue.length;
+    const cpu = hostCpu();
+    const cpuBusy = limits.maxCpu > 0 && cpu >= limits.maxCpu;
+    if (!cpuBusy && ahead < free) {
+      if (idx >= 0) queue.splice(idx, 1);
+      admitting.set(streamId, user?.username || null);
+      return null;
+    }
+
+    if (idx < 0) idx = queue.push({ streamId, seenAt: now }) - 1;
+    else queue[idx].seenAt = now;
+    if (cpuBusy) return rejection('cpu', limits.maxCpu, `Server CPU is at ${cpu}%; queued`, idx + 1);
+    if (free <= 0) return rejection('global', limits.maxTranscodes, `Server transcoder limit reached (${total}/${limits.maxTranscodes}); queued`, idx + 1);
+    return rejection('queue', limits.maxTranscodes, 'Waiting for streams queued earlier', idx + 1);
+  }
+
+  return {
+    admit,
+    // the admitted stream's transcoder was spawned (or its start failed): it no longer holds a slot here
+    done: (streamId) => admitting.delete(streamId),
+    counts,
+    // for /api/health
+    stats: () => ({ ...limits, hostCpu: hostCpu(), transcodes: counts(null).total, queued: queue.length }),
+  };
+}
+
+module.exports = { createAdmission, ADMISSION };
@@ -3,43 +3,179 @@ const bcrypt = require('bcrypt');
 const fs = require('fs');
 const path = require('path');
 const jwt = require('jsonwebtoken');
+const crypto = require('crypto');
 
 const router = express.Router();
 const usersFilePath = path.join(__dirname, 'users.json');
 
-// SECURITY: JWT_SECRET must be set via environment variable
+// ---------- Auth mode ----------
+// The frontend logs in through Supabase, so by default the API verifies Supabase-issued
+// access tokens. The users.json accounts (/auth/login) are kept as an optional fallback:
+//   AUTH_MODE=supabase  -> Supabase tokens only
+//   AUTH_MODE=legacy    -> users.json tokens only (signed with JWT_SECRET)
+//   AUTH_MODE=both      -> Supabase first, users.json as fallback
+const SUPABASE_URL = String(process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL || '').replace(/\/+$/, '');
+const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_PUBLISHABLE_KEY || '';
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+const SUPABASE_JWT_SECRET = process.env.SUPABASE_JWT_SECRET || '';
+
+const AUTH_MODE = (process.env.AUTH_MODE || (SUPABASE_URL || SUPABASE_JWT_SECRET ? 'supabase' : 'legacy')).toLowerCase();
+if (!['supabase', 'legacy', 'both'].includes(AUTH_MODE)) {
+  console.error(`CRITICAL: unknown AUTH_MODE '${AUTH_MODE}' (expected supabase, legacy or both)`);
+  process.exit(1);
+}
+const SUPABASE_AUTH_ENABLED = AUTH_MODE === 'supabase' || AUTH_MODE === 'both';
+const LEGACY_AUTH_ENABLED = AUTH_MODE === 'legacy' || AUTH_MODE === 'both';
+
+if (SUPABASE_AUTH_ENABLED && !SUPABASE_URL && !SUPABASE_JWT_SECRET) {
+  console.error('CRITICAL: Supabase auth needs SUPABASE_URL (JWKS) or SUPABASE_JWT_SECRET (HS256)');
+  process.exit(1);
+}
+
+// SECURITY: JWT_SECRET must be set via environment variable when users.json login is enabled
 const JWT_SECRET = process.env.JWT_SECRET;
-if (!JWT_SECRET || JWT_SECRET === 'your_jwt_secret') {
+if (LEGACY_AUTH_ENABLED && (!JWT_SECRET || JWT_SECRET === 'your_jwt_secret')) {
   console.error('CRITICAL: JWT_SECRET environment variable must be set to a secure value');
   console.error('Generate one with: node -e "console.log(require(\'crypto\').randomBytes(32).toString(\'hex\'))"');
   process.exit(1);
 }
 
+// If user is admin, grant all permissions
+const grantAdminRoles = (user) => {
+    if (user.role === 'admin') {
+        user.roles = new Proxy({}, {
+            get: function(target, name) {
+                // Always return true for any permission check for admin
+                if (name === Symbol.iterator || name === 'then') {
+                    return undefined;
+                }
+                return true;
+            }
+        });
+    }
+    return user;
+};
+
+// ---------- Supabase token verification ----------
+const JWKS_TTL_MS = 10 * 60 * 1000;
+let jwksCache = { keys: new Map(), fetchedAt: 0 };
+
+// Newer Supabase projects sign with asymmetric keys published at the JWKS endpoint
+const getSupabaseKey = async (kid) => {
+    const fresh = Date.now() - jwksCache.fetchedAt < JWKS_TTL_MS;
+    if (fresh && jwksCache.keys.has(kid)) return jwksCache.keys.get(kid);
+
+    const res = await fetch(`${SUPABASE_URL}/auth/v1/.well-known/jwks.json`);
+    if (!res.ok) throw new Error(`JWKS fetch failed: HTTP ${res.status}`);
+    const { keys = [] } = await res.json();
+    const map = new Map();
+    for (const jwk of keys) {
+        try { map.set(jwk.kid, crypto.createPublicKey({ key: jwk, format: 'jwk' })); } catch (_) {}
+    }
+    jwksCache = { keys: map, fetchedAt: Date.now() };
+    return map.get(kid) || null;
+};
+
+const verifySupabaseJwt = async (token) => {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded || !decoded.header) throw new Error('Malformed token');
+
+    const options = { audience: 'authenticated' };
+    if (SUPABASE_URL) options.issuer = `${SUPABASE_URL}/auth/v1`;
+
+    if (decoded.header.alg === 'HS256') {
+        if (!SUPABASE_JWT_SECRET) throw new Error('SUPABASE_JWT_SECRET is not configured');
+        return jwt.verify(token, SUPABASE_JWT_SECRET, { ...options, algorithms: ['HS256'] });
+    }
+    if (!SUPABASE_URL) throw new Error('SUPABASE_URL is not configured');
+    const key = await getSupabaseKey(decoded.header.kid);
+    if (!key) throw new Error('Unknown signing key');
+    return jwt.verify(token, key, { ...options, algorithms: ['RS256', 'ES256'] });
+};
+
+// profiles.role / profiles.roles, cached briefly so every API call doesn't hit PostgREST. Users
+// write their own profile row at sign-up; the protect_profile_permissions trigger (supabase/migrations)
+// keeps role and roles out of their reach.
+const PROFILE_TTL_MS = 60 * 1000;
+const profileCache = new Map(); // userId -> { profile, at }
+
+const fetchProfile = async (userId, token) => {
+    const cached = profileCache.get(userId);
+    if (cached && Date.now() - cached.at < PROFILE_TTL_MS) return cached.profile;
+
+    let profile = { username: null, role: 'user', roles: {} };
+    let cacheable = true;
+    if (SUPABASE_URL && (SUPABASE_SERVICE_ROLE_KEY || SUPABASE_ANON_KEY)) {
+        try {
+            // With the service key RLS is bypassed; otherwise the user's own token applies RLS
+            const apiKey = SUPABASE_SERVICE_ROLE_KEY || SUPABASE_ANON_KEY;
+            const url = `${SUPABASE_URL}/rest/v1/profiles?id=eq.${encodeURIComponent(userId)}&select=*`;
+            const res = await fetch(url, {
+                headers: { apikey: apiKey, Authorization: `Bearer ${SUPABASE_SERVICE_ROLE_KEY || token}` },
+            });
+            if (res.ok) {
+                const [row] = await res.json();
+                if (row) {
+                    profile = {
+                        username: row.username || null,
+                        role: row.role || 'user',
+                        roles: row.roles && typeof row.roles === 'object' ? row.roles : {},
+                    };
+                }
+            } else {
+                cacheable = false;
+                console.error(`Profile lookup failed for ${userId}: HTTP ${res.status}`);
+            }
+        } catch (e) {
+            cacheable = false;
+            console.error(`Profile lookup failed for ${userId}:`, e);
+        }
+    }
+    // don't pin a transient lookup failure (e.g. an admin demoted to 'user') for the whole TTL
+    if (cacheable) profileCache.set(userId, { profile, at: Date.now() });
+    return profile;
+};
+
+const supabaseUser = async (token) => {
+    const claims = await verifySupabaseJwt(token);
+    const profile = await fetchProfile(claims.sub, token);
+    return {
+        id: claims.sub,
+        email: claims.email || null,
+        username: profile.username || claims.email || claims.sub,
+        role: profile.role,
+        roles: profile.roles,
+    };
+};
+
+const legacyUser = (token) => new Promise((resolve, reject) => {
+    jwt.verify(token, JWT_SECRET, (err, user) => (err ? reject(err) : resolve(user)));
+});
+
+// Resolve a bearer token to { username, role, roles, ... } according to AUTH_MODE
+const verifyToken = async (token) => {
+    let user = null;
+    let lastErr = null;
+    if (SUPABASE_AUTH_ENABLED) {
+        try { user = await supabaseUser(token); } catch (e) { lastErr = e; }
+    }
+    if (!user && LEGACY_AUTH_ENABLED) {
+        try { user = await legacyUser(token); } catch (e) { lastErr = e; }
+    }
+    if (!user) throw lastErr || new Error('Invalid token');
+    return grantAdminRoles(user);
+};
+
 // Middleware to verify token
 const authenticateToken = (req, res, next) => {
     const authHeader = req.headers['authorization'];
     const token = authHeader && authHeader.split(' ')[1];
     if (token == null) return res.sendStatus(401);
 
-    jwt.verify(token, JWT_SECRET, (err, user) => {
-        if (err) return res.sendStatus(403);
-
-        // If user is admin, grant all permissions
-        if (user.role === 'admin') {
-            user.roles = new Proxy({}, {
-                get: function(target, name) {
-                    // Always return true for any permission check for admin
-                    if (name === Symbol.iterator || name === 'then') {
-                        return undefined;
-                    }
-                    return true;
-                }
-            });
-        }
-        
+    verifyToken(token).then((user) => {
         req.user = user;
         next();
-    });
+    }, () => res.sendStatus(403));
 };
 
 // Middleware to check for admin role
@@ -82,6 +218,9 @@ const writeUsers = (users) => {
 
 // User login
 router.post('/login', async (req, res) => {
+    if (!LEGACY_AUTH_ENABLED) {
+        return res.status(404).json({ message: 'users.json login is disabled (AUTH_MODE=supabase)' });
+    }
     const { username, password } = req.body;
     const users = readUsers();
     const user = users[username];
@@ -191,5 +330,5 @@ router.post('/user-roles', authenticateToken, isAdmin, (req, res) => {
     res.json({ message: 'User roles updated successfully' });
 });
 
-module.exports = { router, authenticateToken, requirePermission };
+module.exports = { router, authenticateToken, requirePermission, verifyToken, AUTH_MODE };
 
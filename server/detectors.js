@@ -0,0 +1,172 @@
+// server/detectors.js
+// 24/7 black / freeze / silence detection, independent of anyone watching. One low-rate ffmpeg
+// per running stream decodes the transcoded output through blackdetect, freezedetect and
+// silencedetect into the null muxer; their log lines become fault start/end events. The same
+// pass measures EBU R128 loudness (ebur128 with true peak), reported every LOUDNESS_SAMPLE_SEC.
+const { spawnFfmpeg } = require('./orphans');
+
+// FAULT_DETECTION=off disables the detectors
+const ENABLED = String(process.env.FAULT_DETECTION || 'on').toLowerCase() !== 'off';
+// Seconds a condition has to last before it counts as a fault
+const BLACK_SEC = Number(process.env.FAULT_BLACK_SEC || 5);
+const FREEZE_SEC = Number(process.env.FAULT_FREEZE_SEC || 8);
+const SILENCE_SEC = Number(process.env.FAULT_SILENCE_SEC || 10);
+const SILENCE_DB = Number(process.env.FAULT_SILENCE_DB || -50);
+const TICK_MS = 15_000;
+const LOUDNESS_SAMPLE_MS = Number(process.env.LOUDNESS_SAMPLE_SEC || 2) * 1000;
+
+const LABELS = { BLACK: 'Black video', FROZEN: 'Frozen video', SILENT: 'Silent audio' };
+
+// metadata=mode=print logs "lavfi.<key>=<pts>"; silencedetect logs "silence_<start|end>: <pts>"
+const VIDEO_RE = /lavfi\.(black_start|black_end|freezedetect\.freeze_start|freezedetect\.freeze_end)=(-?[\d.]+)/;
+const AUDIO_RE = /silence_(start|end): (-?[\d.]+)/;
+const TIME_RE = /time=(\d+):(\d+):([\d.]+)/;
+// ebur128 frame log: "... M: -22.1 S: -23.4     I: -22.8 LUFS ... FTPK: -3.4 -3.1 dBFS  TPK: ..."
+const EBUR128_RE = /M:\s*(\S+)\s+S:\s*(\S+)\s+I:\s*(\S+)\s+LUFS/;
+const FTPK_RE = /FTPK:((?:\s+\S+)+?)\s+dBFS/;
+
+// "-inf" / "nan" (silence, not enough audio yet) -> null
+const level = (v) => (Number.isFinite(Number(v)) ? Math.round(Number(v) * 10) / 10 : null);
+
+const VIDEO_KEYS = {
+  black_start: ['BLACK', 'start'],
+  black_end: ['BLACK', 'end'],
+  'freezedetect.freeze_start': ['FROZEN', 'start'],
+  'freezedetect.freeze_end': ['FROZEN', 'end'],
+};
+
+// inputFor(streamId) is the output to analyse (localOutputUrl in index.js);
+// streamIds() lists the streams to watch; onEvent gets
+// { streamId, event: 'BLACK'|'FROZEN'|'SILENT'|'RECOVERED', fault, start, end, duration, message };
+// onLoudness gets (streamId, { time, momentary, shortTerm, integrated, truePeak }) in LUFS / dBTP.
+// Integrated loudness covers the detector's run, i.e. since the stream (re)started. A fault still
+// open when the detector's ffmpeg exits (stream stopped or restarting) gets its RECOVERED then.
+function createDetector({ ffmpegPath, inputFor, streamIds, onEvent, onLoudness }) {
+  const running = new Map(); // streamId -> { proc, position, faults: { BLACK|FROZEN|SILENT: { start, confirmed, timer } }, loudness }
+
+  const emit = (streamId, event, fault, start, end = null, stopped = false) => {
+    const duration = end === null ? null : Math.max(0, end - start);
+    const message = event === 'RECOVERED'
+      ? `${LABELS[fault]} ended after ${(duration / 1000).toFixed(1)}s${stopped ? ' (detector stopped)' : ''}`
+      : `${LABELS[fault]} detected (server)`;
+    try { onEvent({ streamId, event, fault, start, end, duration, message }); } catch (e) { console.error('Fault event handler failed', e); }
+  };
+
+  // pts are stream seconds; the input is live, so a pts `position - pts` behind the progress
+  // line happened that long ago
+  const wallTime = (state, pts) => Date.now() - (state.position === null ? 0 : Math.max(0, state.position - pts) * 1000);
+
+  function onFault(streamId, state, fault, edge, pts) {
+    const open = state.faults[fault];
+    if (edge === 'start') {
+      if (open) return;
+      const start = wallTime(state, pts);
+      // blackdetect flags the first black frame; only a black stretch of BLACK_SEC is a fault
+      if (fault === 'BLACK') {
+        const entry = { start, confirmed: false, timer: null };
+        entry.timer = setTimeout(() => {
+          entry.confirmed = true;
+          emit(streamId, 'BLACK', 'BLACK', start);
+        }, BLACK_SEC * 1000);
+        state.faults.BLACK = entry;
+      } else {
+        state.faults[fault] = { start, confirmed: true, timer: null };
+        emit(streamId, fault, fault, start);
+      }
+      return;
+    }
+    if (!open) return;
+    clearTimeout(open.timer);
+    delete state.faults[fault];
+    if (open.confirmed) emit(streamId, 'RECOVERED', fault, open.start, wallTime(state, pts));
+  }
+
+  // Keeps the latest M/S/I and the highest frame true peak until the next sample goes out
+  function onEbur128(streamId, state, match, line) {
+    const l = state.loudness;
+    l.momentary = level(match[1]);
+    l.shortTerm = level(match[2]);
+    l.integrated = level(match[3]);
+    const ftpk = FTPK_RE.exec(line);
+    if (ftpk) {
+      for (const v of ftpk[1].trim().split(/\s+/)) if (Number.isFinite(Number(v))) l.peak = Math.max(l.peak, Number(v));
+    }
+    const now = Date.now();
+    if (now - l.sentAt < LOUDNESS_SAMPLE_MS) return;
+    l.sentAt = now;
+    const sample = { time: now, momentary: l.momentary, shortTerm: l.shortTerm, integrated: l.integrated, truePeak: level(l.peak) };
+    l.peak = -Infinity;
+    try { onLoudness(streamId, sample); } catch (e) { console.error('Loudness handler failed', e); }
+  }
+
+  function parseLine(streamId, state, line) {
+    const time = TIME_RE.exec(line);
+    if (time) state.position = Number(time[1]) * 3600 + Number(time[2]) * 60 + Number(time[3]);
+    const video = VIDEO_RE.exec(line);
+    if (video) {
+      const [fault, edge] = VIDEO_KEYS[video[1]];
+      onFault(streamId, state, fault, edge, Number(video[2]));
+    }
+    const audio = AUDIO_RE.exec(line);
+    if (audio) onFault(streamId, state, 'SILENT', audio[1], Number(audio[2]));
+    const ebur128 = onLoudness && EBUR128_RE.exec(line);
+    if (ebur128) onEbur128(streamId, state, ebur128, line);
+  }
+
+  function start(streamId) {
+    const input = inputFor(streamId);
+    if (!input || running.has(streamId)) return;
+    const proc = spawnFfmpeg(ffmpegPath, [
+      '-hide_banner', '-loglevel', 'info', '-stats_period', '2',
+      '-i', input,
+      '-map', '0:v:0?', '-map', '0:a:0?',
+      '-filter:v', `fps=5,scale=320:-2,blackdetect=d=0:pix_th=0.10,freezedetect=n=-60dB:d=${FREEZE_SEC},metadata=mode=print`,
+      '-filter:a', `silencedetect=n=${SILENCE_DB}dB:d=${SILENCE_SEC},ebur128=peak=true`,
+      '-f', 'null', '-',
+    ], { role: 'detector', streamId });
+    const state = { proc, position: null, faults: {}, loudness: { momentary: null, shortTerm: null, integrated: null, peak: -Infinity, sentAt: 0 } };
+    running.set(streamId, state);
+
+    let buf = '';
+    proc.stderr.on('data', (chunk) => {
+      buf += chunk.toString();
+      // progress lines end in \r, filter logs in \n
+      const lines = buf.split(/[\r\n]/);
+      buf = lines.pop();
+      for (const line of lines) parseLine(streamId, state, line);
+    });
+    proc.on('error', (err) => console.error(`Fault detector error for ${streamId}:`, err));
+    proc.on('close', (code) => {
+      for (const [fault, open] of Object.entries(state.faults)) {
+        clearTimeout(open.timer);
+        if (open.confirmed) emit(streamId, 'RECOVERED', fault, open.start, Date.now(), true);
+      }
+      state.faults = {};
+      if (running.get(streamId) === state) running.delete(streamId);
+      console.log(`Fault detector for ${streamId} closed (code=${code})`);
+    });
+  }
+
+  function stop(streamId) {
+    const state = running.get(streamId);
+    if (!state) return;
+    running.delete(streamId);
+    try { state.proc.kill('SIGKILL'); } catch (_) {}
+  }
+
+  // Starts detectors for new streams (and ones whose ffmpeg died), stops those of removed streams
+  function tick() {
+    const ids = streamIds();
+    for (const id of ids) start(id);
+    for (const id of Array.from(running.keys())) if (!ids.includes(id)) stop(id);
+  }
+
+  if (ENABLED) setInterval(tick, TICK_MS).unref();
+
+  return {
+    stop,
+    stopAll: () => { for (const id of Array.from(running.keys())) stop(id); },
+  };
+}
+
+module.exports = { createDetector, FAULT_DETECTION: ENABLED };
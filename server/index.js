@@ -12,12 +12,32 @@ console.error = _consoleError;
 const express = require('express');
 const cors = require('cors');
 const NodeMediaServer = require('node-media-server');
-const { spawn } = require('child_process');
+const { spawn, spawnSync } = require('child_process');
+const { monitorEventLoopDelay } = require('perf_hooks');
 const crypto = require('crypto');
 const path = require('path');
 const os = require('os');
 const youtubedl = require('youtube-dl-exec');
+const pidusage = require('pidusage');
 const fs = require('fs');
+const { router: authRoutes, authenticateToken, requirePermission, verifyToken, AUTH_MODE } = require('./auth');
+const registry = require('./registry');
+const profiles = require('./profiles');
+const { createMetrics, metricsAuth, METRICS_AUTH } = require('./metrics');
+const recordings = require('./recordings');
+const thumbnails = require('./thumbnails');
+const detectors = require('./detectors');
+const restreams = require('./restreams');
+const resolvers = require('./resolvers');
+const orphans = require('./orphans');
+const telemetry = require('./telemetry');
+const restarts = require('./restarts');
+const ingress = require('./ingress');
+const { createAdmission, ADMISSION } = require('./admission');
+const tsanalyzer = require('./tsanalyzer');
+const scte35 = require('./scte35');
+const monitoring = require('./monitors');
+const { createSessionTracker } = require('./nmssessions');
 
 console.log = () => {};
 console.error = () => {};
@@ -30,6 +50,21 @@ app.use(cors({
 }));
 app.use(express.json());
 
+// ---------- Shared contract (zod) ----------
+// shared/contract.js is ESM so the frontend can import it too; it is loaded before the API listens.
+let contract = null;
+const contractReady = import('../shared/contract.js').then((m) => { contract = m; });
+
+// Validate req.body against a named schema; malformed requests get a structured 400
+function validateBody(schemaName) {
+  return (req, res, next) => {
+    const result = contract[schemaName].safeParse(req.body || {});
+    if (!result.success) return res.status(400).json(contract.validationErrorBody(result.error));
+    req.body = result.data;
+    next();
+  };
+}
+
 // ---------- Logging Utilities ----------
 const logsDir = path.join(__dirname, '..', 'server', 'logs');
 // Ensure logs directory exists at startup
@@ -41,12 +76,41 @@ try {
 const streamNameMap = new Map(); // streamId -> streamName
 const userStreamOwnership = new Map(); // username -> Set<streamId>
 
+function addStreamOwner(username, streamId) {
+  if (!username) return;
+  if (!userStreamOwnership.has(username)) userStreamOwnership.set(username, new Set());
+  userStreamOwnership.get(username).add(streamId);
+}
+
+// Every user with the stream on their wall. The registry entry keeps them all (owners) so a
+// reboot restores each of them, not only the user who started the transcoder (owner, whose
+// quota it counts against)
+function streamOwnersOf(streamId, without = null) {
+  const entry = registry.get(streamId) || {};
+  const owners = new Set(entry.owners || (entry.owner ? [entry.owner] : []));
+  for (const [username, ids] of userStreamOwnership.entries()) if (ids.has(streamId)) owners.add(username);
+  if (without) owners.delete(without);
+  return Array.from(owners);
+}
+
+// username took the stream off their wall: returns the users who still have it
+function releaseStreamOwner(streamId, username) {
+  if (username && userStreamOwnership.has(username)) userStreamOwnership.get(username).delete(streamId);
+  const owners = streamOwnersOf(streamId, username);
+  const entry = registry.get(streamId);
+  if (owners.length && entry) registry.update(streamId, { owners, ...(entry.owner === username ? { owner: owners[0] } : {}) });
+  return owners;
+}
+
 function cleanupUserStreams(username) {
   if (!username) return;
   const streamIds = userStreamOwnership.get(username);
   if (streamIds && streamIds.size > 0) {
     console.log(`Cleaning up streams for user: ${username}`);
-    for (const streamId of streamIds) {
+    for (const streamId of Array.from(streamIds)) {
+      // shared with other users: the transcoder stays theirs
+      if (releaseStreamOwner(streamId, username).length) continue;
+      registry.remove(streamId);
       cleanupStream(streamId);
     }
     userStreamOwnership.delete(username);
@@ -56,6 +120,11 @@ app.locals.cleanupUserStreams = cleanupUserStreams;
 
 const streamIssueState = new Map(); // streamId -> { startTime: number }
 const procCleanupMap = new Map(); // streamId -> cleanup function for ffmpeg process listeners
+const progressMap = new Map(); // streamId -> latest ffmpeg -progress fields of the running process
+const srtStatsMap = new Map(); // streamId -> SRT link stats accumulated since the last bitrate sample
+const inputSelectionMap = new Map(); // streamId -> { programId, videoPid, audioPid } picked from /probe
+const dvrWindowMap = new Map(); // streamId -> DVR window in minutes (absent = no DVR)
+const dvrRecorders = new Map(); // streamId -> ffmpeg remuxing the local RTMP publish into the DVR playlist
 
 function sanitizeFilename(name) {
     // Remove path separators and parent directory references to prevent path traversal
@@ -99,9 +168,82 @@ function formatDuration(ms) {
 }
 
 // ---------- Bitrate reader ----------
+// Latest -progress fields in the contract's transcoderProgress shape, null before the first block
+function transcoderProgress(streamId) {
+  const p = progressMap.get(streamId);
+  if (!p) return null;
+  const num = (v) => (Number.isFinite(v) ? v : null);
+  return {
+    frame: num(p.frame),
+    fps: num(p.fps),
+    speed: num(p.speed),
+    realtimeSpeed: num(p.realtimeSpeed),
+    dropFrames: num(p.dropFrames),
+    dupFrames: num(p.dupFrames),
+    outTimeSec: num(p.outTimeSec),
+    ended: Boolean(p.ended),
+  };
+}
+
+// Store one output bitrate sample (Mbps): history, logs, signal-loss end and SSE broadcast
+function recordBitrate(streamId, bitrateMbps) {
+  const info = activeStreams.get(streamId);
+  try {
+    bitrateMap.set(streamId, bitrateMbps);
+    const srt = takeSrtStats(streamId);
+    const progress = transcoderProgress(streamId);
+    const hist = bitrateHistoryMap.get(streamId) || [];
+    hist.push({ time: Date.now(), bitrate: bitrateMbps, estimated: false, ...(srt ? { srt } : {}), ...(progress ? { progress } : {}) });
+    if (hist.length > 3600) hist.shift();
+    bitrateHistoryMap.set(streamId, hist);
+    lastUpdateMap.set(streamId, Date.now());
+    if (info && info.attempts && Date.now() - info.startedAt >= RESTART_STABLE_MS) info.attempts = 0;
+
+    const { hlsPath, hlsAbsUrl } = makeHlsUrls(streamId);
+    console.log(`Stream ${streamId} 📊 Bitrate: ${bitrateMbps} Mbps`);
+    // persist bitrate and possible issue resolution to logs
+    const srtNote = srt ? ` | SRT RTT ${srt.rttMs} ms, lost ${srt.lostPkts}, retransmitted ${srt.retransPkts}, dropped ${srt.droppedPkts}` : '';
+    try { writeBitrateLog(streamId, `${formatServerTime()} Bitrate: ${bitrateMbps} Mbps${srtNote}`); } catch (e) {}
+    try {
+      if (streamIssueState.has(streamId)) {
+        const endTime = Date.now();
+        try {
+          const { startTime } = streamIssueState.get(streamId) || { startTime: endTime };
+          const dur = endTime - startTime;
+          metrics.signalLossEnded(streamLabels(streamId), dur / 1000);
+          writeIssueLog(streamId, `Signal Loss End: ${formatServerTime(endTime)} (Duration: ${formatDuration(dur)})`);
+        } catch (_) {
+          writeIssueLog(streamId, `Signal Loss End: ${formatServerTime(endTime)}`);
+        }
+        streamIssueState.delete(streamId);
+      }
+    } catch (e) {}
+    broadcastEvent({ type: 'bitrate', streamId, sourceUrl: streamUrlMap.get(streamId) || null, streamUrl: streamUrlMap.get(streamId) || null, hlsUrl: hlsPath, hlsAbsUrl, bitrate: bitrateMbps, estimated: false, ...(srt ? { srt } : {}), ...(progress ? { progress } : {}) });
+  } catch (e) {
+    // ignore errors during logging/broadcast
+  }
+}
+
+// The source URL events carry, by which the browser finds the tile: the transcoder's input or a
+// directly monitored HLS source
+const sourceUrlOf = (streamId) => streamUrlMap.get(streamId) || (monitors.get(streamId) || {}).streamUrl || null;
+
+// Store one input bitrate sample (Mbps) from the ingress meter: history and SSE broadcast
+function recordInputBitrate(streamId, bitrateMbps) {
+  if (deletedStreams.has(streamId) || (!activeStreams.has(streamId) && !monitors.has(streamId))) return;
+  inputBitrateMap.set(streamId, bitrateMbps);
+  const hist = inputHistoryMap.get(streamId) || [];
+  hist.push({ time: Date.now(), bitrate: bitrateMbps });
+  if (hist.length > 3600) hist.shift();
+  inputHistoryMap.set(streamId, hist);
+  const sourceUrl = sourceUrlOf(streamId);
+  broadcastEvent({ type: 'input-bitrate', streamId, sourceUrl, streamUrl: sourceUrl, bitrate: bitrateMbps });
+}
+
 function logBitrate(ffmpegProcess, streamId) {
   let lastSize = 0;
   let lastTime = 0;
+  progressMap.delete(streamId);
 
   const onStdout = (data) => {
     // ignore if this stream was marked deleted
@@ -110,11 +252,29 @@ function logBitrate(ffmpegProcess, streamId) {
     if (!info || !info.proc || info.proc.pid !== ffmpegProcess.pid) return;
 
     const lines = data.toString().trim().split('\n');
-    let totalSize, outTime;
+    let totalSize, outTime, blockEnded = false;
+    const progress = { ...progressMap.get(streamId) };
+    // ffmpeg writes N/A until a field is known (speed, out_time before the first frame)
+    const num = (v) => (Number.isFinite(v) ? v : null);
     for (const line of lines) {
-      if (line.startsWith('total_size=')) totalSize = parseInt(line.split('=')[1], 10);
-      if (line.startsWith('out_time_ms=')) outTime = parseInt(line.split('=')[1], 10);
+      const [key, value] = line.trim().split('=');
+      if (key === 'total_size') totalSize = parseInt(value, 10);
+      if (key === 'out_time_ms') outTime = parseInt(value, 10);
+      if (key === 'frame') progress.frame = num(parseInt(value, 10));
+      if (key === 'fps') progress.fps = num(parseFloat(value));
+      if (key === 'speed') progress.speed = num(parseFloat(value));
+      if (key === 'drop_frames') progress.dropFrames = num(parseInt(value, 10));
+      if (key === 'dup_frames') progress.dupFrames = num(parseInt(value, 10));
+      if (key === 'progress') {
+        progress.ended = value === 'end';
+        blockEnded = true;
+      }
     }
+    if (Number.isFinite(outTime)) progress.outTimeSec = outTime / 1e6;
+    if (Number.isFinite(totalSize)) progress.totalSize = totalSize;
+    // each block ends with progress=continue|end; speed and alarms are evaluated once per block
+    if (blockEnded) progress.realtimeSpeed = progressMonitor.update(streamId, progress);
+    progressMap.set(streamId, progress);
 
     if (totalSize && outTime) {
       if (lastSize > 0 && lastTime > 0) {
@@ -122,37 +282,7 @@ function logBitrate(ffmpegProcess, streamId) {
         const timeDiff = (outTime - lastTime) / 1e6;
         if (timeDiff > 0) {
           const bitrateBps = (bytesDiff / timeDiff) * 8;
-          const bitrateMbps = parseFloat((bitrateBps / 1e6).toFixed(2));
-
-          try {
-            bitrateMap.set(streamId, bitrateMbps);
-            const hist = bitrateHistoryMap.get(streamId) || [];
-            hist.push({ time: Date.now(), bitrate: bitrateMbps, estimated: false });
-            if (hist.length > 3600) hist.shift();
-            bitrateHistoryMap.set(streamId, hist);
-            lastUpdateMap.set(streamId, Date.now());
-
-            const { hlsPath, hlsAbsUrl } = makeHlsUrls(streamId);
-            console.log(`Stream ${streamId} 📊 Bitrate: ${bitrateMbps} Mbps`);
-            // persist bitrate and possible issue resolution to logs
-            try { writeBitrateLog(streamId, `${formatServerTime()} Bitrate: ${bitrateMbps} Mbps`); } catch (e) {}
-            try {
-              if (streamIssueState.has(streamId)) {
-                const endTime = Date.now();
-                try {
-                  const { startTime } = streamIssueState.get(streamId) || { startTime: endTime };
-                  const dur = endTime - startTime;
-                  writeIssueLog(streamId, `Signal Loss End: ${formatServerTime(endTime)} (Duration: ${formatDuration(dur)})`);
-                } catch (_) {
-                  writeIssueLog(streamId, `Signal Loss End: ${formatServerTime(endTime)}`);
-                }
-                streamIssueState.delete(streamId);
-              }
-            } catch (e) {}
-            broadcastEvent({ type: 'bitrate', streamId, sourceUrl: streamUrlMap.get(streamId) || null, streamUrl: streamUrlMap.get(streamId) || null, hlsUrl: hlsPath, hlsAbsUrl, bitrate: bitrateMbps, estimated: false });
-          } catch (e) {
-            // ignore errors during logging/broadcast
-          }
+          recordBitrate(streamId, parseFloat((bitrateBps / 1e6).toFixed(2)));
         }
       }
       lastSize = totalSize;
@@ -181,6 +311,8 @@ function logBitrate(ffmpegProcess, streamId) {
   ffmpegProcess.on('close', () => {
     try { cleanupListeners(); } catch (_) {}
     procCleanupMap.delete(streamId);
+    const info = activeStreams.get(streamId);
+    if (!info || !info.proc || info.proc === ffmpegProcess) progressMap.delete(streamId);
   });
   ffmpegProcess.on('error', () => {
     try { cleanupListeners(); } catch (_) {}
@@ -188,6 +320,56 @@ function logBitrate(ffmpegProcess, streamId) {
   });
 }
 
+// The HLS muxer reports no total_size in -progress, so ABR ladders are measured from the variant
+// playlists instead: each new segment gives size / EXTINF duration for its rendition, and a sample
+// (sum of the latest rate of every rendition) is recorded whenever the top rendition gets a segment.
+function watchAbrBitrate(ffmpegProcess, streamId, outDir, names) {
+  const seen = new Map(names.map((n) => [n, new Set()]));
+  const latestBps = new Map();
+
+  const timer = setInterval(() => {
+    const info = activeStreams.get(streamId);
+    if (!info || info.proc !== ffmpegProcess) return clearInterval(timer);
+    if (deletedStreams.has(streamId)) return;
+
+    let topUpdated = false;
+    for (const name of names) {
+      let playlist;
+      try { playlist = fs.readFileSync(path.join(outDir, `${name}.m3u8`), 'utf8'); } catch (_) { continue; }
+
+      const segments = [];
+      let duration = 0;
+      for (const line of playlist.split('\n')) {
+        const l = line.trim();
+        if (l.startsWith('#EXTINF:')) duration = parseFloat(l.slice(8));
+        else if (l && !l.startsWith('#')) segments.push({ file: l, duration });
+      }
+
+      const known = seen.get(name);
+      for (const seg of segments) {
+        if (known.has(seg.file)) continue;
+        known.add(seg.file);
+        try {
+          const { size } = fs.statSync(path.join(outDir, seg.file));
+          if (seg.duration > 0) latestBps.set(name, (size * 8) / seg.duration);
+          if (name === names[0]) topUpdated = true;
+        } catch (_) {}
+      }
+      // forget segments that left the live window
+      const listed = new Set(segments.map((x) => x.file));
+      for (const f of known) if (!listed.has(f)) known.delete(f);
+    }
+
+    if (topUpdated) {
+      let total = 0;
+      for (const bps of latestBps.values()) total += bps;
+      recordBitrate(streamId, parseFloat((total / 1e6).toFixed(2)));
+    }
+  }, 2000);
+
+  ffmpegProcess.on('close', () => clearInterval(timer));
+}
+
 function getStreamLogDir(streamId) {
   const streamName = streamNameMap.get(streamId) || streamId;
   const sanitizedStreamName = sanitizeFilename(streamName);
@@ -251,8 +433,26 @@ const HOST_IP = process.env.HOST_IP || getLocalIp();
 // ---------- SSE ----------
 // Map of response -> sessionId (optional)
 const sseClients = new Map();
+
+// Events that don't match the shared backendEvent schema are dropped, not sent
+function serializeEvent(payload) {
+  if (!contract) return null;
+  const result = contract.backendEvent.safeParse(payload);
+  if (!result.success) {
+    console.error(`Rejected SSE event '${payload && payload.type}':`, result.error.issues);
+    return null;
+  }
+  return `data: ${JSON.stringify(result.data)}\n\n`;
+}
+
+function sendEvent(res, payload) {
+  const data = serializeEvent(payload);
+  if (data) res.write(data);
+}
+
 function broadcastEvent(payload) {
-  const data = `data: ${JSON.stringify(payload)}\n\n`;
+  const data = serializeEvent(payload);
+  if (!data) return;
   for (const res of sseClients.keys()) {
     try { res.write(data); } catch (_) {}
   }
@@ -267,15 +467,24 @@ function removeOwnerForStream(streamId, sessionId) { /* no-op */ }
 function removeSessionOwners(sessionId, stopStreams = false) { /* no-op */ }
 
 // ---------- State ----------
-const activeStreams = new Map();      // streamId -> { proc, url, attempts, backoffTimer }
+const activeStreams = new Map();      // streamId -> { proc, url, profile, attempts, backoffTimer, circuitOpenUntil, startedAt, stopping }
 const viewerCounts = new Map();       // streamId -> viewer count
-const deletedStreams = new Set();     // recently deleted (block restarts)
+const deletedStreams = new Map();     // streamId -> blocked until (ms): recently deleted, no restarts
+let shuttingDown = false;             // set by shutdown(): no new or restarted ffmpegs
 const CLEANUP_BLOCK_MS = 5 * 60 * 1000;
 
 const bitrateMap = new Map();         // streamId -> number|null
 const bitrateHistoryMap = new Map();  // streamId -> [{ time, bitrate, estimated? }]
+const inputBitrateMap = new Map();    // streamId -> latest input (source) bitrate, Mbps
+const inputHistoryMap = new Map();    // streamId -> [{ time, bitrate }] of the input
 const streamUrlMap = new Map();       // streamId -> original input URL
 const lastUpdateMap = new Map();      // streamId -> last bitrate update (ms)
+const restartPolicyMap = new Map();   // streamId -> { mode, maxAttempts, baseDelayMs, maxDelayMs, cooldownMs }
+const abrStreams = new Map();         // streamId -> { hasAudio } for streams transcoded to the ABR ladder
+const loudnessMap = new Map();        // streamId -> latest loudness sample
+const loudnessHistoryMap = new Map(); // streamId -> [loudness samples]
+const loudnessTargetMap = new Map();  // streamId -> { integratedLufs, toleranceLu, maxTruePeak }
+const scte35HistoryMap = new Map();   // streamId -> [SCTE-35 cues] of the input
 
 const FINAL_STALE_THRESHOLD_MS = 60_000;
 
@@ -285,12 +494,10 @@ const API_IDLE_TIMEOUT_MS = Number(process.env.API_IDLE_TIMEOUT_MS || 2 * 60 * 1
 const HISTORY_FILE = path.join(__dirname, 'bitrate_history.json');
 
 // ---------- History Persistence ----------
+// { output: { streamId: [...] }, input: { streamId: [...] } }; older files hold the output only
 function saveHistory() {
   try {
-    const data = {};
-    for (const [key, value] of bitrateHistoryMap.entries()) {
-      data[key] = value;
-    }
+    const data = { output: Object.fromEntries(bitrateHistoryMap), input: Object.fromEntries(inputHistoryMap) };
     fs.writeFileSync(HISTORY_FILE, JSON.stringify(data));
     console.log('Bitrate history saved.');
   } catch (error) {
@@ -303,9 +510,13 @@ function loadHistory() {
     if (fs.existsSync(HISTORY_FILE)) {
       const data = JSON.parse(fs.readFileSync(HISTORY_FILE, 'utf8'));
       const oneDayAgo = Date.now() - 24 * 60 * 60 * 1000;
-      for (const key in data) {
-        const history = data[key].filter(p => p.time >= oneDayAgo);
-        bitrateHistoryMap.set(key, history);
+      const legacy = !data.output || Array.isArray(data.output);
+      const series = legacy ? [[data, bitrateHistoryMap]] : [[data.output, bitrateHistoryMap], [data.input || {}, inputHistoryMap]];
+      for (const [saved, target] of series) {
+        for (const key in saved) {
+          const history = saved[key].filter(p => p.time >= oneDayAgo);
+          target.set(key, history);
+        }
       }
       console.log('Bitrate history loaded and pruned.');
     }
@@ -314,22 +525,23 @@ function loadHistory() {
   }
 }
 
-// Save history periodically and on exit
+// Save history periodically and on exit (SIGINT / SIGTERM go through shutdown() first)
 setInterval(saveHistory, 5 * 60 * 1000); // every 5 minutes
 process.on('exit', saveHistory);
-process.on('SIGINT', () => {
-  saveHistory();
-  process.exit();
-});
 
 
 // Prefer bundled ffmpeg.exe but fall back to system ffmpeg if not present
 const bundledFfmpeg = path.join(__dirname, 'ffmpeg.exe');
 const ffmpegPath = fs.existsSync(bundledFfmpeg) ? bundledFfmpeg : 'ffmpeg';
+const bundledFfprobe = path.join(__dirname, 'ffprobe.exe');
+const ffprobePath = fs.existsSync(bundledFfprobe) ? bundledFfprobe : 'ffprobe';
+
+// NMS serves HLS from here; ABR ladders are written by our own ffmpeg into the same tree
+const MEDIA_ROOT = path.join(__dirname, 'media');
 
 const config = {
   rtmp: { port: 1935, chunk_size: 60000, gop_cache: true, ping: 30, ping_timeout: 60 },
-  http: { port: 8000, mediaroot: './media', allow_origin: '*' },
+  http: { port: 8000, mediaroot: MEDIA_ROOT, allow_origin: '*' },
   trans: {
     ffmpeg: ffmpegPath,
     tasks: [
@@ -341,10 +553,16 @@ const config = {
 const HLS_BASE = `http://${HOST_IP}:${config.http.port}`;
 
 const nms = new NodeMediaServer(config);
+const nmsSessions = createSessionTracker(nms);
 nms.run();
 
+// ABR output goes to a subfolder: NMS wipes *.m3u8/*.ts in live/<id> when its own HLS session ends,
+// which would race with a stream being upgraded from a single rendition to the ladder.
+// The DVR playlist lives in its own subfolder for the same reason.
 function makeHlsUrls(streamId) {
-  const hlsPath = `/live/${streamId}/index.m3u8`;
+  const hlsPath = abrStreams.has(streamId)
+    ? `/live/${streamId}/abr/index.m3u8`
+    : dvrWindowMap.has(streamId) ? `/live/${streamId}/dvr/index.m3u8` : `/live/${streamId}/index.m3u8`;
   return { hlsPath, hlsAbsUrl: `${HLS_BASE}${hlsPath}` };
 }
 
@@ -357,15 +575,12 @@ app.get('/events', (req, res) => {
     return res.status(401).json({ error: 'Authentication token required' });
   }
   
-  const jwt = require('jsonwebtoken');
-  const JWT_SECRET = process.env.JWT_SECRET;
-  
-  try {
-    jwt.verify(token, JWT_SECRET);
-  } catch (err) {
-    return res.status(403).json({ error: 'Invalid or expired token' });
-  }
-  
+  verifyToken(String(token)).then(() => openEventStream(req, res), () => {
+    res.status(403).json({ error: 'Invalid or expired token' });
+  });
+});
+
+function openEventStream(req, res) {
   // SSE: clients connect; per-session filtering removed — broadcast to all clients
   res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
   res.write('\n');
@@ -374,13 +589,28 @@ app.get('/events', (req, res) => {
   for (const [streamId, bitrate] of bitrateMap.entries()) {
     const sourceUrl = streamUrlMap.get(streamId) || null;
     const { hlsPath, hlsAbsUrl } = makeHlsUrls(streamId);
-    res.write(`data: ${JSON.stringify({ type: 'bitrate', streamId, sourceUrl, streamUrl: sourceUrl, hlsUrl: hlsPath, hlsAbsUrl, bitrate })}\n\n`);
+    sendEvent(res, { type: 'bitrate', streamId, sourceUrl, streamUrl: sourceUrl, hlsUrl: hlsPath, hlsAbsUrl, bitrate });
     const history = bitrateHistoryMap.get(streamId) || [];
-    if (history.length > 0) {
+    const input = inputHistoryMap.get(streamId) || [];
+    if (history.length > 0 || input.length > 0) {
       const slice = history.slice(-300);
-      res.write(`data: ${JSON.stringify({ type: 'bitrate-history', streamId, sourceUrl, streamUrl: sourceUrl, hlsUrl: hlsPath, hlsAbsUrl, history: slice })}\n\n`);
+      sendEvent(res, { type: 'bitrate-history', streamId, sourceUrl, streamUrl: sourceUrl, hlsUrl: hlsPath, hlsAbsUrl, history: slice, input: input.slice(-300) });
     }
   }
+  // directly monitored sources have no transcoder bitrate, only the input's
+  for (const streamId of monitors.ids()) {
+    const input = inputHistoryMap.get(streamId) || [];
+    const sourceUrl = sourceUrlOf(streamId);
+    if (input.length > 0) sendEvent(res, { type: 'bitrate-history', streamId, sourceUrl, streamUrl: sourceUrl, history: [], input: input.slice(-300) });
+  }
+  for (const [streamId, history] of loudnessHistoryMap.entries()) {
+    const sourceUrl = sourceUrlOf(streamId);
+    if (history.length > 0) sendEvent(res, { type: 'loudness-history', streamId, sourceUrl, streamUrl: sourceUrl, history: history.slice(-300) });
+  }
+  for (const [streamId, cues] of scte35HistoryMap.entries()) {
+    const sourceUrl = sourceUrlOf(streamId);
+    if (cues.length > 0) sendEvent(res, { type: 'scte35-history', streamId, sourceUrl, streamUrl: sourceUrl, cues });
+  }
 
   req.on('close', () => {
     try {
@@ -389,7 +619,7 @@ app.get('/events', (req, res) => {
       try { sseClients.delete(res); } catch (_) {}
     }
   });
-});
+}
 
 // Endpoint to explicitly end a session (useful when frontend logs out)
 // /end-session retained for compatibility but is a no-op now
@@ -403,8 +633,14 @@ app.post('/end-session', (req, res) => {
 });
 
 // ---------- Viewer tracking ----------
-nms.on('prePlay', (id, StreamPath) => {
+// This server's own readers of the local RTMP publish (fault detector, thumbnails, recordings,
+// restreams, DVR) play it with ?helper=1: they aren't viewers and don't keep a stream busy
+const helperPlayUrl = (streamId) => `rtmp://127.0.0.1/live/${streamId}?helper=1`;
+const isHelperPlay = (args) => Boolean(args && args.helper === '1');
+
+nms.on('prePlay', (id, StreamPath, args) => {
   try {
+    if (isHelperPlay(args)) return;
     const parts = StreamPath.split('/');
     const streamId = parts[parts.length - 1];
     const count = (viewerCounts.get(streamId) || 0) + 1;
@@ -412,8 +648,9 @@ nms.on('prePlay', (id, StreamPath) => {
     broadcastEvent({ type: 'viewers', streamId, viewers: count });
   } catch (_) {}
 });
-nms.on('donePlay', (id, StreamPath) => {
+nms.on('donePlay', (id, StreamPath, args) => {
   try {
+    if (isHelperPlay(args)) return;
     const parts = StreamPath.split('/');
     const streamId = parts[parts.length - 1];
     const count = Math.max(0, (viewerCounts.get(streamId) || 1) - 1);
@@ -423,6 +660,88 @@ nms.on('donePlay', (id, StreamPath) => {
   } catch (_) {}
 });
 
+// ---------- DVR / timeshift ----------
+// NMS keeps only the last 12 segments, too little to look back at an outage. Streams with a DVR
+// window get a second HLS playlist sized to the window: ABR ladders write it themselves (longer
+// hls_list_size), single renditions get a copy-remux of the local RTMP publish into live/<id>/dvr.
+// Segments carry EXT-X-PROGRAM-DATE-TIME so players can map wall-clock times (traffic events)
+// to positions; append_list+discont_start keeps the window across source restarts.
+const DVR_DEFAULT_MINUTES = Number(process.env.DVR_DEFAULT_MINUTES || 0);
+const DVR_SEGMENT_SEC = 6;
+
+function setDvrWindow(streamId, minutes) {
+  const prev = dvrWindowMap.get(streamId);
+  if (!(minutes > 0)) {
+    dvrWindowMap.delete(streamId);
+    stopDvrRecorder(streamId);
+    return;
+  }
+  dvrWindowMap.set(streamId, minutes);
+  // a running single rendition has already published: (re)start the recorder with the new window
+  const info = activeStreams.get(streamId);
+  if (minutes !== prev && info && info.proc && !abrStreams.has(streamId)) startDvrRecorder(streamId);
+}
+
+// Segments a writer with segmentSec-long segments keeps for the window (0 = no DVR)
+function dvrSegments(streamId, segmentSec) {
+  const minutes = dvrWindowMap.get(streamId);
+  return minutes ? Math.ceil((minutes * 60) / segmentSec) : 0;
+}
+
+function startDvrRecorder(streamId) {
+  stopDvrRecorder(streamId);
+  const outDir = path.join(MEDIA_ROOT, 'live', streamId, 'dvr');
+  fs.mkdirSync(outDir, { recursive: true });
+  const args = [
+    '-hide_banner', '-loglevel', 'error',
+    '-i', helperPlayUrl(streamId),
+    '-c', 'copy',
+    '-f', 'hls',
+    '-hls_time', String(DVR_SEGMENT_SEC),
+    '-hls_list_size', String(dvrSegments(streamId, DVR_SEGMENT_SEC)),
+    '-hls_flags', 'delete_segments+append_list+discont_start+program_date_time+independent_segments+temp_file',
+    '-hls_segment_filename', path.join(outDir, 'seg_%06d.ts'),
+    path.join(outDir, 'index.m3u8'),
+  ];
+  const proc = orphans.spawnFfmpeg(config.trans.ffmpeg, args, { role: 'dvr', streamId });
+  dvrRecorders.set(streamId, proc);
+  proc.stderr.on('data', () => { /* noisy */ });
+  proc.on('error', (err) => console.error(`DVR recorder error for ${streamId}:`, err));
+  proc.on('close', (code) => {
+    if (dvrRecorders.get(streamId) === proc) dvrRecorders.delete(streamId);
+    console.log(`DVR recorder for ${streamId} closed (code=${code})`);
+  });
+}
+
+function stopDvrRecorder(streamId) {
+  const proc = dvrRecorders.get(streamId);
+  if (!proc) return;
+  dvrRecorders.delete(streamId);
+  try { proc.kill('SIGKILL'); } catch (_) {}
+}
+
+// shutdown: resolves once every recorder has exited
+function stopAllDvrRecorders() {
+  const procs = Array.from(dvrRecorders.values());
+  dvrRecorders.clear();
+  return Promise.all(procs.map(orphans.killFfmpeg));
+}
+
+// Our own ffmpeg publishing to live/<id> starts the recorder; the recorder ends by itself at EOF
+nms.on('postPublish', (id, StreamPath) => {
+  try {
+    const parts = StreamPath.split('/');
+    const streamId = parts[parts.length - 1];
+    if (parts[1] === 'live' && dvrWindowMap.has(streamId) && !abrStreams.has(streamId)) startDvrRecorder(streamId);
+  } catch (e) { console.error('Failed to start DVR recorder', e); }
+});
+nms.on('donePublish', (id, StreamPath) => {
+  try {
+    const parts = StreamPath.split('/');
+    stopDvrRecorder(parts[parts.length - 1]);
+  } catch (_) {}
+});
+
 // ---------- Cleanup ----------
 function cleanupStream(streamId) {
   const info = activeStreams.get(streamId);
@@ -449,31 +768,56 @@ function cleanupStream(streamId) {
 
   // remove HLS folder
   try {
-    const liveFolder = path.join(__dirname, '..', 'media', 'live', streamId);
+    const liveFolder = path.join(MEDIA_ROOT, 'live', streamId);
     if (fs.existsSync(liveFolder)) {
       fs.rmSync(liveFolder, { recursive: true, force: true });
       console.log(`Removed media folder for ${streamId}`);
     }
   } catch (e) { console.error('Failed to remove media folder', e); }
 
+  // open alarms end before the source URL goes: their events need it to find the tile
+  closeLoudnessAlarm(streamId);
+  progressMonitor.forget(streamId);
   activeStreams.delete(streamId);
   bitrateMap.delete(streamId);
+  progressMap.delete(streamId);
+  srtStatsMap.delete(streamId);
   bitrateHistoryMap.delete(streamId);
+  inputBitrateMap.delete(streamId);
+  inputHistoryMap.delete(streamId);
+  ingressMeter.forget(streamId);
+  tsAnalyzer.forget(streamId);
+  cueReader.forget(streamId);
+  scte35HistoryMap.delete(streamId);
   streamUrlMap.delete(streamId);
   lastUpdateMap.delete(streamId);
   viewerCounts.delete(streamId);
+  restartPolicyMap.delete(streamId);
+  loudnessMap.delete(streamId);
+  loudnessHistoryMap.delete(streamId);
+  loudnessTargetMap.delete(streamId);
+  sourceReopenedAt.delete(streamId);
 
   // remove any ownership tracking for this stream
   try { streamOwners.delete(streamId); } catch (_) {}
 
+  for (const ids of userStreamOwnership.values()) ids.delete(streamId);
+
   try {
-    deletedStreams.add(streamId);
+    deletedStreams.set(streamId, Date.now() + CLEANUP_BLOCK_MS);
     setTimeout(() => deletedStreams.delete(streamId), CLEANUP_BLOCK_MS);
   } catch (_) {}
 
   const { hlsPath, hlsAbsUrl } = makeHlsUrls(streamId);
   console.log(`Transcoding stopped for stream ${streamId}`);
   broadcastEvent({ type: 'cleaned', streamId, sourceUrl: sourceUrl || null, streamUrl: sourceUrl || null, hlsUrl: hlsPath, hlsAbsUrl });
+  abrStreams.delete(streamId);
+  inputSelectionMap.delete(streamId);
+  setDvrWindow(streamId, 0);
+  recorder.stop(streamId);
+  thumbnailer.forget(streamId);
+  faultDetector.stop(streamId);
+  restreamer.stopStream(streamId);
 }
 
 function maybeCleanupIfIdle(streamId) {
@@ -485,6 +829,12 @@ function maybeCleanupIfIdle(streamId) {
 
     const info = activeStreams.get(streamId);
     if (!info) return;
+    // Streams with an auto-restart policy are meant to outlive a dead source
+    if (getRestartPolicy(streamId).mode !== 'off') return;
+    // ABR recordings read HLS over HTTP and don't count as RTMP viewers
+    if (recorder.isRecording(streamId)) return;
+    // nor do restream outputs
+    if (restreamer.isActive(streamId)) return;
 
     // Prefer last bitrate update time as indicator of liveliness, otherwise fall back to process start time
     const last = lastUpdateMap.get(streamId) || 0;
@@ -496,7 +846,10 @@ function maybeCleanupIfIdle(streamId) {
 
     if (now - reference > API_IDLE_TIMEOUT_MS) {
       console.log(`Idle timeout reached for ${streamId} (no viewers). Cleaning up.`);
+      // the registry entry stays: the stream is still desired, listed as stopped and respawned on
+      // boot; only an explicit stop or delete removes it. Nor is a start refused as for a deleted one.
       try { cleanupStream(streamId); } catch (e) { console.error('Idle cleanup failed', e); }
+      deletedStreams.delete(streamId);
     }
   } catch (e) {
     console.error('maybeCleanupIfIdle error', e);
@@ -513,16 +866,456 @@ setInterval(() => {
 }, 30_000);
 
 // ---------- Restart/backoff ----------
-function scheduleRestart(streamId, streamUrl) {
-  // Automatic restart logic has been disabled. Restarts must be initiated manually
-  // by calling the /restart-stream endpoint.
-  console.log(`scheduleRestart called for ${streamId} but automatic restart is disabled.`);
-  return;
+// Policies and delays come from restarts.js; a stream's attempts, circuit and timer live in activeStreams
+
+// A stream that keeps producing bitrate this long after a restart counts as recovered
+const RESTART_STABLE_MS = Number(process.env.RESTART_STABLE_MS || 60_000);
+
+function getRestartPolicy(streamId) {
+  return restartPolicyMap.get(streamId) || restarts.RESTART_DEFAULTS;
 }
 
-function startFfmpeg(streamUrl, streamId, resolution= '480p', force = false) {
+function setRestartPolicy(streamId, policy) {
+  const merged = restarts.mergePolicy(policy);
+  restartPolicyMap.set(streamId, merged);
+
+  const info = activeStreams.get(streamId);
+  if (info && merged.mode === 'off') {
+    if (info.backoffTimer) { clearTimeout(info.backoffTimer); info.backoffTimer = null; }
+    info.attempts = 0;
+    info.circuitOpenUntil = 0;
+  }
+  return merged;
+}
+
+function scheduleRestart(streamId, reason) {
+  const info = activeStreams.get(streamId);
+  if (!info || deletedStreams.has(streamId) || shuttingDown) return;
+  const policy = getRestartPolicy(streamId);
+  if (policy.mode === 'off' || info.backoffTimer) return;
+
+  const sourceUrl = streamUrlMap.get(streamId) || null;
+  const now = Date.now();
+  const next = restarts.nextRestart(policy, info.attempts, now);
+
+  if (next.circuitOpen) {
+    const { retryAt } = next;
+    info.circuitOpenUntil = retryAt;
+    console.log(`Circuit open for ${streamId} after ${info.attempts} restart attempts; retry at ${formatServerTime(retryAt)}`);
+    writeIssueLog(streamId, `Auto Restart Circuit Open: ${formatServerTime(now)} (${info.attempts} attempts, retry at ${formatServerTime(retryAt)})`);
+    broadcastEvent({ type: 'circuit-open', streamId, sourceUrl, streamUrl: sourceUrl, attempts: info.attempts, retryAt, reason });
+    metrics.circuitOpened(streamLabels(streamId));
+    info.backoffTimer = setTimeout(() => {
+      const cur = activeStreams.get(streamId);
+      if (!cur) return;
+      cur.backoffTimer = null;
+      cur.circuitOpenUntil = 0;
+      // half-open: one more failure re-opens the circuit
+      cur.attempts = restarts.halfOpenAttempts(getRestartPolicy(streamId));
+      scheduleRestart(streamId, 'cool-down elapsed');
+    }, policy.cooldownMs);
+    return;
+  }
+
+  const { delayMs, restartAt } = next;
+  info.attempts = next.attempt;
+  console.log(`Restart ${info.attempts}/${policy.maxAttempts} for ${streamId} in ${delayMs}ms (${reason})`);
+  writeIssueLog(streamId, `Auto Restart ${info.attempts}/${policy.maxAttempts}: ${formatServerTime(restartAt)} (${reason})`);
+  broadcastEvent({ type: 'restart-scheduled', streamId, sourceUrl, streamUrl: sourceUrl, attempt: info.attempts, maxAttempts: policy.maxAttempts, delayMs, restartAt, reason });
+  info.backoffTimer = setTimeout(() => {
+    autoRestart(streamId).catch((e) => console.error(`Automatic restart failed for ${streamId}`, e));
+  }, delayMs);
+}
+
+async function autoRestart(streamId) {
+  const info = activeStreams.get(streamId);
+  if (!info || deletedStreams.has(streamId)) return;
+  info.backoffTimer = null;
+
+  if (info.proc) {
+    try { await killProcessAndWait(streamId, 4000); } catch (e) { console.error(`Error while killing process for ${streamId}:`, e); }
+  }
+  const actualUrl = await resolveInputUrl(streamUrlMap.get(streamId) || info.url);
+  // stopped or manually restarted while we were waiting
+  if (activeStreams.get(streamId) !== info) return;
+  info.proc = null;
+  metrics.restarted(streamLabels(streamId), 'automatic');
+  startFfmpeg(actualUrl, streamId, info.profile, false);
+}
+
+// ---------- Source resolvers ----------
+// Page URLs (YouTube etc.) are resolved to a direct media URL right before ffmpeg starts.
+// streamUrlMap keeps the URL the stream was requested with so clients can match events to tiles.
+const SOURCE_REOPEN_MIN_MS = 30_000;
+const sourceReopenedAt = new Map(); // streamId -> last reopen on a re-resolved URL
+
+const sourceResolver = resolvers.createResolver({
+  youtubedl,
+  inUse: (streamUrl) => Array.from(streamUrlMap.entries()).some(([id, url]) => url === streamUrl && (activeStreams.get(id) || {}).proc),
+  onRefresh: (streamUrl) => {
+    for (const [id, url] of streamUrlMap.entries()) {
+      if (url === streamUrl) void reopenSource(id, 'resolved URL about to expire');
+    }
+  },
+});
+
+async function resolveInputUrl(streamUrl, options) {
+  return (await sourceResolver.resolve(streamUrl, options)).url;
+}
+
+// Original vs. resolved URL for the tile info; null for inputs ffmpeg opens as they are
+function sourceInfo(streamUrl) {
+  const entry = streamUrl ? sourceResolver.peek(streamUrl) : null;
+  if (!entry || entry.resolver === 'direct') return null;
+  return { resolver: entry.resolver, rule: entry.rule || null, url: entry.url, resolvedAt: entry.resolvedAt, expiresAt: entry.expiresAt };
+}
+
+// Restarts a running transcoder on a freshly resolved URL: ahead of the old one's expiry, or once
+// the source refused it (force re-resolves instead of using the cache)
+async function reopenSource(streamId, reason, force = false) {
+  const info = activeStreams.get(streamId);
+  const streamUrl = streamUrlMap.get(streamId);
+  if (!info || !info.proc || !streamUrl || info.reopening) return;
+  if (Date.now() - (sourceReopenedAt.get(streamId) || 0) < SOURCE_REOPEN_MIN_MS) return;
+  const cached = sourceResolver.peek(streamUrl);
+  if (!cached || cached.resolver === 'direct') return;
+  info.reopening = true;
+  sourceReopenedAt.set(streamId, Date.now());
+
+  const actualUrl = await resolveInputUrl(streamUrl, { force });
+  // stopped or restarted meanwhile
+  if (activeStreams.get(streamId) !== info || !info.proc) return;
+  console.log(`Reopening ${streamId} on a re-resolved URL (${reason})`);
+  writeIssueLog(streamId, `Source Re-resolved: ${formatServerTime(Date.now())} (${reason})`);
+  try { await killProcessAndWait(streamId, 4000); } catch (e) { console.error(`Error while killing process for ${streamId}:`, e); }
+  if (activeStreams.get(streamId) !== info) return;
+  info.proc = null;
+  startFfmpeg(actualUrl, streamId, info.profile, false);
+}
+
+// ---------- Renditions / ABR ladder ----------
+const RENDITIONS = {
+  '720p': { height: 720, bitrate: '2500k', maxrate: '3000k', bufsize: '6000k', audio_bitrate: '128k' },
+  '480p': { height: 480, bitrate: '1200k', maxrate: '1500k', bufsize: '2000k', audio_bitrate: '96k' },
+  '360p': { height: 360, bitrate: '700k', maxrate: '850k', bufsize: '1400k', audio_bitrate: '96k' },
+};
+const ABR_SEGMENT_SEC = 4;
+// Highest rendition first; override with e.g. ABR_LADDER=720p,360p
+const ABR_LADDER = (() => {
+  const names = String(process.env.ABR_LADDER || '720p,480p,360p').split(',').map((n) => n.trim()).filter((n) => RENDITIONS[n]);
+  const ladder = names.length ? names : ['720p', '480p', '360p'];
+  return ladder.sort((a, b) => RENDITIONS[b].height - RENDITIONS[a].height);
+})();
+
+// Input options (protocol-specific), shared by ffmpeg and ffprobe
+function inputArgs(streamUrl) {
+  if (streamUrl.startsWith('rtsp://')) return ['-rtsp_transport', 'tcp'];
+  if (streamUrl.startsWith('udp://')) {
+    // For UDP, we need to be more robust against packet loss and timing issues.
+    return [
+      '-probesize', '5M',           // Increase probe size to 5MB
+      '-analyzeduration', '5000000', // Analyze for 5 seconds
+      '-fflags', '+genpts+igndts+discardcorrupt' // Handle various stream issues
+    ];
+  }
+  if (streamUrl.startsWith('srt://')) return ['-probesize', '5M', '-analyzeduration', '5000000', '-fflags', '+genpts+discardcorrupt'];
+  return [];
+}
+
+// ---------- Input bitrate ----------
+// Measured on the input side (server/ingress.js); the transcoder's own bitrate is the output
+const ingressMeter = ingress.createIngressMeter({
+  onSample: recordInputBitrate,
+  onData: (streamId, chunk) => tsAnalyzer.feed(streamId, chunk),
+  onPlaylist: (streamId, text, first) => cueReader.playlist(streamId, text, first),
+});
+
+// ---------- TS health (TR 101 290 priority 1) ----------
+// SRT and UDP inputs are MPEG-TS; the bytes the ingress meter and the SRT relay receive go through
+// server/tsanalyzer.js. A window crossing a threshold is logged and turned into an ERROR traffic event by
+// the browser; every window's report is broadcast
+const tsAnalyzer = tsanalyzer.createTsAnalyzer({
+  onReport: (streamId, health, transition) => {
+    if (deletedStreams.has(streamId)) return;
+    if (transition === 'raised') writeIssueLog(streamId, `TS Error Start: ${formatServerTime()} (${health.alarm})`);
+    else if (transition === 'cleared') writeIssueLog(streamId, `TS Error End: ${formatServerTime()}`);
+    const sourceUrl = sourceUrlOf(streamId);
+    broadcastEvent({ type: 'ts-health', streamId, sourceUrl, streamUrl: sourceUrl, health, transition });
+  },
+  onScte35: (streamId, section) => cueReader.section(streamId, section),
+});
+
+// ---------- SCTE-35 cues ----------
+// Ad-insertion cues of TS inputs (the analyzer's SCTE-35 PIDs) and HLS inputs, transcoded or
+// monitored directly (playlist cue tags), decoded by server/scte35.js. Each one is logged, kept for the bitrate graph's markers and
+// broadcast; the browser lists it as an SCTE35 traffic event
+const SCTE35_HISTORY = 500;
+
+function recordCue(streamId, cue) {
+  if (deletedStreams.has(streamId) || (!activeStreams.has(streamId) && !monitors.has(streamId))) return;
+  const hist = scte35HistoryMap.get(streamId) || [];
+  hist.push(cue);
+  if (hist.length > SCTE35_HISTORY) hist.shift();
+  scte35HistoryMap.set(streamId, hist);
+  writeIssueLog(streamId, `SCTE-35 ${cue.kind}: ${formatServerTime()} (${cue.detail})`);
+  const sourceUrl = sourceUrlOf(streamId);
+  broadcastEvent({ type: 'scte35', streamId, sourceUrl, streamUrl: sourceUrl, cue });
+}
+
+const cueReader = scte35.createCueReader({ onCue: recordCue });
+
+// Why a stream has no TS health report, for the dialog
+function tsHealthReason(streamId) {
+  const info = activeStreams.get(streamId);
+  const sourceUrl = streamUrlMap.get(streamId);
+  if (!info || !sourceUrl) return 'The stream is not running on the server.';
+  if (!/^(udp|srt):\/\//i.test(sourceUrl)) return 'Only UDP and SRT inputs carry an MPEG-TS to analyse.';
+  if (/^udp:\/\//i.test(sourceUrl) && !ingress.INGRESS_RELAY && !ingress.isMulticastUdp(sourceUrl)) {
+    return 'The server runs with INGRESS_RELAY=off, so ffmpeg reads this unicast UDP input itself and it is not analysed.';
+  }
+  if (!info.proc) return 'The transcoder is restarting; analysis resumes with it.';
+  return 'No MPEG-TS packets received from the input yet.';
+}
+
+app.get('/api/ts-health', authenticateToken, (req, res) => {
+  const { streamId, streamUrl } = req.query;
+  const id = streamId ? String(streamId) : streamUrl ? crypto.createHash('md5').update(String(streamUrl)).digest('hex') : null;
+  const ids = id ? [id] : Array.from(activeStreams.keys());
+  res.json(ids.map((sid) => {
+    const health = tsAnalyzer.report(sid);
+    return withStreamName({ streamId: sid, health, reason: health ? null : tsHealthReason(sid) });
+  }));
+});
+
+// ---------- SRT input ----------
+// srt:// sources use the usual SRT URI options: mode=caller|listener, latency (ms), passphrase,
+// pbkeylen and streamid. They are relayed into ffmpeg's stdin so their bytes are counted (input
+// bitrate) and analysed (TS health): through srt-live-transmit (srt-tools) where it's installed,
+// whose JSON stats (RTT, loss, retransmits) are added to the bitrate history, or else through a
+// second ffmpeg copying the SRT payload unchanged (no link statistics then).
+const SRT_LIVE_TRANSMIT = process.env.SRT_LIVE_TRANSMIT || 'srt-live-transmit';
+// srt-live-transmit reports every N packets (~1s at 5 Mbps for 500)
+const SRT_STATS_PACKETS = Number(process.env.SRT_STATS_PACKETS || 500);
+let srtLiveTransmitAvailable = null;
+
+function hasSrtLiveTransmit() {
+  if (srtLiveTransmitAvailable === null) {
+    // stats are written to /dev/stderr, which Windows doesn't have
+    srtLiveTransmitAvailable = process.platform !== 'win32' && !spawnSync(SRT_LIVE_TRANSMIT, ['-version'], { timeout: 3000 }).error;
+    _consoleLog(srtLiveTransmitAvailable ? `SRT sources relayed through ${SRT_LIVE_TRANSMIT}` : 'srt-live-transmit not found: SRT sources relayed through ffmpeg, without link stats');
+  }
+  return srtLiveTransmitAvailable;
+}
+
+// ffmpeg's srt protocol takes latency in microseconds, the SRT URI convention is milliseconds
+function ffmpegSrtUrl(srtUrl) {
+  try {
+    const u = new URL(srtUrl);
+    const latency = Number(u.searchParams.get('latency'));
+    if (latency > 0) u.searchParams.set('latency', String(Math.round(latency * 1000)));
+    return u.toString();
+  } catch (_) {
+    return srtUrl;
+  }
+}
+
+// Fold one srt-live-transmit JSON report (interval counters) into the stream's pending stats
+function addSrtReport(streamId, report) {
+  const link = report.link || {};
+  const recv = report.recv || {};
+  const prev = srtStatsMap.get(streamId) || { rttMs: 0, lostPkts: 0, retransPkts: 0, droppedPkts: 0 };
+  srtStatsMap.set(streamId, {
+    rttMs: Number.isFinite(link.rtt) ? Math.round(link.rtt * 10) / 10 : prev.rttMs,
+    lostPkts: prev.lostPkts + (recv.packetsLost || 0),
+    retransPkts: prev.retransPkts + (recv.packetsRetransmitted || 0),
+    droppedPkts: prev.droppedPkts + (recv.packetsDropped || 0),
+    ...(Number.isFinite(recv.mbitRate) ? { recvMbps: Math.round(recv.mbitRate * 100) / 100 } : {}),
+  });
+}
+
+// Stats for the next bitrate sample; loss counters restart from zero, RTT carries over
+function takeSrtStats(streamId) {
+  const stats = srtStatsMap.get(streamId);
+  if (!stats) return undefined;
+  srtStatsMap.set(streamId, { ...stats, lostPkts: 0, retransPkts: 0, droppedPkts: 0 });
+  return stats;
+}
+
+// A process writing the source's MPEG-TS to its stdout
+function startSrtRelay(srtUrl, streamId) {
+  if (!hasSrtLiveTransmit()) {
+    // the data format passes the srt protocol's payload (the MPEG-TS itself) through byte for byte
+    const relay = orphans.spawnFfmpeg(config.trans.ffmpeg, [
+      '-hide_banner', '-loglevel', 'error',
+      '-f', 'data', '-i', ffmpegSrtUrl(srtUrl),
+      '-map', '0', '-c', 'copy', '-f', 'data', 'pipe:1',
+    ], { role: 'srt-relay', streamId });
+    relay.on('error', (err) => console.error(`SRT relay error for ${streamId}:`, err));
+    return relay;
+  }
+  const relay = spawn(SRT_LIVE_TRANSMIT, [
+    '-statspf:json',
+    `-stats-report-frequency:${SRT_STATS_PACKETS}`,
+    '-statsout:/dev/stderr',
+    '-loglevel:error',
+    srtUrl,
+    'file://con',
+  ]);
+  let pending = '';
+  relay.stderr.on('data', (chunk) => {
+    pending += chunk.toString();
+    const lines = pending.split('\n');
+    pending = lines.pop();
+    for (const line of lines) {
+      if (!line.startsWith('{')) continue;
+      try { addSrtReport(streamId, JSON.parse(line)); } catch (_) { /* partial or non-stats line */ }
+    }
+  });
+  relay.on('error', (err) => console.error(`srt-live-transmit error for ${streamId}:`, err));
+  relay.on('close', () => srtStatsMap.delete(streamId));
+  return relay;
+}
+
+// ---------- MPTS program / track selection ----------
+// Multi-program transport streams (satellite downlinks over UDP multicast) carry several services;
+// without a selection ffmpeg takes the first video and audio it finds. Selections come from /probe
+// and address elementary streams by PID (ffmpeg's 0:i:<id>) or by program number.
+function selectedStreams(selection) {
+  const sel = selection || {};
+  const program = sel.programId !== undefined && sel.programId !== null ? `p:${sel.programId}:` : '';
+  return {
+    video: sel.videoPid ? `0:i:${sel.videoPid}` : `0:${program}v:0`,
+    audio: sel.audioPid ? `0:i:${sel.audioPid}` : `0:${program}a:0`,
+  };
+}
+
+// -map options for the single-rendition output; none keeps ffmpeg's automatic choice.
+// FLV carries one audio track, so only one is mapped (optional, for silent services).
+function selectionMapArgs(selection) {
+  if (!selection || (selection.programId == null && !selection.videoPid && !selection.audioPid)) return [];
+  const { video, audio } = selectedStreams(selection);
+  return ['-map', video, '-map', `${audio}?`];
+}
+
+function setInputSelection(streamId, input) {
+  if (input && (input.programId != null || input.videoPid || input.audioPid)) inputSelectionMap.set(streamId, input);
+  else inputSelectionMap.delete(streamId);
+}
+
+// ABR needs to know whether there is audio to map; a picked audio PID answers that without probing
+async function abrHasAudio(streamId, inputUrl) {
+  const sel = inputSelectionMap.get(streamId);
+  return Boolean(sel && sel.audioPid) || probeHasAudio(inputUrl);
+}
+
+function summarizeProbe(data) {
+  const frameRate = (r) => {
+    const [n, d] = String(r || '').split('/').map(Number);
+    return n && d ? Math.round((n / d) * 100) / 100 : null;
+  };
+  const track = (st) => ({
+    index: st.index,
+    pid: st.id ? parseInt(st.id, 16) : null,
+    codec: st.codec_name || null,
+    language: (st.tags && st.tags.language) || null,
+    ...(st.codec_type === 'video'
+      ? { width: st.width || null, height: st.height || null, fps: frameRate(st.avg_frame_rate || st.r_frame_rate) }
+      : { channels: st.channels || null, sampleRate: st.sample_rate ? Number(st.sample_rate) : null }),
+  });
+  const group = (streams) => ({
+    video: streams.filter((st) => st.codec_type === 'video').map(track),
+    audio: streams.filter((st) => st.codec_type === 'audio').map(track),
+  });
+
+  const programs = (data.programs || []).filter((p) => (p.streams || []).length > 0);
+  if (programs.length === 0) {
+    // single-program input (or not a transport stream): one unnamed program
+    return [{ programId: null, serviceName: null, provider: null, pmtPid: null, pcrPid: null, ...group(data.streams || []) }];
+  }
+  return programs.map((p) => ({
+    // ffmpeg's p: specifier matches the program id (the MPEG-TS program number / service id)
+    programId: p.program_id,
+    serviceName: (p.tags && p.tags.service_name) || null,
+    provider: (p.tags && p.tags.service_provider) || null,
+    pmtPid: p.pmt_pid !== undefined ? p.pmt_pid : null,
+    pcrPid: p.pcr_pid !== undefined ? p.pcr_pid : null,
+    ...group(p.streams),
+  }));
+}
+
+// One encode per ladder rung from a single decode, written as HLS with a master playlist
+// (index.m3u8) next to one media playlist per rendition (<name>.m3u8).
+// dvrListSize > 0 turns the ladder playlists into a DVR window of that many segments.
+function abrOutputArgs(outDir, hasAudio, streams = { video: '0:v:0', audio: '0:a:0' }, dvrListSize = 0) {
+  const rungs = ABR_LADDER.map((name) => ({ name, ...RENDITIONS[name] }));
+  const filter = [
+    `[${streams.video}]split=${rungs.length}${rungs.map((_, i) => `[v${i}]`).join('')}`,
+    ...rungs.map((r, i) => `[v${i}]scale=-2:${r.height}[v${i}out]`),
+  ].join(';');
+
+  const args = ['-filter_complex', filter];
+  rungs.forEach((r, i) => {
+    args.push('-map', `[v${i}out]`, `-b:v:${i}`, r.bitrate, `-maxrate:v:${i}`, r.maxrate, `-bufsize:v:${i}`, r.bufsize);
+    if (hasAudio) args.push('-map', streams.audio, `-b:a:${i}`, r.audio_bitrate);
+  });
+  args.push(
+    '-c:v', 'libx264',
+    '-preset', 'ultrafast',
+    // aligned keyframes so players can switch renditions at segment boundaries
+    '-g', '60',
+    '-keyint_min', '60',
+    '-sc_threshold', '0',
+    '-pix_fmt', 'yuv420p'
+  );
+  if (hasAudio) args.push('-c:a', 'aac', '-ar', '44100');
+
+  const streamMap = rungs.map((r, i) => (hasAudio ? `v:${i},a:${i},name:${r.name}` : `v:${i},name:${r.name}`)).join(' ');
+  args.push(
+    '-f', 'hls',
+    '-hls_time', String(ABR_SEGMENT_SEC),
+    '-hls_list_size', String(dvrListSize || 12),
+    '-hls_flags', `delete_segments+program_date_time+independent_segments${dvrListSize ? '+append_list+discont_start' : ''}`,
+    '-master_pl_name', 'index.m3u8',
+    '-var_stream_map', streamMap,
+    '-hls_segment_filename', path.join(outDir, '%v_%05d.ts'),
+    path.join(outDir, '%v.m3u8')
+  );
+  return args;
+}
+
+// var_stream_map can't reference an audio stream the source doesn't have, so ABR starts probe first.
+// Unknown (probe failed / timed out) is treated as "has audio", like the single-rendition command.
+function probeHasAudio(inputUrl, timeoutMs = 10_000) {
+  return new Promise((resolve) => {
+    let out = '';
+    let done = false;
+    let timer = null;
+    const finish = (value) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      resolve(value);
+    };
+
+    let p;
+    try {
+      p = spawn(ffprobePath, ['-v', 'error', ...inputArgs(inputUrl), '-select_streams', 'a', '-show_entries', 'stream=index', '-of', 'csv=p=0', inputUrl.startsWith('srt://') ? ffmpegSrtUrl(inputUrl) : inputUrl]);
+    } catch (_) {
+      return resolve(true);
+    }
+    timer = setTimeout(() => {
+      try { p.kill('SIGKILL'); } catch (_) {}
+      finish(true);
+    }, timeoutMs);
+    p.stdout.on('data', (d) => { out += String(d); });
+    p.on('error', () => finish(true));
+    p.on('close', (code) => finish(code === 0 ? out.trim().length > 0 : true));
+  });
+}
+
+function startFfmpeg(streamUrl, streamId, profileName = profiles.DEFAULT_PROFILE, force = false) {
   const rtmpUrl = `rtmp://127.0.0.1/live/${streamId}`; // local publish
-  if (deletedStreams.has(streamId)) {
+  if (deletedStreams.has(streamId) || shuttingDown) {
     // stream was recently cleaned up; silently refuse to start ffmpeg
     return null;
   }
@@ -538,137 +1331,525 @@ function startFfmpeg(streamUrl, streamId, resolution= '480p', force = false) {
     }
   }
 
-  console.log(`Starting ffmpeg for ${streamId} -> ${streamUrl} at ${resolution}`);
-  broadcastEvent({ type: 'starting', streamId, sourceUrl: streamUrl });
+  // any pending automatic restart is superseded by this start
+  if (existing && existing.backoffTimer) { clearTimeout(existing.backoffTimer); existing.backoffTimer = null; }
 
-  // Build ffmpeg args with per-protocol reliability options.
-  const ffmpegArgs = [];
+  if (!streamUrlMap.has(streamId)) streamUrlMap.set(streamId, streamUrl);
+  const sourceUrl = streamUrlMap.get(streamId);
 
-  // Input options (protocol-specific)
-  if (streamUrl.startsWith('rtsp://')) {
-     ffmpegArgs.push('-rtsp_transport', 'tcp');
-  }
-  
-  if (streamUrl.startsWith('udp://')) {
-    // For UDP, we need to be more robust against packet loss and timing issues.
-    ffmpegArgs.push(
-      '-probesize', '5M',           // Increase probe size to 5MB
-      '-analyzeduration', '5000000', // Analyze for 5 seconds
-      '-fflags', '+genpts+igndts+discardcorrupt' // Handle various stream issues
-    );
-  }
+  // a profile deleted since the stream was added falls back to the default
+  const profile = profiles.get(profileName) || profiles.get(profiles.DEFAULT_PROFILE);
+  console.log(`Starting ffmpeg for ${streamId} -> ${streamUrl} with profile ${profile.name}`);
+  broadcastEvent({ type: 'starting', streamId, sourceUrl });
+
+  const isSrt = streamUrl.startsWith('srt://');
+  const relay = isSrt ? startSrtRelay(streamUrl, streamId) : null;
+  // UDP / RTMP inputs are relayed or tapped by the ingress meter, HLS playlists polled beside ffmpeg
+  const ingest = relay ? null : ingressMeter.open(streamId, streamUrl);
+
+  // Build ffmpeg args with per-protocol reliability options.
+  const ffmpegArgs = [...inputArgs(streamUrl)];
 
   // General input options
   ffmpegArgs.push('-re');
 
-  // Input URL
-  ffmpegArgs.push('-i', streamUrl);
-  
-  // Transcoding and output options based on resolution
-  const resolutionSettings = {
-     '720p': {
-      scale: 'scale=-2:720',
-      bitrate: '2500k',
-      maxrate: '3000k',
-      bufsize: '6000k',
-      audio_bitrate: '128k',
-    },
-    '480p': {
-      scale: 'scale=-2:480',
-      bitrate: '1200k',
-      maxrate: '1500k',
-      bufsize: '2000k',
-      audio_bitrate: '96k',
+  // Input URL (the SRT relay writes MPEG-TS to ffmpeg's stdin)
+  if (relay) ffmpegArgs.push('-f', 'mpegts', '-i', 'pipe:0');
+  else if (ingest && ingest.inputArgs) ffmpegArgs.push(...ingest.inputArgs);
+  else ffmpegArgs.push('-i', streamUrl);
+  ffmpegArgs.push('-progress', 'pipe:1', '-nostats');
+
+  const abr = abrStreams.get(streamId);
+  let abrOut = null;
+  if (abr) {
+    abrOut = path.join(MEDIA_ROOT, 'live', streamId, 'abr');
+    // a DVR window survives restarts: ffmpeg appends to the existing playlists instead
+    if (!dvrWindowMap.has(streamId)) {
+      try { fs.rmSync(abrOut, { recursive: true, force: true }); } catch (_) {}
     }
-  };
-
-  const settings = resolutionSettings[resolution] || resolutionSettings['480p'];
-
-  ffmpegArgs.push(
-    '-c:v', 'libx264',
-    '-preset', 'ultrafast',
-    '-vf', settings.scale,
-    '-b:v', settings.bitrate,
-    '-maxrate', settings.maxrate,
-    '-bufsize', settings.bufsize,
-    '-g', '60',
-    '-pix_fmt', 'yuv420p',
-    '-c:a', 'aac',
-    '-b:a', settings.audio_bitrate,
-    '-ar', '44100',
-    '-f', 'flv',
-    '-progress', 'pipe:1',
-    '-nostats',
-    rtmpUrl
-  );
+    fs.mkdirSync(abrOut, { recursive: true });
+    ffmpegArgs.push(...abrOutputArgs(abrOut, abr.hasAudio, selectedStreams(inputSelectionMap.get(streamId)), dvrSegments(streamId, ABR_SEGMENT_SEC)));
+  } else {
+    ffmpegArgs.push(...selectionMapArgs(inputSelectionMap.get(streamId)), ...profiles.outputArgs(profile), '-f', 'flv', rtmpUrl);
+  }
 
-  const ffmpeg = spawn(config.trans.ffmpeg, ffmpegArgs);
+  const ffmpeg = orphans.spawnFfmpeg(config.trans.ffmpeg, ffmpegArgs, { role: 'transcoder', streamId });
+  if (ingest) ingest.attach(ffmpeg);
+  if (relay) {
+    relay.stdout.on('data', (chunk) => {
+      ingressMeter.count(streamId, chunk.length);
+      tsAnalyzer.feed(streamId, chunk);
+    });
+    relay.stdout.pipe(ffmpeg.stdin);
+    // ffmpeg exiting first closes the pipe under the relay
+    ffmpeg.stdin.on('error', () => {});
+    ffmpeg.on('close', () => { try { relay.kill('SIGKILL'); } catch (_) {} });
+  }
 
   // If force=true this is an explicit manual restart: reset attempts so backoff scheduling
   // from previous failures won't interfere. Keep attempts from existing otherwise.
-  activeStreams.set(streamId, { proc: ffmpeg, url: streamUrl, attempts: force ? 0 : ((existing && existing.attempts) || 0), backoffTimer: null, startedAt: Date.now() });
+  activeStreams.set(streamId, { proc: ffmpeg, url: streamUrl, profile: profile.name, attempts: force ? 0 : ((existing && existing.attempts) || 0), backoffTimer: null, circuitOpenUntil: 0, startedAt: Date.now() });
   // owner tracking removed
   logBitrate(ffmpeg, streamId);
+  if (abrOut) watchAbrBitrate(ffmpeg, streamId, abrOut, ABR_LADDER);
 
-  ffmpeg.stderr.on('data', () => { /* noisy */ });
+  // the log is noise except for a 403: the resolved URL expired or was revoked
+  ffmpeg.stderr.on('data', (chunk) => {
+    if (/\b403 Forbidden\b/.test(chunk.toString())) void reopenSource(streamId, 'source answered 403', true);
+  });
 
   ffmpeg.on('close', (code, signal) => {
     console.log(`ffmpeg for ${streamId} closed (code=${code} signal=${signal})`);
     const info = activeStreams.get(streamId);
-    if (info) info.proc = null;
-  broadcastEvent({ type: 'stopped', streamId, sourceUrl: streamUrl, streamUrl });
-  // Automatic restart disabled: restart must be requested manually via /restart-stream
+    // a forced restart may already have replaced this process
+    if (!info || info.proc !== ffmpeg) return;
+    info.proc = null;
+    broadcastEvent({ type: 'stopped', streamId, sourceUrl, streamUrl: sourceUrl });
+    if (!info.stopping && getRestartPolicy(streamId).mode === 'always') {
+      scheduleRestart(streamId, `ffmpeg exited (code=${code} signal=${signal})`);
+    }
   });
 
   ffmpeg.on('error', (err) => {
     console.error(`ffmpeg error for ${streamId}:`, err);
-  broadcastEvent({ type: 'error', streamId, sourceUrl: streamUrl, streamUrl, error: String(err) });
-  // Automatic restart disabled: restart must be requested manually via /restart-stream
+    broadcastEvent({ type: 'error', streamId, sourceUrl, streamUrl: sourceUrl, error: String(err) });
   });
 
-  streamUrlMap.set(streamId, streamUrl);
   bitrateMap.set(streamId, null);
   lastUpdateMap.set(streamId, 0);
 
   const { hlsPath, hlsAbsUrl } = makeHlsUrls(streamId);
-  broadcastEvent({ type: 'started', streamId, sourceUrl: streamUrl, streamUrl, hlsUrl: hlsPath, hlsAbsUrl });
+  broadcastEvent({ type: 'started', streamId, sourceUrl, streamUrl: sourceUrl, hlsUrl: hlsPath, hlsAbsUrl, source: sourceInfo(sourceUrl) });
   return ffmpeg;
 }
 
+// ---------- Transcoded output (local) ----------
+// Where helpers read a stream's transcoded output without a second encode: the local RTMP publish,
+// or one rendition of an ABR ladder. This is the inputFor(streamId) of the recorder, thumbnailer,
+// fault detector and restreamer: a URL ffmpeg can open, or null while the stream isn't producing
+// output (not started, restarting, shutting down), in which case the helper skips it and tries
+// again on its next tick.
+function localOutputUrl(streamId, rendition = ABR_LADDER[0]) {
+  const info = activeStreams.get(streamId);
+  if (!info || !info.proc || shuttingDown) return null;
+  if (abrStreams.has(streamId)) return `http://127.0.0.1:${config.http.port}/live/${streamId}/abr/${rendition}.m3u8`;
+  return helperPlayUrl(streamId);
+}
+
+// ---------- Recordings ----------
+// Recordings copy the top rendition
+const recordingInput = (streamId) => localOutputUrl(streamId);
+const recorder = recordings.createRecorder({ ffmpegPath: config.trans.ffmpeg, inputFor: recordingInput });
+
+const withStreamName = (item) => ({ ...item, streamName: streamNameMap.get(item.streamId) || (registry.get(item.streamId) || {}).streamName || null });
+
+app.get('/api/recordings', authenticateToken, requirePermission('view_recordings'), (req, res) => {
+  try {
+    res.json({
+      active: recorder.active().map(withStreamName),
+      schedules: recorder.schedules().map(withStreamName),
+      files: recorder.listFiles().map(withStreamName),
+      retention: { days: recordings.RETENTION_DAYS, maxBytes: recordings.MAX_BYTES },
+    });
+  } catch (e) {
+    console.error('Failed to list recordings', e);
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+app.post('/api/recordings/start', authenticateToken, requirePermission('record_streams'), validateBody('startRecordingRequest'), (req, res) => {
+  const { streamId, streamUrl, format, segmentMinutes, durationMinutes } = req.body;
+  const id = streamId || crypto.createHash('md5').update(streamUrl).digest('hex');
+  if (!recordingInput(id)) return res.status(409).json({ error: 'Stream is not running' });
+  const rec = recorder.start(id, {
+    format,
+    segmentMinutes,
+    endAt: durationMinutes ? Date.now() + durationMinutes * 60 * 1000 : null,
+    by: req.user?.username || null,
+  });
+  if (!rec) return res.status(409).json({ error: 'Stream is already being recorded' });
+  res.json(withStreamName(rec));
+});
+
+app.post('/api/recordings/stop', authenticateToken, requirePermission('record_streams'), validateBody('stopRecordingRequest'), (req, res) => {
+  const { streamId, streamUrl } = req.body;
+  const id = streamId || crypto.createHash('md5').update(streamUrl).digest('hex');
+  if (!recorder.stop(id)) return res.status(404).json({ error: 'Stream is not being recorded' });
+  res.json({ ok: true });
+});
+
+app.post('/api/recordings/schedules', authenticateToken, requirePermission('record_streams'), validateBody('recordingScheduleRequest'), (req, res) => {
+  const { streamId, streamUrl, startAt, endAt, format, segmentMinutes } = req.body;
+  const id = streamId || crypto.createHash('md5').update(streamUrl).digest('hex');
+  if (!streamUrlMap.has(id) && !registry.has(id)) return res.status(404).json({ error: 'stream not found' });
+  try {
+    res.json(withStreamName(recorder.addSchedule({ streamId: id, startAt, endAt, format, segmentMinutes, by: req.user?.username || null })));
+  } catch (e) {
+    console.error('Failed to save recording schedule', e);
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+app.delete('/api/recordings/schedules/:id', authenticateToken, requirePermission('record_streams'), (req, res) => {
+  if (!recorder.removeSchedule(req.params.id)) return res.status(404).json({ error: 'Schedule not found' });
+  res.json({ ok: true });
+});
+
+// Same checks as /download-log: bare file name, whitelisted extension, resolved path inside the folder
+function resolveRecordingFile(streamId, filename) {
+  const safeFilename = path.basename(filename);
+  if (filename !== safeFilename || safeFilename.includes('..')) return { status: 400, error: 'Invalid filename' };
+  if (!['.mp4', '.ts'].includes(path.extname(safeFilename))) return { status: 400, error: 'Only .mp4 and .ts files allowed' };
+
+  const streamDir = path.resolve(recordings.RECORDINGS_DIR, sanitizeFilename(streamId));
+  if (!isPathWithin(streamDir, recordings.RECORDINGS_DIR)) return { status: 403, error: 'Access denied' };
+  const filePath = path.resolve(streamDir, safeFilename);
+  if (!isPathWithin(filePath, streamDir)) return { status: 403, error: 'Access denied' };
+  if (!fs.existsSync(filePath)) return { status: 404, error: 'Recording not found' };
+  return { filePath, safeFilename };
+}
+
+app.get('/download-recording/:streamId/:filename', authenticateToken, requirePermission('view_recordings'), (req, res) => {
+  const { filePath, safeFilename, status, error } = resolveRecordingFile(req.params.streamId, req.params.filename);
+  if (error) return res.status(status).send(error);
+  return res.download(filePath, safeFilename, (err) => {
+    if (err && !res.headersSent) {
+      console.error(`Failed to download recording: ${filePath}`, err);
+      res.status(500).send('Could not download the file.');
+    }
+  });
+});
+
+app.delete('/api/recordings/:streamId/:filename', authenticateToken, requirePermission('record_streams'), (req, res) => {
+  const { filePath, status, error } = resolveRecordingFile(req.params.streamId, req.params.filename);
+  if (error) return res.status(status).json({ error });
+  const inProgress = recorder.listFiles().some((f) => f.streamId === req.params.streamId && f.filename === req.params.filename && f.inProgress);
+  if (inProgress) return res.status(409).json({ error: 'File is still being written' });
+  try {
+    fs.unlinkSync(filePath);
+    res.json({ ok: true });
+  } catch (e) {
+    console.error('Failed to delete recording', e);
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+// ---------- Thumbnails ----------
+// Stills come from the smallest rendition; the wall shows them at tile size anyway
+const thumbnailer = thumbnails.createThumbnailer({
+  ffmpegPath: config.trans.ffmpeg,
+  inputFor: (streamId) => localOutputUrl(streamId, ABR_LADDER[ABR_LADDER.length - 1]),
+  streamIds: () => Array.from(activeStreams.keys()),
+});
+
+// <img> can't send an Authorization header: like /events, a token query parameter is accepted too
+function authenticateHeaderOrQuery(req, res, next) {
+  if (!req.query.token) return authenticateToken(req, res, next);
+  verifyToken(String(req.query.token)).then((user) => {
+    req.user = user;
+    next();
+  }, () => res.status(403).json({ error: 'Invalid or expired token' }));
+}
+
+app.get('/api/thumbnails', authenticateToken, (req, res) => {
+  res.json(thumbnailer.list().map((t) => ({ ...t, streamName: streamNameMap.get(t.streamId) || null })));
+});
+
+// Latest still, or the one taken at ?at=<time> from the history list
+app.get('/api/thumbnails/:streamId', authenticateHeaderOrQuery, (req, res) => {
+  const at = req.query.at ? Number(req.query.at) : null;
+  const still = thumbnailer.get(req.params.streamId, at);
+  if (!still) return res.status(404).json({ error: 'No thumbnail for this stream' });
+  res.set('Content-Type', 'image/jpeg');
+  res.set('X-Thumbnail-Time', String(still.time));
+  // a given history entry never changes; "latest" does
+  res.set('Cache-Control', at ? 'private, max-age=3600' : 'private, no-cache');
+  res.send(still.jpeg);
+});
+
+// ---------- Restream outputs ----------
+// Outputs forward the top rendition, copied or re-encoded with a transcoding profile
+const restreamer = restreams.createRestreamer({
+  ffmpegPath: config.trans.ffmpeg,
+  inputFor: (streamId) => localOutputUrl(streamId),
+  encodeArgs: (name) => profiles.outputArgs(profiles.get(name) || profiles.get('copy')),
+  outputUrl: (url) => (url.startsWith('srt://') ? ffmpegSrtUrl(url) : url),
+  onEvent: (type, output, fields) => {
+    const sourceUrl = streamUrlMap.get(output.streamId) || (registry.get(output.streamId) || {}).streamUrl || null;
+    broadcastEvent({ type, streamId: output.streamId, sourceUrl, streamUrl: sourceUrl, outputId: output.id, ...fields });
+  },
+});
+
+app.get('/api/restreams', authenticateToken, requirePermission('manage_restreams'), (req, res) => {
+  const { streamId, streamUrl } = req.query;
+  const id = streamId ? String(streamId) : streamUrl ? crypto.createHash('md5').update(String(streamUrl)).digest('hex') : null;
+  res.json(restreamer.list(id).map(withStreamName));
+});
+
+app.post('/api/restreams', authenticateToken, requirePermission('manage_restreams'), validateBody('restreamRequest'), (req, res) => {
+  const { streamId, streamUrl, name, url, profile, start } = req.body;
+  const id = streamId || crypto.createHash('md5').update(streamUrl).digest('hex');
+  if (!streamUrlMap.has(id) && !registry.has(id)) return res.status(404).json({ error: 'stream not found' });
+  if (!profiles.get(profile)) return res.status(400).json({ error: `Unknown profile '${profile}'` });
+  try {
+    res.json(withStreamName(restreamer.add({ streamId: id, name, url, profile, enabled: start, by: req.user?.username || null })));
+  } catch (e) {
+    console.error('Failed to add restream output', e);
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+// An enabled output runs whenever its stream does; stop disables it until started again
+app.post('/api/restreams/:id/start', authenticateToken, requirePermission('manage_restreams'), (req, res) => {
+  const output = restreamer.start(req.params.id);
+  if (!output) return res.status(404).json({ error: 'Output not found' });
+  res.json(withStreamName(output));
+});
+
+app.post('/api/restreams/:id/stop', authenticateToken, requirePermission('manage_restreams'), (req, res) => {
+  const output = restreamer.stop(req.params.id);
+  if (!output) return res.status(404).json({ error: 'Output not found' });
+  res.json(withStreamName(output));
+});
+
+app.delete('/api/restreams/:id', authenticateToken, requirePermission('manage_restreams'), (req, res) => {
+  if (!restreamer.remove(req.params.id)) return res.status(404).json({ error: 'Output not found' });
+  res.json({ ok: true });
+});
+
+// ---------- Loudness (EBU R128) ----------
+// Target for streams that never got one: EBU R128, -23 LUFS ±1 LU and -1 dBTP
+const LOUDNESS_DEFAULTS = {
+  integratedLufs: Number(process.env.LOUDNESS_TARGET_LUFS || -23),
+  toleranceLu: Number(process.env.LOUDNESS_TOLERANCE_LU || 1),
+  maxTruePeak: Number(process.env.LOUDNESS_MAX_TRUE_PEAK || -1),
+};
+// How long a stream has to stay out of tolerance before it's reported (seconds)
+const LOUDNESS_HOLD_SEC = Number(process.env.LOUDNESS_HOLD_SEC || 30);
+const LOUDNESS_HISTORY = 1800;
+// Quieter than this is silence (silencedetect's job), not a stream that's too quiet
+const LOUDNESS_GATE_LUFS = -60;
+const loudnessAlarms = new Map(); // streamId -> { since, reason, raised }
+
+const getLoudnessTarget = (streamId) => loudnessTargetMap.get(streamId) || LOUDNESS_DEFAULTS;
+
+function setLoudnessTarget(streamId, target) {
+  loudnessTargetMap.set(streamId, { ...LOUDNESS_DEFAULTS, ...target });
+  return getLoudnessTarget(streamId);
+}
+
+// Why a sample is out of tolerance, or null
+function loudnessViolation({ shortTerm, truePeak }, target) {
+  if (truePeak !== null && truePeak > target.maxTruePeak) return `true peak ${truePeak} dBTP above ${target.maxTruePeak} dBTP`;
+  if (shortTerm === null || shortTerm < LOUDNESS_GATE_LUFS) return null;
+  if (Math.abs(shortTerm - target.integratedLufs) > target.toleranceLu) {
+    return `short-term ${shortTerm} LUFS outside ${target.integratedLufs} ±${target.toleranceLu} LU`;
+  }
+  return null;
+}
+
+function handleLoudness(streamId, sample) {
+  const hist = loudnessHistoryMap.get(streamId) || [];
+  hist.push(sample);
+  if (hist.length > LOUDNESS_HISTORY) hist.shift();
+  loudnessHistoryMap.set(streamId, hist);
+  loudnessMap.set(streamId, sample);
+
+  const reason = loudnessViolation(sample, getLoudnessTarget(streamId));
+  const alarm = loudnessAlarms.get(streamId);
+  if (reason && !alarm) {
+    loudnessAlarms.set(streamId, { since: sample.time, reason, raised: false });
+  } else if (reason && !alarm.raised && sample.time - alarm.since >= LOUDNESS_HOLD_SEC * 1000) {
+    alarm.raised = true;
+    handleDetectedFault({ streamId, event: 'LOUDNESS', fault: 'LOUDNESS', start: alarm.since, end: null, duration: null, message: `Loudness out of tolerance for ${LOUDNESS_HOLD_SEC}s: ${reason}` });
+  } else if (!reason && alarm) {
+    loudnessAlarms.delete(streamId);
+    const duration = sample.time - alarm.since;
+    if (alarm.raised) {
+      handleDetectedFault({ streamId, event: 'RECOVERED', fault: 'LOUDNESS', start: alarm.since, end: sample.time, duration, message: `Loudness back within tolerance after ${(duration / 1000).toFixed(1)}s` });
+    }
+  }
+
+  const sourceUrl = sourceUrlOf(streamId);
+  broadcastEvent({ type: 'loudness', streamId, sourceUrl, streamUrl: sourceUrl, sample, outOfTolerance: Boolean(reason) });
+}
+
+// Metering a stream stopped: a raised alarm gets its RECOVERED, like the detector's open faults
+function closeLoudnessAlarm(streamId) {
+  const alarm = loudnessAlarms.get(streamId);
+  loudnessAlarms.delete(streamId);
+  if (!alarm || !alarm.raised) return;
+  const end = Date.now();
+  const duration = end - alarm.since;
+  handleDetectedFault({ streamId, event: 'RECOVERED', fault: 'LOUDNESS', start: alarm.since, end, duration, message: `Loudness out of tolerance ended after ${(duration / 1000).toFixed(1)}s (stream stopped)` });
+}
+
+// ---------- Fault detection ----------
+// Black / frozen / silent output, detected on the server so it's caught with no tab open and
+// logged once. Direct HLS tiles are checked on their source once registered for monitoring; the
+// browser players keep their own checks only for tiles the server doesn't watch
+const FAULT_LOG_LABELS = {
+  BLACK: 'Black Video',
+  FROZEN: 'Frozen Video',
+  SILENT: 'Silent Audio',
+  LOUDNESS: 'Loudness Out Of Tolerance',
+  SLOW: 'Transcoder Slow',
+  DROPPED_FRAMES: 'Dropped Frames',
+};
+
+function handleDetectedFault({ streamId, event, fault, start, end, duration, message }) {
+  const label = FAULT_LOG_LABELS[fault];
+  if (event === 'RECOVERED') writeIssueLog(streamId, `${label} End: ${formatServerTime(end)} (Duration: ${formatDuration(duration)})`);
+  else writeIssueLog(streamId, `${label} Start: ${formatServerTime(start)}`);
+  const sourceUrl = sourceUrlOf(streamId);
+  broadcastEvent({ type: 'fault', streamId, sourceUrl, streamUrl: sourceUrl, event, fault, start, end, duration, message });
+}
+
+const faultDetector = detectors.createDetector({
+  ffmpegPath: config.trans.ffmpeg,
+  // transcoded streams are checked on their lowest rendition, direct HLS sources as they are
+  inputFor: (streamId) => (monitors.has(streamId)
+    ? (shuttingDown ? null : monitors.get(streamId).streamUrl)
+    : localOutputUrl(streamId, ABR_LADDER[ABR_LADDER.length - 1])),
+  streamIds: () => [...activeStreams.keys(), ...monitors.ids()],
+  onEvent: handleDetectedFault,
+  onLoudness: handleLoudness,
+});
+
+// Slow transcoding and dropped-frame spikes, from the transcoder's -progress output (logBitrate)
+const progressMonitor = telemetry.createProgressMonitor({ onEvent: handleDetectedFault });
+
+// ---------- Direct HLS monitoring ----------
+// Tiles playing an HLS source directly have no transcoder. The browser registers them
+// (server/monitors.js) and their source playlist is polled by the ingress meter like a transcoded
+// HLS input's, for input bitrate and SCTE-35 cue tags; the fault detector reads (and meters the
+// loudness of) the source itself
+const directMeters = new Map(); // streamId -> ingress meter of the source playlist
+
+const monitors = monitoring.createMonitors({
+  onStart: ({ streamId, streamUrl, streamName }) => {
+    if (streamName) streamNameMap.set(streamId, streamName);
+    const meter = ingressMeter.open(streamId, streamUrl);
+    if (meter) directMeters.set(streamId, meter);
+  },
+  onStop: ({ streamId }) => {
+    const meter = directMeters.get(streamId);
+    if (meter) meter.close();
+    directMeters.delete(streamId);
+    ingressMeter.forget(streamId);
+    inputBitrateMap.delete(streamId);
+    inputHistoryMap.delete(streamId);
+    cueReader.forget(streamId);
+    scte35HistoryMap.delete(streamId);
+    faultDetector.stop(streamId);
+    closeLoudnessAlarm(streamId);
+    loudnessMap.delete(streamId);
+    loudnessHistoryMap.delete(streamId);
+    loudnessTargetMap.delete(streamId);
+  },
+});
+
+app.post('/api/monitors/start', authenticateToken, requirePermission('add_streams'), validateBody('startMonitorRequest'), (req, res) => {
+  const { streamUrl, streamName, loudnessTarget } = req.body;
+  if (!ingress.isHlsUrl(streamUrl)) return res.status(400).json({ error: 'Only HLS sources are monitored directly; other inputs go through /start-stream' });
+  const entry = monitors.add(streamUrl, { streamName, owner: req.user?.username || null });
+  if (loudnessTarget) setLoudnessTarget(entry.streamId, loudnessTarget);
+  res.json({ streamId: entry.streamId, faultDetection: detectors.FAULT_DETECTION });
+});
+
+// Monitoring keeps running while another user still has the tile on their wall
+app.post('/api/monitors/stop', authenticateToken, requirePermission('delete_streams'), validateBody('stopMonitorRequest'), (req, res) => {
+  const { streamId, streamUrl } = req.body;
+  const id = streamId || crypto.createHash('md5').update(streamUrl).digest('hex');
+  const result = monitors.release(id, req.user?.username || null);
+  if (!result) return res.status(404).json({ error: 'stream not monitored' });
+  if (!result.stopped) return res.json({ ok: true, stopped: false, message: `Stream ${id} is still on ${result.owners} other user(s)' walls; monitoring kept running` });
+  res.json({ ok: true, stopped: true, message: `Monitoring stopped for stream ${id}` });
+});
+
+// ---------- Admission control ----------
+// Limits, queue and CPU sampling in admission.js; a transcoder counts for the owner in the registry
+const admitter = createAdmission({
+  running: () => activeStreams.keys(),
+  ownerOf: (streamId) => (registry.get(streamId) || {}).owner,
+});
+
+function sendAdmissionRejection(res, body) {
+  res.set('Retry-After', String(body.retryAfterSec));
+  return res.status(429).json(body);
+}
+
+// Stopped moments ago: startFfmpeg refuses the stream until the block ends, so (re)starts get a
+// 409 with Retry-After instead of a dead URL. Returns whether it answered.
+function sendIfRecentlyStopped(res, streamId) {
+  const blockedUntil = deletedStreams.get(streamId);
+  if (!blockedUntil) return false;
+  const retryAfterSec = Math.max(1, Math.ceil((blockedUntil - Date.now()) / 1000));
+  res.set('Retry-After', String(retryAfterSec));
+  res.status(409).json({ error: `This stream was stopped moments ago and can be started again in ${retryAfterSec}s` });
+  return true;
+}
+
 // ---------- API ----------
-app.post('/start-stream', authenticateToken, requirePermission('add_streams'), async (req, res) => {
-  const { streamUrl, streamName, resolution } = req.body || {};
+app.post('/start-stream', authenticateToken, requirePermission('add_streams'), validateBody('startStreamRequest'), async (req, res) => {
+  const { streamUrl, streamName, resolution, restartPolicy, abr, input, dvrMinutes, loudnessTarget } = req.body;
+  const profileName = req.body.profile || resolution || profiles.DEFAULT_PROFILE;
+  if (!profiles.get(profileName)) return res.status(400).json({ error: `Unknown transcoding profile '${profileName}'` });
   // sessionId ignored on start-stream
-  const username = req.user?.username || req.body?.username || null; // prefer authenticated user
-  if (!streamUrl) return res.status(400).send('streamUrl is required');
+  const username = req.user?.username || null;
   const streamId = crypto.createHash('md5').update(streamUrl).digest('hex');
 
-  if (username) {
-    if (!userStreamOwnership.has(username)) {
-      userStreamOwnership.set(username, new Set());
-    }
-    userStreamOwnership.get(username).add(streamId);
+  if (sendIfRecentlyStopped(res, streamId)) return;
+
+  // only a stream without a transcoder entry takes a new slot; rejected ones leave no state behind
+  if (!activeStreams.has(streamId)) {
+    const rejected = admitter.admit(streamId, req.user);
+    if (rejected) return sendAdmissionRejection(res, rejected);
   }
 
+  addStreamOwner(username, streamId);
+
   if (streamName) {
     streamNameMap.set(streamId, streamName);
   }
+  if (restartPolicy) setRestartPolicy(streamId, restartPolicy);
+  if (loudnessTarget) setLoudnessTarget(streamId, loudnessTarget);
+  if (input) setInputSelection(streamId, input);
+  if (dvrMinutes !== undefined) setDvrWindow(streamId, dvrMinutes);
+  else if (!registry.has(streamId)) setDvrWindow(streamId, DVR_DEFAULT_MINUTES);
   const existing = activeStreams.get(streamId);
-  const { hlsPath, hlsAbsUrl } = makeHlsUrls(streamId);
+  const running = Boolean(existing && existing.proc && !existing.proc.killed);
 
-  if (existing && existing.proc && !existing.proc.killed) {
-    return res.json({ hlsUrl: hlsPath, hlsAbsUrl });
+  // A running ladder also serves single-rendition requests (hls.js picks a level from the master
+  // playlist); a running single rendition is restarted as a ladder when ABR is asked for.
+  if (running && (!abr || abrStreams.has(streamId))) {
+    registry.update(streamId, { owners: streamOwnersOf(streamId) });
+    const { hlsPath, hlsAbsUrl } = makeHlsUrls(streamId);
+    return res.json({ streamId, hlsUrl: hlsPath, hlsAbsUrl, abr: abrStreams.has(streamId), faultDetection: detectors.FAULT_DETECTION, source: sourceInfo(streamUrl) });
   }
 
   try {
-    let actualStreamUrl = streamUrl;
-    if (streamUrl.startsWith('http')) {
-      // youtube-dl-exec may return a string with newline; normalize/trim it.
-      const resolved = await youtubedl(streamUrl, { 'get-url': true, format: 'best' }).catch(() => streamUrl);
-      actualStreamUrl = String(resolved || streamUrl).trim();
-      streamUrlMap.set(streamId, actualStreamUrl);
-    }
-  startFfmpeg(actualStreamUrl, streamId, resolution, false);
+    streamUrlMap.set(streamId, streamUrl);
+    const actualStreamUrl = await resolveInputUrl(streamUrl);
+    if (abr && !abrStreams.has(streamId)) abrStreams.set(streamId, { hasAudio: await abrHasAudio(streamId, actualStreamUrl) });
+    startFfmpeg(actualStreamUrl, streamId, profileName, running);
+    admitter.done(streamId);
+    const { hlsPath, hlsAbsUrl } = makeHlsUrls(streamId);
+
+    const prev = registry.get(streamId);
+    registry.put({
+      streamId,
+      streamUrl,
+      streamName: streamName || (prev && prev.streamName) || null,
+      profile: profileName,
+      abr: abrStreams.has(streamId),
+      input: inputSelectionMap.get(streamId) || null,
+      dvrMinutes: dvrWindowMap.get(streamId) || 0,
+      restartPolicy: restartPolicy || (prev && prev.restartPolicy) || null,
+      loudnessTarget: loudnessTarget || (prev && prev.loudnessTarget) || null,
+      owner: (prev && prev.owner) || username,
+      owners: streamOwnersOf(streamId),
+    });
 
     // Persist to user's saved streams if a username was provided.
     // This ensures the frontend can reload saved streams after a refresh.
@@ -686,7 +1867,7 @@ app.post('/start-stream', authenticateToken, requirePermission('add_streams'), a
         // Avoid duplicates by streamUrl
         const exists = userStreams.find(s => s.streamUrl === streamUrl || s.streamId === streamId);
         if (!exists) {
-          userStreams.push({ streamId, streamUrl: streamUrl, streamName: streamName || null, resolution: resolution || null, addedAt: Date.now() });
+          userStreams.push({ streamId, streamUrl: streamUrl, streamName: streamName || null, profile: profileName, abr: Boolean(abr), input: input || null, dvrMinutes: dvrWindowMap.get(streamId) || 0, addedAt: Date.now() });
           fs.writeFileSync(userFile, JSON.stringify(userStreams, null, 2), 'utf8');
         }
       }
@@ -694,10 +1875,11 @@ app.post('/start-stream', authenticateToken, requirePermission('add_streams'), a
       console.error('Failed to persist user stream:', e);
     }
 
-    res.json({ hlsUrl: hlsPath, hlsAbsUrl });
+    res.json({ streamId, hlsUrl: hlsPath, hlsAbsUrl, abr: abrStreams.has(streamId), faultDetection: detectors.FAULT_DETECTION, source: sourceInfo(streamUrl) });
   } catch (error) {
+    admitter.done(streamId);
     console.error('Failed to start stream', error);
-    res.status(500).send('Failed to start stream');
+    res.status(500).json({ error: 'Failed to start stream' });
   }
 });
 
@@ -716,44 +1898,87 @@ setInterval(() => {
   const startTime = Date.now();
   streamIssueState.set(streamId, { startTime });
   writeIssueLog(streamId, `Signal Loss Start: ${formatServerTime(startTime)}`);
+  metrics.signalLossStarted(streamLabels(streamId));
       }
 
       const { hlsPath, hlsAbsUrl } = makeHlsUrls(streamId);
       broadcastEvent({ type: 'bitrate', streamId, sourceUrl: url || null, hlsUrl: hlsPath, hlsAbsUrl, bitrate: 0 });
-      const info = activeStreams.get(streamId);
-      if (info && info.proc && !info.proc.killed) {
-        console.log(`Bitrate stale for ${streamId}; manual restart required (no automatic restart).`);
-        // Do not schedule automatic restart; operator should call /restart-stream if needed.
-      }
       // do not call maybeCleanupIfIdle here; keeping process alive helps immediate restarts
     }
+
+    // Checked on every sweep (not only on the transition above) so a restart that never produced
+    // data is retried; give each fresh process the stale threshold to deliver its first sample.
+    const info = activeStreams.get(streamId);
+    if (info && !info.backoffTimer && getRestartPolicy(streamId).mode !== 'off'
+      && now - (info.startedAt || 0) > STALE_THRESHOLD_MS
+      && (last === 0 || now - last > STALE_THRESHOLD_MS)) {
+      scheduleRestart(streamId, 'signal loss');
+    }
   }
 }, 5000);
 
-app.post('/stop-stream', authenticateToken, requirePermission('delete_streams'), (req, res) => {
-  const { streamId, streamUrl } = req.body || {};
+app.post('/stop-stream', authenticateToken, requirePermission('delete_streams'), validateBody('stopStreamRequest'), (req, res) => {
+  const { streamId, streamUrl } = req.body;
   // sessionId ignored on stop-stream/restart-stream
-  if (!streamId && !streamUrl) return res.status(400).json({ error: 'streamId or streamUrl required' });
   const id = streamId || crypto.createHash('md5').update(streamUrl).digest('hex');
-  if (!activeStreams.has(id) && !streamUrlMap.has(id)) return res.status(404).json({ error: 'stream not found' });
-  // remove ownership for this session if provided
-  // sessionId parameter ignored (ownership removed)
+  if (!activeStreams.has(id) && !streamUrlMap.has(id) && !registry.has(id)) return res.status(404).json({ error: 'stream not found' });
+  // The transcoder is shared by everyone with the same URL on their wall: it keeps running while
+  // another user still has it there. RTMP viewer counts don't see browser HLS playback, so only
+  // the owners decide.
+  const owners = releaseStreamOwner(id, req.user?.username || null);
+  if (owners.length) {
+    return res.json({ ok: true, stopped: false, message: `Stream ${id} is still used by ${owners.length} other user(s); transcoder kept running` });
+  }
+
+  registry.remove(id);
   cleanupStream(id);
-  return res.json({ ok: true, message: `Transcoding stopped for stream ${id}` });
+  return res.json({ ok: true, stopped: true, message: `Transcoding stopped for stream ${id}` });
+});
+
+app.post('/restart-policy', authenticateToken, requirePermission('add_streams'), validateBody('restartPolicyRequest'), (req, res) => {
+  const { streamId, streamUrl, restartPolicy } = req.body;
+  const id = streamId || crypto.createHash('md5').update(streamUrl).digest('hex');
+  const policy = setRestartPolicy(id, restartPolicy);
+  registry.update(id, { restartPolicy });
+  return res.json({ ok: true, streamId: id, restartPolicy: policy });
+});
+
+app.post('/loudness-target', authenticateToken, requirePermission('add_streams'), validateBody('loudnessTargetRequest'), (req, res) => {
+  const { streamId, streamUrl, loudnessTarget } = req.body;
+  const id = streamId || crypto.createHash('md5').update(streamUrl).digest('hex');
+  const target = setLoudnessTarget(id, loudnessTarget);
+  registry.update(id, { loudnessTarget });
+  return res.json({ ok: true, streamId: id, loudnessTarget: target });
 });
 
 // Restart stream: kill existing ffmpeg process for the given streamId (or streamUrl -> id) and start a new one reusing the same id
-app.post('/restart-stream', authenticateToken, requirePermission('add_streams'), async (req, res) => {
-  const { streamId, streamUrl, streamName, resolution } = req.body || {};
-  if (!streamId && !streamUrl) return res.status(400).json({ error: 'streamId or streamUrl required' });
+app.post('/restart-stream', authenticateToken, requirePermission('add_streams'), validateBody('restartStreamRequest'), async (req, res) => {
+  const { streamId, streamUrl, streamName, resolution, abr, input, dvrMinutes } = req.body;
   const id = streamId || crypto.createHash('md5').update(streamUrl).digest('hex');
+  const profileName = req.body.profile || resolution;
+  if (profileName && !profiles.get(profileName)) return res.status(400).json({ error: `Unknown transcoding profile '${profileName}'` });
   if (streamName) {
     streamNameMap.set(id, streamName);
   }
-  const actualUrl = streamUrl || streamUrlMap.get(id);
-  if (!actualUrl) return res.status(404).json({ error: 'streamUrl not found for provided id' });
+  const inputUrl = streamUrl || streamUrlMap.get(id);
+  if (!inputUrl) return res.status(404).json({ error: 'streamUrl not found for provided id' });
+  if (sendIfRecentlyStopped(res, id)) return;
+  if (!activeStreams.has(id)) {
+    const rejected = admitter.admit(id, req.user);
+    if (rejected) return sendAdmissionRejection(res, rejected);
+  }
 
   try {
+    streamUrlMap.set(id, inputUrl);
+    // page URLs come from the resolver cache, which renews signed URLs before they expire
+    const actualUrl = await resolveInputUrl(inputUrl);
+    // input (null clears it), abr and dvrMinutes (0 turns DVR off) change the stream,
+    // leaving them out keeps the current ones
+    if (input !== undefined) setInputSelection(id, input);
+    if (dvrMinutes !== undefined) setDvrWindow(id, dvrMinutes);
+    if (abr === false) abrStreams.delete(id);
+    else if (abr) abrStreams.set(id, { hasAudio: await abrHasAudio(id, actualUrl) });
+
     // If there's an active ffmpeg process, kill it and wait for it to exit before starting a new one.
     const info = activeStreams.get(id);
     if (info && info.proc) {
@@ -773,9 +1998,6 @@ app.post('/restart-stream', authenticateToken, requirePermission('add_streams'),
     bitrateMap.set(id, 0);
     lastUpdateMap.set(id, 0);
 
-    // Allow restart even if this stream was recently marked deleted
-    try { deletedStreams.delete(id); } catch (_) {}
-
     // clear attempts/backoff so manual restart isn't followed by a scheduled retry
     try {
       const inf = activeStreams.get(id);
@@ -786,34 +2008,44 @@ app.post('/restart-stream', authenticateToken, requirePermission('add_streams'),
     } catch (_) {}
 
     // start ffmpeg again with the same id, forcing a fresh process
-  startFfmpeg(actualUrl, id, resolution, true);
+    metrics.restarted(streamLabels(id), 'manual');
+  startFfmpeg(actualUrl, id, profileName || (info && info.profile), true);
+    admitter.done(id);
     const { hlsPath, hlsAbsUrl } = makeHlsUrls(id);
-    return res.json({ ok: true, streamId: id, hlsUrl: hlsPath, hlsAbsUrl });
+    registry.put({
+      streamId: id,
+      streamUrl: inputUrl,
+      ...(streamName ? { streamName } : {}),
+      ...(profileName ? { profile: profileName } : {}),
+      abr: abrStreams.has(id),
+      input: inputSelectionMap.get(id) || null,
+      dvrMinutes: dvrWindowMap.get(id) || 0,
+    });
+    return res.json({ ok: true, streamId: id, hlsUrl: hlsPath, hlsAbsUrl, abr: abrStreams.has(id) });
   } catch (err) {
+    admitter.done(id);
     console.error('Failed to restart stream', err);
     return res.status(500).json({ error: String(err) });
   }
 });
 
-app.post('/calculate-bitrate', authenticateToken, (req, res) => {
-  const { streamUrl, streamId } = req.body || {};
-  if (!streamId && !streamUrl) return res.status(400).json({ error: 'streamId or streamUrl required' });
+app.post('/calculate-bitrate', authenticateToken, validateBody('calculateBitrateRequest'), (req, res) => {
+  const { streamUrl, streamId } = req.body;
   const id = streamId || crypto.createHash('md5').update(streamUrl).digest('hex');
   const bitrate = bitrateMap.get(id) ?? null;
   const history = bitrateHistoryMap.get(id) ?? [];
   const { hlsAbsUrl } = makeHlsUrls(id);
-  return res.json({ bitrate, history, hlsAbsUrl });
+  return res.json({ bitrate, history, input: inputHistoryMap.get(id) ?? [], hlsAbsUrl });
 });
 
 // Diagnostic probe: run ffprobe on a source URL and return parsed JSON (fast, short timeout)
 // Admin only - can be used for SSRF if not restricted
-app.post('/probe', authenticateToken, (req, res) => {
+app.post('/probe', authenticateToken, validateBody('probeRequest'), (req, res) => {
   // Only admin can use probe to prevent SSRF attacks
   if (req.user.role !== 'admin') {
     return res.status(403).json({ error: 'Admin access required for probe endpoint' });
   }
-  const { streamUrl } = req.body || {};
-  if (!streamUrl) return res.status(400).json({ error: 'streamUrl required' });
+  const { streamUrl } = req.body;
   
   // Validate URL to prevent SSRF to internal services
   try {
@@ -827,30 +2059,36 @@ app.post('/probe', authenticateToken, (req, res) => {
   }
   
   try {
-    const { spawn } = require('child_process');
-    const args = ['-v', 'error', '-show_format', '-show_streams', '-print_format', 'json', streamUrl];
-    const p = spawn(path.join(__dirname, 'ffprobe.exe'), args, { timeout: 9000 });
+    // programs list the services of an MPTS; UDP/SRT need the longer analysis window from inputArgs
+    const probeUrl = streamUrl.startsWith('srt://') ? ffmpegSrtUrl(streamUrl) : streamUrl;
+    const args = ['-v', 'error', ...inputArgs(streamUrl), '-show_format', '-show_programs', '-show_streams', '-print_format', 'json', probeUrl];
+    const p = spawn(ffprobePath, args, { timeout: 15000 });
     let out = '';
     let err = '';
+    // 'close' also follows a spawn 'error'; answer once
+    const reply = (status, body) => { if (!res.headersSent) res.status(status).json(body); };
     p.stdout.on('data', d => out += String(d));
     p.stderr.on('data', d => err += String(d));
     p.on('close', (code) => {
       if (out) {
-        try { return res.json({ ok: true, data: JSON.parse(out) }); } catch (e) { return res.json({ ok: false, error: 'ffprobe returned non-json', raw: out, stderr: err }); }
+        try {
+          const data = JSON.parse(out);
+          return reply(200, { ok: true, programs: summarizeProbe(data), data });
+        } catch (e) { return reply(200, { ok: false, error: 'ffprobe returned non-json', raw: out, stderr: err }); }
       }
-      return res.status(500).json({ ok: false, code, stderr: err });
+      return reply(500, { ok: false, code, stderr: err });
     });
-    p.on('error', (e) => res.status(500).json({ ok: false, error: String(e) }));
+    p.on('error', (e) => reply(500, { ok: false, error: String(e) }));
   } catch (e) { return res.status(500).json({ ok: false, error: String(e) }); }
 });
 
-app.post('/bitrate-history', authenticateToken, (req, res) => {
-  const { streamUrl, streamId, maxSamples = 300 } = req.body || {};
-  if (!streamId && !streamUrl) return res.status(400).json({ error: 'streamId or streamUrl required' });
+app.post('/bitrate-history', authenticateToken, validateBody('bitrateHistoryRequest'), (req, res) => {
+  const { streamUrl, streamId, maxSamples } = req.body;
   const id = streamId || crypto.createHash('md5').update(streamUrl).digest('hex');
   const history = bitrateHistoryMap.get(id) || [];
+  const input = (inputHistoryMap.get(id) || []).slice(-maxSamples);
   if (history.length > 0) {
-    return res.json({ history: history.slice(-maxSamples) });
+    return res.json({ history: history.slice(-maxSamples), input });
   }
 
   try {
@@ -863,12 +2101,12 @@ app.post('/bitrate-history', authenticateToken, (req, res) => {
         const sizes = last.map(x => fs.statSync(path.join(liveFolder, x.f)).size);
         const avgBytesPerSec = sizes.reduce((a, b) => a + b, 0) / (last.length * 2); // hls_time=2
         const mbps = Math.round((avgBytesPerSec * 8 / 1e6) * 100) / 100;
-        return res.json({ history: [{ time: Date.now(), bitrate: mbps, estimated: true }] });
+        return res.json({ history: [{ time: Date.now(), bitrate: mbps, estimated: true }], input });
       }
     }
   } catch (_) {}
 
-  return res.json({ history: [] });
+  return res.json({ history: [], input });
 });
 
 app.get('/logs/streams', authenticateToken, requirePermission('download_logs'), (req, res) => {
@@ -1024,19 +2262,36 @@ app.get('/api/logs/all-files', authenticateToken, requirePermission('download_lo
 
 const PORT = Number(process.env.API_PORT || 3001);
 const FRONTEND_PORT = 5173; // <-- new
-
-app.listen(PORT, '0.0.0.0', () => {
-  console.log(`API listening on http://${HOST_IP}:${PORT}`);
-  console.log(`HLS served from ${HLS_BASE}`);
-  console.log(`Frontend (Vite) expected on http://${HOST_IP}:${FRONTEND_PORT}`);
+let httpServer = null;
+
+contractReady.then(() => {
+  // before reconcileRegistry() spawns this run's transcoders
+  const reaped = orphans.reapOrphans(orphanMarkers());
+  if (reaped.length) _consoleLog(`Killed ${reaped.length} stale ffmpeg process(es) of a previous run: ${reaped.map((p) => p.pid).join(', ')}`);
+
+  httpServer = app.listen(PORT, '0.0.0.0', () => {
+    console.log(`API listening on http://${HOST_IP}:${PORT}`);
+    console.log(`HLS served from ${HLS_BASE}`);
+    console.log(`Auth mode: ${AUTH_MODE}`);
+    console.log(`Metrics auth: ${METRICS_AUTH}`);
+    console.log(`Fault detection: ${detectors.FAULT_DETECTION ? 'on' : 'off'}`);
+    console.log(`Ingress relay: ${ingress.INGRESS_RELAY ? 'on (unicast UDP / RTMP inputs pass through this process for input bitrate and TS health)' : 'off (ffmpeg reads unicast UDP / RTMP inputs, which are not measured)'}`);
+    _consoleLog(`Admission: ${ADMISSION.maxTranscodes > 0 ? `max ${ADMISSION.maxTranscodes} transcoders` : 'no transcoder limit (MAX_TRANSCODES)'}, ${ADMISSION.userMaxTranscodes > 0 ? `${ADMISSION.userMaxTranscodes} per user` : 'no per-user limit'}${ADMISSION.maxCpu > 0 ? `, queued above ${ADMISSION.maxCpu}% CPU` : ''}`);
+    console.log(`Thumbnails: ${thumbnails.THUMBNAIL_INTERVAL_SEC > 0 ? `every ${thumbnails.THUMBNAIL_INTERVAL_SEC}s` : 'off'}`);
+    console.log(`Recordings in ${recordings.RECORDINGS_DIR} (retention ${recordings.RETENTION_DAYS} days${recordings.MAX_BYTES ? `, max ${recordings.MAX_BYTES / 1024 ** 3} GB` : ''})`);
+    console.log(`Frontend (Vite) expected on http://${HOST_IP}:${FRONTEND_PORT}`);
+    reconcileRegistry().catch((e) => _consoleError('Stream registry reconcile failed', e));
+    monitors.resume();
+  });
+}, (err) => {
+  _consoleError('Failed to load shared/contract.js', err);
+  process.exit(1);
 });
 
 // keepalive
 setInterval(() => {}, 1 << 30);
 
 // ---------- Authentication Routes ----------
-const authRoutes = require('./auth').router;
-const { authenticateToken, requirePermission } = require('./auth');
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 app.use('/auth', authRoutes);
@@ -1086,27 +2341,40 @@ app.post('/api/streams', authenticateToken, (req, res) => {
   }
 });
 
-// New endpoint: return active streams (backend truth) so frontend can repopulate UI on load
+// Return active streams (backend truth) so frontend can repopulate UI on load:
+// desired (registry) vs actual (ffmpeg) state of every stream the server knows about
 app.get('/api/active-streams', authenticateToken, (req, res) => {
   try {
+    const ids = new Set([...activeStreams.keys(), ...streamUrlMap.keys(), ...registry.list().map((e) => e.streamId)]);
     const out = [];
-    for (const [streamId, info] of activeStreams.entries()) {
-      const sourceUrl = streamUrlMap.get(streamId) || (info && info.url) || null;
-      const name = streamNameMap.get(streamId) || null;
+    for (const streamId of ids) {
+      const info = activeStreams.get(streamId);
+      const desired = registry.get(streamId);
+      const sourceUrl = streamUrlMap.get(streamId) || (desired && desired.streamUrl) || (info && info.url) || null;
+      const name = streamNameMap.get(streamId) || (desired && desired.streamName) || null;
       const bitrate = bitrateMap.get(streamId) ?? null;
       const viewers = viewerCounts.get(streamId) || 0;
       const { hlsPath, hlsAbsUrl } = makeHlsUrls(streamId);
-      out.push({ streamId, sourceUrl, streamName: name, hlsUrl: hlsPath, hlsAbsUrl, bitrate, viewers });
-    }
-    // also include any tracked streams in streamUrlMap that don't have an activeStreams entry
-    for (const [streamId, url] of streamUrlMap.entries()) {
-      if (!activeStreams.has(streamId)) {
-        const name = streamNameMap.get(streamId) || null;
-        const bitrate = bitrateMap.get(streamId) ?? null;
-        const viewers = viewerCounts.get(streamId) || 0;
-        const { hlsPath, hlsAbsUrl } = makeHlsUrls(streamId);
-        out.push({ streamId, sourceUrl: url, streamName: name, hlsUrl: hlsPath, hlsAbsUrl, bitrate, viewers });
-      }
+      out.push({
+        streamId,
+        sourceUrl,
+        streamName: name,
+        hlsUrl: hlsPath,
+        hlsAbsUrl,
+        bitrate,
+        inputBitrate: inputBitrateMap.has(streamId) ? inputBitrateMap.get(streamId) : null,
+        viewers,
+        abr: abrStreams.has(streamId),
+        profile: (info && info.profile) || (desired && (desired.profile || desired.resolution)) || null,
+        input: inputSelectionMap.get(streamId) || null,
+        dvrMinutes: dvrWindowMap.get(streamId) || 0,
+        loudness: loudnessMap.get(streamId) || null,
+        loudnessTarget: getLoudnessTarget(streamId),
+        source: sourceInfo(sourceUrl),
+        desired: Boolean(desired),
+        actual: actualState(streamId),
+        owner: (desired && desired.owner) || null,
+      });
     }
     res.json(out);
   } catch (e) {
@@ -1115,6 +2383,222 @@ app.get('/api/active-streams', authenticateToken, (req, res) => {
   }
 });
 
+// ---------- Transcoding profiles ----------
+app.get('/api/profiles', authenticateToken, (req, res) => {
+  res.json(profiles.list());
+});
+
+// Create or replace a custom profile; streams using it pick the change up on their next (re)start
+app.post('/api/profiles', authenticateToken, requirePermission('manage_profiles'), validateBody('transcodeProfile'), (req, res) => {
+  if (profiles.isBuiltin(req.body.name)) return res.status(400).json({ error: `'${req.body.name}' is a built-in profile` });
+  try {
+    res.json(profiles.save(req.body));
+  } catch (e) {
+    console.error('Failed to save transcoding profile', e);
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+app.delete('/api/profiles/:name', authenticateToken, requirePermission('manage_profiles'), (req, res) => {
+  const { name } = req.params;
+  if (profiles.isBuiltin(name)) return res.status(400).json({ error: `'${name}' is a built-in profile` });
+  const inUse = registry.list().filter((e) => e.profile === name);
+  if (inUse.length) {
+    return res.status(409).json({ error: `Profile '${name}' is used by ${inUse.map((e) => e.streamName || e.streamId).join(', ')}` });
+  }
+  try {
+    if (!profiles.remove(name)) return res.status(404).json({ error: `Profile '${name}' not found` });
+    res.json({ ok: true });
+  } catch (e) {
+    console.error('Failed to delete transcoding profile', e);
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+// ---------- Health ----------
+const LOOP_DELAY_RESOLUTION_MS = 20;
+const loopDelay = monitorEventLoopDelay({ resolution: LOOP_DELAY_RESOLUTION_MS });
+loopDelay.enable();
+
+async function dirUsage(dir) {
+  let bytes = 0;
+  let files = 0;
+  const walk = async (d) => {
+    let entries;
+    try { entries = await fs.promises.readdir(d, { withFileTypes: true }); } catch (_) { return; }
+    for (const e of entries) {
+      const p = path.join(d, e.name);
+      if (e.isDirectory()) await walk(p);
+      else if (e.isFile()) {
+        try { bytes += (await fs.promises.stat(p)).size; files++; } catch (_) {}
+      }
+    }
+  };
+  await walk(dir);
+  return { path: dir, bytes, files };
+}
+
+// Free/total bytes of the volume holding dir (fs.statfs needs Node >= 18.15)
+async function volumeUsage(dir) {
+  if (typeof fs.promises.statfs !== 'function') return { free: null, total: null };
+  try {
+    const st = await fs.promises.statfs(dir);
+    return { free: st.bavail * st.bsize, total: st.blocks * st.bsize };
+  } catch (_) {
+    return { free: null, total: null };
+  }
+}
+
+// Host/process resources, so a black tile can be told apart from an overloaded transcoder box.
+// Event-loop lag is measured since the previous health call.
+app.get('/api/health', authenticateToken, requirePermission('view_health'), async (req, res) => {
+  try {
+    // every ffmpeg this server runs: transcoders and the helpers around them
+    const procs = orphans.listFfmpegs();
+    let usage = {};
+    try {
+      usage = await pidusage([process.pid, ...procs.map((p) => p.pid)]);
+    } catch (_) {
+      // a process may have exited between listing and sampling; report without usage
+    }
+
+    const [media, logs, volume] = await Promise.all([dirUsage(MEDIA_ROOT), dirUsage(logsDir), volumeUsage(__dirname)]);
+    const self = usage[process.pid] || null;
+    const mem = process.memoryUsage();
+
+    // histogram values are ns and include the sampling timer itself; mean is NaN before the first sample
+    const ms = (ns) => (Number.isFinite(ns) ? Number(Math.max(0, ns / 1e6 - LOOP_DELAY_RESOLUTION_MS).toFixed(2)) : 0);
+    const lag = { mean: ms(loopDelay.mean), p99: ms(loopDelay.percentile(99)), max: ms(loopDelay.max) };
+    loopDelay.reset();
+
+    res.json({
+      time: Date.now(),
+      uptimeSec: Math.round(process.uptime()),
+      host: {
+        hostname: os.hostname(),
+        platform: process.platform,
+        uptimeSec: Math.round(os.uptime()),
+        cpus: os.cpus().length,
+        loadavg: os.loadavg(),
+        totalMem: os.totalmem(),
+        freeMem: os.freemem(),
+      },
+      process: {
+        pid: process.pid,
+        cpu: self ? Number(self.cpu.toFixed(1)) : null,
+        rss: mem.rss,
+        heapUsed: mem.heapUsed,
+      },
+      eventLoopLagMs: lag,
+      sseClients: sseClients.size,
+      ffmpeg: procs.map(({ pid, role, streamId }) => {
+        const u = usage[pid];
+        return {
+          role,
+          streamId,
+          streamName: (streamId && streamNameMap.get(streamId)) || null,
+          sourceUrl: (streamId && sourceUrlOf(streamId)) || null,
+          pid,
+          cpu: u ? Number(u.cpu.toFixed(1)) : null,
+          rss: u ? u.memory : null,
+          uptimeSec: u ? Math.round(u.elapsed / 1000) : null,
+          // the stream's state, for its transcoder
+          actual: role === 'transcoder' ? actualState(streamId) : null,
+        };
+      }),
+      nms: nmsSessions.stats(),
+      disk: { media, logs, free: volume.free, total: volume.total },
+      admission: admitter.stats(),
+    });
+  } catch (e) {
+    console.error('Health check failed', e);
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+// ---------- Desired-state registry ----------
+// Pause between respawns on boot so a full wall doesn't start every ffmpeg at once
+const REGISTRY_SPAWN_GAP_MS = Number(process.env.REGISTRY_SPAWN_GAP_MS || 1000);
+
+function actualState(streamId) {
+  const info = activeStreams.get(streamId);
+  if (!info || !info.proc || info.proc.killed) return 'stopped';
+  const last = lastUpdateMap.get(streamId) || 0;
+  if (last && Date.now() - last <= STALE_THRESHOLD_MS) return 'running';
+  if (!last && Date.now() - (info.startedAt || 0) <= STALE_THRESHOLD_MS) return 'starting';
+  return 'stalled';
+}
+
+// Load the registry and respawn every desired stream that has no ffmpeg yet
+async function reconcileRegistry() {
+  const desired = registry.load();
+  if (desired.length) _consoleLog(`Stream registry: ${desired.length} desired stream(s), respawning`);
+
+  for (const entry of desired) {
+    const { streamId, streamUrl } = entry;
+    if (!streamUrl || (activeStreams.get(streamId) || {}).proc) continue;
+
+    streamUrlMap.set(streamId, streamUrl);
+    if (entry.streamName) streamNameMap.set(streamId, entry.streamName);
+    if (entry.restartPolicy) setRestartPolicy(streamId, entry.restartPolicy);
+    if (entry.loudnessTarget) setLoudnessTarget(streamId, entry.loudnessTarget);
+    (entry.owners || (entry.owner ? [entry.owner] : [])).forEach((owner) => addStreamOwner(owner, streamId));
+
+    try {
+      const actualUrl = await resolveInputUrl(streamUrl);
+      // stopped while we were resolving
+      if (!registry.has(streamId)) continue;
+      setInputSelection(streamId, entry.input);
+      setDvrWindow(streamId, entry.dvrMinutes || 0);
+      if (entry.abr) abrStreams.set(streamId, { hasAudio: await abrHasAudio(streamId, actualUrl) });
+      // entries written before profiles carry the equivalent built-in as resolution
+      startFfmpeg(actualUrl, streamId, entry.profile || entry.resolution, false);
+    } catch (e) {
+      console.error(`Failed to respawn ${streamId}`, e);
+    }
+    await new Promise((resolve) => setTimeout(resolve, REGISTRY_SPAWN_GAP_MS));
+  }
+}
+
+// ---------- Prometheus metrics ----------
+// The stream label is the display name only: source URLs can carry credentials
+function streamLabels(streamId) {
+  return { stream_id: streamId, stream: streamNameMap.get(streamId) || streamId };
+}
+
+function metricsSnapshot() {
+  const ids = new Set([...activeStreams.keys(), ...streamUrlMap.keys(), ...registry.list().map((e) => e.streamId)]);
+  const now = Date.now();
+  return Array.from(ids, (streamId) => {
+    const info = activeStreams.get(streamId);
+    const issue = streamIssueState.get(streamId);
+    return {
+      labels: streamLabels(streamId),
+      bitrate: bitrateMap.has(streamId) ? bitrateMap.get(streamId) : null,
+      inputBitrate: inputBitrateMap.has(streamId) ? inputBitrateMap.get(streamId) : null,
+      viewers: viewerCounts.get(streamId) || 0,
+      up: actualState(streamId) === 'running',
+      desired: registry.has(streamId),
+      signalLossSeconds: issue ? (now - issue.startTime) / 1000 : 0,
+      restartAttempts: info ? info.attempts || 0 : 0,
+      circuitOpen: Boolean(info && info.circuitOpenUntil > now),
+      progress: progressMap.get(streamId) || null,
+    };
+  });
+}
+
+const metrics = createMetrics(metricsSnapshot);
+
+app.get('/metrics', ...metricsAuth({ authenticateToken, requirePermission }), async (req, res) => {
+  try {
+    res.set('Content-Type', metrics.register.contentType);
+    res.end(await metrics.register.metrics());
+  } catch (e) {
+    console.error('Metrics collection failed', e);
+    res.status(500).type('text/plain').send(String(e));
+  }
+});
+
 // ---------- Kill Process Utility ----------
 function killProcessAndWait(streamId, timeoutMs = 5000) {
   return new Promise((resolve, reject) => {
@@ -1125,6 +2609,8 @@ function killProcessAndWait(streamId, timeoutMs = 5000) {
 
     const proc = info.proc;
     const pid = proc.pid;
+    // tells the close handler this exit was requested (no automatic restart)
+    info.stopping = true;
 
     const timeout = setTimeout(() => {
       console.error(`Timeout waiting for process ${pid} (stream ${streamId}) to exit. Forcing kill.`);
@@ -1162,3 +2648,61 @@ function killProcessAndWait(streamId, timeoutMs = 5000) {
   });
 }
 
+// ---------- Graceful shutdown ----------
+// SIGINT / SIGTERM (systemd stop, Ctrl+C): stop taking requests, tell SSE clients, end helper and
+// transcoder ffmpegs, log the stop per stream, remove media/live and exit. The registry is left
+// alone, so the same streams come back on the next start. SHUTDOWN_TIMEOUT_MS bounds the wait.
+const SHUTDOWN_TIMEOUT_MS = Number(process.env.SHUTDOWN_TIMEOUT_MS || 10_000);
+
+// The ffmpegs node-media-server spawns for its HLS tasks aren't in the pid file (see orphans.js):
+// they are the ones writing into this server's media folder
+function orphanMarkers() {
+  return [MEDIA_ROOT];
+}
+
+async function shutdown(signal) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  _consoleLog(`${signal} received, shutting down`);
+  setTimeout(() => {
+    _consoleError(`Shutdown took longer than ${SHUTDOWN_TIMEOUT_MS}ms, exiting anyway`);
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_MS).unref();
+
+  if (httpServer) httpServer.close();
+  broadcastEvent({ type: 'shutdown', reason: signal });
+  for (const res of sseClients.keys()) {
+    try { res.end(); } catch (_) {}
+  }
+  sseClients.clear();
+
+  recorder.stopAll();
+  faultDetector.stopAll();
+  restreamer.stopAll();
+  monitors.stopAll();
+
+  const ids = Array.from(activeStreams.keys());
+  for (const streamId of ids) {
+    const info = activeStreams.get(streamId);
+    if (info.backoffTimer) { clearTimeout(info.backoffTimer); info.backoffTimer = null; }
+    writeIssueLog(streamId, `Server Shutdown: ${formatServerTime(Date.now())} (${signal})`);
+  }
+  const [results] = await Promise.all([
+    Promise.allSettled(ids.map((streamId) => killProcessAndWait(streamId, 4000))),
+    stopAllDvrRecorders(),
+    thumbnailer.stopAll(),
+  ]);
+  const stuck = results.filter((r) => r.status === 'rejected').length;
+  _consoleLog(`Stopped ${ids.length - stuck}/${ids.length} transcoders`);
+
+  try {
+    fs.rmSync(path.join(MEDIA_ROOT, 'live'), { recursive: true, force: true });
+  } catch (e) { _consoleError('Failed to remove media/live', e); }
+  try { nms.stop(); } catch (_) {}
+
+  // the 'exit' hook saves the bitrate history
+  process.exit(0);
+}
+
+process.on('SIGINT', () => void shutdown('SIGINT'));
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
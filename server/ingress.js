@@ -0,0 +1,336 @@
+// server/ingress.js
+// Input bitrate: what the satellite receiver or encoder actually delivers, measured before the
+// transcoder. SRT is counted on the relay that reads it (index.js) and HLS inputs are sampled from
+// the source playlist: each new segment gives its size (EXT-X-BYTERANGE or Content-Length) over its
+// EXTINF duration. Multicast UDP is tapped: a second socket joins the group beside ffmpeg, which
+// still reads the source itself. Unicast UDP is received here and written to ffmpeg's stdin, and
+// RTMP inputs go through a counting TCP pass-through ffmpeg connects to.
+const dgram = require('dgram');
+const net = require('net');
+
+// Relayed unicast UDP / RTMP input passes through this process's event loop, which also serves
+// the API and SSE: a badly stalled loop delays RTMP and drops UDP datagrams once the socket
+// buffer fills. INGRESS_RELAY=off has ffmpeg read those sources itself, and they then have no
+// input bitrate (nor TS health for unicast UDP). Multicast taps are passive and stay on.
+const RELAY_ENABLED = String(process.env.INGRESS_RELAY || 'on').toLowerCase() !== 'off';
+const SAMPLE_MS = Number(process.env.INPUT_SAMPLE_SEC || 2) * 1000;
+// Bytes queued for ffmpeg's stdin before UDP datagrams are dropped (fifo_size in the URL overrides)
+const UDP_QUEUE_BYTES = 8 * 1024 * 1024;
+const HLS_FETCH_TIMEOUT_MS = 10_000;
+
+const isHlsUrl = (url) => {
+  if (!/^https?:\/\//i.test(url)) return false;
+  try {
+    return new URL(url).pathname.toLowerCase().includes('.m3u8');
+  } catch (_) {
+    return false;
+  }
+};
+
+const isMulticast = (host) => {
+  const first = Number(String(host).split('.')[0]);
+  return net.isIPv4(host) && first >= 224 && first <= 239;
+};
+
+// udp://[@][host]:port?localaddr=&buffer_size=&fifo_size=&sources= the way ffmpeg reads them
+function parseUdpUrl(udpUrl) {
+  const u = new URL(udpUrl.replace(/^udp:\/\/@/i, 'udp://'));
+  const q = u.searchParams;
+  const fifo = Number(q.get('fifo_size'));
+  return {
+    host: u.hostname,
+    port: Number(u.port),
+    localAddr: q.get('localaddr') || undefined,
+    bufferSize: Number(q.get('buffer_size')) || null,
+    sources: (q.get('sources') || '').split(',').map((s) => s.trim()).filter(Boolean),
+    // ffmpeg's fifo_size is in 188-byte packets
+    queueBytes: fifo > 0 ? fifo * 188 : UDP_QUEUE_BYTES,
+  };
+}
+
+const isMulticastUdp = (url) => {
+  if (!/^udp:\/\//i.test(url)) return false;
+  try {
+    return isMulticast(parseUdpUrl(url).host);
+  } catch (_) {
+    return false;
+  }
+};
+
+// Source playlist -> { segments: [{ uri, bytes, duration }], targetDuration } or { variants: [uri] }
+function parsePlaylist(text, baseUrl) {
+  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  const variants = [];
+  const segments = [];
+  let targetDuration = 6;
+  let duration = null;
+  let bandwidth = null;
+  let byteRange = null;
+  for (const line of lines) {
+    if (line.startsWith('#EXT-X-STREAM-INF')) {
+      const m = /BANDWIDTH=(\d+)/.exec(line);
+      bandwidth = m ? Number(m[1]) : 0;
+    } else if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+      targetDuration = Number(line.split(':')[1]) || targetDuration;
+    } else if (line.startsWith('#EXTINF:')) {
+      duration = parseFloat(line.slice(8));
+    } else if (line.startsWith('#EXT-X-BYTERANGE:')) {
+      byteRange = parseInt(line.slice(17), 10);
+    } else if (!line.startsWith('#')) {
+      const uri = new URL(line, baseUrl).toString();
+      if (bandwidth !== null) variants.push({ uri, bandwidth });
+      else if (duration > 0) segments.push({ uri, bytes: Number.isFinite(byteRange) ? byteRange : null, duration });
+      bandwidth = null;
+      duration = null;
+      byteRange = null;
+    }
+  }
+  // ffmpeg picks the best video, which is normally the highest-bandwidth variant
+  if (variants.length) return { variants: variants.sort((a, b) => b.bandwidth - a.bandwidth).map((v) => v.uri) };
+  return { segments, targetDuration };
+}
+
+const fetchWithTimeout = (url, options = {}) => fetch(url, { ...options, signal: AbortSignal.timeout(HLS_FETCH_TIMEOUT_MS) });
+
+// onSample(streamId, mbps) gets every input bitrate sample; onData(streamId, chunk) the MPEG-TS
+// bytes of UDP inputs as they arrive; onPlaylist(streamId, text, first) every media
+// playlist an HLS input poll fetched (first = the stream's first one)
+function createIngressMeter({ onSample, onData = () => {}, onPlaylist = () => {} }) {
+  const counters = new Map(); // streamId -> { bytes, since }
+
+  const counterFor = (streamId) => {
+    let c = counters.get(streamId);
+    if (!c) {
+      c = { bytes: 0, since: Date.now() };
+      counters.set(streamId, c);
+    }
+    return c;
+  };
+  const count = (streamId, bytes) => { counterFor(streamId).bytes += bytes; };
+  // only the counter a relay created: a restart may already have replaced it
+  const release = (streamId, c) => { if (counters.get(streamId) === c) counters.delete(streamId); };
+
+  const report = (streamId, mbps) => {
+    try { onSample(streamId, Math.round(mbps * 100) / 100); } catch (e) { console.error('Input bitrate handler failed', e); }
+  };
+
+  // Relayed and tapped inputs report what arrived since the previous sample, 0 included (the source is silent)
+  setInterval(() => {
+    const now = Date.now();
+    for (const [streamId, c] of counters.entries()) {
+      const sec = (now - c.since) / 1000;
+      if (sec <= 0) continue;
+      report(streamId, (c.bytes * 8) / sec / 1e6);
+      c.bytes = 0;
+      c.since = now;
+    }
+  }, SAMPLE_MS).unref();
+
+  // A socket receiving udpUrl's datagrams the way ffmpeg would (group membership, buffer size)
+  function udpSocket(streamId, opts, onMessage) {
+    const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+    socket.on('error', (err) => console.error(`UDP input error for ${streamId}:`, err));
+    socket.on('message', onMessage);
+    const multicast = isMulticast(opts.host);
+    const bindAddress = multicast || !opts.host || opts.host === '0.0.0.0' ? undefined : opts.host;
+    socket.bind({ port: opts.port, address: bindAddress }, () => {
+      try {
+        if (opts.bufferSize) socket.setRecvBufferSize(opts.bufferSize);
+        if (multicast && opts.sources.length) opts.sources.forEach((src) => socket.addSourceSpecificMembership(src, opts.host, opts.localAddr));
+        else if (multicast) socket.addMembership(opts.host, opts.localAddr);
+      } catch (e) {
+        console.error(`Failed to join ${opts.host} for ${streamId}:`, e);
+      }
+    });
+    return socket;
+  }
+
+  // Every member of a multicast group gets its own copy of each datagram: ffmpeg keeps reading
+  // the group (its multicast sockets reuse the address too) and this one only counts and analyses
+  function udpTap(streamId, udpUrl) {
+    const counter = counterFor(streamId);
+    const socket = udpSocket(streamId, parseUdpUrl(udpUrl), (msg) => {
+      counter.bytes += msg.length;
+      onData(streamId, msg);
+    });
+    return {
+      inputArgs: null,
+      attach() {},
+      close() {
+        try { socket.close(); } catch (_) {}
+        release(streamId, counter);
+      },
+    };
+  }
+
+  // A unicast datagram reaches one socket only, so unicast inputs are relayed to ffmpeg's stdin
+  function udpRelay(streamId, udpUrl) {
+    const opts = parseUdpUrl(udpUrl);
+    const counter = counterFor(streamId);
+    let sink = null;
+    const socket = udpSocket(streamId, opts, (msg) => {
+      counter.bytes += msg.length;
+      onData(streamId, msg);
+      // a stalled ffmpeg drops datagrams instead of growing the queue (overrun_nonfatal)
+      if (sink && sink.writableLength < opts.queueBytes) sink.write(msg);
+    });
+    return {
+      inputArgs: ['-f', 'mpegts', '-i', 'pipe:0'],
+      attach(ffmpeg) {
+        sink = ffmpeg.stdin;
+        // ffmpeg exiting first closes the pipe under the socket
+        sink.on('error', () => {});
+      },
+      close() {
+        try { socket.close(); } catch (_) {}
+        release(streamId, counter);
+      },
+    };
+  }
+
+  // Listening is asynchronous while transcoders start synchronously: one listener is kept bound
+  // ahead of time, and taking it binds the next
+  let spareListener = null;
+  const bindSpareListener = () => {
+    const server = net.createServer();
+    server.on('error', (err) => console.error('RTMP input proxy listener failed', err));
+    server.once('listening', () => { spareListener = server; });
+    server.listen(0, '127.0.0.1');
+    server.unref();
+  };
+  if (RELAY_ENABLED) bindSpareListener();
+
+  // ffmpeg connects to 127.0.0.1:<port>; tcUrl keeps the origin's host for servers that check it
+  function rtmpProxy(streamId, rtmpUrl) {
+    const server = spareListener;
+    if (!server) return null;
+    spareListener = null;
+    bindSpareListener();
+    const target = new URL(rtmpUrl);
+    const counter = counterFor(streamId);
+    const sockets = new Set();
+    server.on('connection', (client) => {
+      const upstream = net.connect(Number(target.port) || 1935, target.hostname);
+      sockets.add(client);
+      sockets.add(upstream);
+      upstream.on('data', (chunk) => { counter.bytes += chunk.length; });
+      client.pipe(upstream);
+      upstream.pipe(client);
+      const end = () => {
+        client.destroy();
+        upstream.destroy();
+        sockets.delete(client);
+        sockets.delete(upstream);
+      };
+      client.on('error', end);
+      upstream.on('error', end);
+      client.on('close', end);
+      upstream.on('close', end);
+    });
+    const local = new URL(rtmpUrl);
+    local.hostname = '127.0.0.1';
+    local.port = String(server.address().port);
+    const tcUrl = `${target.protocol}//${target.host}${target.pathname.replace(/\/[^/]*$/, '')}`;
+    return {
+      inputArgs: ['-rtmp_tcurl', tcUrl, '-i', local.toString()],
+      attach() {},
+      close() {
+        server.close();
+        sockets.forEach((s) => s.destroy());
+        release(streamId, counter);
+      },
+    };
+  }
+
+  // Polls the source playlist every target duration; the first poll only measures its newest segment
+  function hlsWatcher(streamId, playlistUrl) {
+    const seen = new Set();
+    let mediaUrl = null;
+    let timer = null;
+    let closed = false;
+    let polled = false;
+
+    const segmentBytes = async (seg) => {
+      if (seg.bytes !== null) return seg.bytes;
+      const res = await fetchWithTimeout(seg.uri, { method: 'HEAD' });
+      const length = Number(res.headers.get('content-length'));
+      return res.ok && length > 0 ? length : null;
+    };
+
+    async function poll() {
+      let wait = 6;
+      try {
+        const res = await fetchWithTimeout(mediaUrl || playlistUrl);
+        if (!res.ok) throw new Error(`playlist answered ${res.status}`);
+        const text = await res.text();
+        const parsed = parsePlaylist(text, res.url || mediaUrl || playlistUrl);
+        if (parsed.variants) {
+          mediaUrl = parsed.variants[0];
+          wait = 0;
+        } else {
+          wait = parsed.targetDuration;
+          try { onPlaylist(streamId, text, !polled); } catch (e) { console.error('Input playlist handler failed', e); }
+          polled = true;
+          const fresh = parsed.segments.filter((s) => !seen.has(s.uri));
+          const measure = seen.size === 0 ? fresh.slice(-1) : fresh;
+          fresh.forEach((s) => seen.add(s.uri));
+          for (const seg of measure) {
+            const bytes = await segmentBytes(seg);
+            if (closed) return;
+            if (bytes !== null) report(streamId, (bytes * 8) / seg.duration / 1e6);
+          }
+          // live playlists slide; remember only what is still listed
+          if (seen.size > 1000) {
+            const listed = new Set(parsed.segments.map((s) => s.uri));
+            seen.forEach((uri) => { if (!listed.has(uri)) seen.delete(uri); });
+          }
+        }
+      } catch (e) {
+        console.error(`Input bitrate poll failed for ${streamId}:`, e.message || e);
+      }
+      if (!closed) timer = setTimeout(() => { void poll(); }, wait * 1000);
+    }
+
+    void poll();
+    return {
+      inputArgs: null,
+      attach() {},
+      close() {
+        closed = true;
+        clearTimeout(timer);
+      },
+    };
+  }
+
+  return {
+    // The measurement for a transcoder input, or null when this input isn't measured. inputArgs
+    // (null = ffmpeg opens the URL itself) replace ffmpeg's -i; attach(ffmpeg) wires the relay to
+    // the spawned process, and the meter is closed with it. Directly monitored HLS sources have no
+    // process to attach: their meter runs until closed.
+    open(streamId, inputUrl) {
+      let meter = null;
+      try {
+        if (isHlsUrl(inputUrl)) meter = hlsWatcher(streamId, inputUrl);
+        else if (isMulticastUdp(inputUrl)) meter = udpTap(streamId, inputUrl);
+        else if (RELAY_ENABLED && /^udp:\/\//i.test(inputUrl)) meter = udpRelay(streamId, inputUrl);
+        else if (RELAY_ENABLED && /^rtmp:\/\//i.test(inputUrl)) meter = rtmpProxy(streamId, inputUrl);
+      } catch (e) {
+        console.error(`Input bitrate measurement unavailable for ${streamId}:`, e);
+      }
+      if (!meter) return null;
+      return {
+        inputArgs: meter.inputArgs,
+        attach(ffmpeg) {
+          meter.attach(ffmpeg);
+          ffmpeg.on('close', () => meter.close());
+        },
+        close: () => meter.close(),
+      };
+    },
+    // bytes read from a relay this module doesn't own (SRT)
+    count,
+    forget: (streamId) => counters.delete(streamId),
+  };
+}
+
+module.exports = { createIngressMeter, isHlsUrl, isMulticastUdp, INGRESS_RELAY: RELAY_ENABLED };
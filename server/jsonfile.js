@@ -0,0 +1,13 @@
+// server/jsonfile.js
+// JSON state files (transcoding profiles, restream outputs, recording schedules, the registry
+// snapshot) are replaced atomically: written next to the target and renamed over it, so a crash
+// mid-write leaves the previous version instead of a truncated file.
+const fs = require('fs');
+
+function writeJsonAtomic(file, data) {
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(data, null, 2), 'utf8');
+  fs.renameSync(tmp, file);
+}
+
+module.exports = { writeJsonAtomic };
@@ -0,0 +1,115 @@
+// server/metrics.js
+// Prometheus exporter. Per-stream gauges are filled at scrape time from a snapshot of the
+// transcoder state supplied by index.js; counters are bumped by index.js as things happen.
+// Every per-stream series carries stream_id (md5 of the URL) and stream (display name).
+const crypto = require('crypto');
+const client = require('prom-client');
+
+// METRICS_AUTH: 'none' | 'bearer' (METRICS_TOKEN) | 'basic' (METRICS_USER / METRICS_PASSWORD)
+// | 'user' (regular API token with the view_metrics permission). Defaults to bearer/basic when
+// their credentials are set, otherwise 'user'.
+const METRICS_AUTH = process.env.METRICS_AUTH
+  || (process.env.METRICS_TOKEN ? 'bearer' : process.env.METRICS_USER ? 'basic' : 'user');
+
+const STREAM_LABELS = ['stream_id', 'stream'];
+
+const safeEqual = (a, b) => {
+  const ba = Buffer.from(String(a));
+  const bb = Buffer.from(String(b));
+  return ba.length === bb.length && crypto.timingSafeEqual(ba, bb);
+};
+
+function createMetrics(snapshot) {
+  const register = new client.Registry();
+  client.collectDefaultMetrics({ register, prefix: 'streamapp_' });
+
+  // Gauge whose series are rebuilt from the snapshot on every scrape
+  const streamGauge = (name, help, pick) => new client.Gauge({
+    name,
+    help,
+    labelNames: STREAM_LABELS,
+    registers: [register],
+    collect() {
+      this.reset();
+      for (const s of snapshot()) {
+        const v = pick(s);
+        if (typeof v === 'number' && Number.isFinite(v)) this.set(s.labels, v);
+      }
+    },
+  });
+
+  streamGauge('streamapp_stream_bitrate_mbps', 'Latest output bitrate in Mbps (0 while the signal is lost)', (s) => s.bitrate);
+  streamGauge('streamapp_stream_input_bitrate_mbps', 'Latest input (source) bitrate in Mbps, where the input is measured', (s) => s.inputBitrate);
+  streamGauge('streamapp_stream_viewers', 'RTMP/FLV players attached to the stream', (s) => s.viewers);
+  streamGauge('streamapp_stream_up', '1 while ffmpeg is running and delivering data', (s) => (s.up ? 1 : 0));
+  streamGauge('streamapp_stream_desired', '1 if the stream is in the durable registry', (s) => (s.desired ? 1 : 0));
+  streamGauge('streamapp_stream_signal_loss', '1 while a signal loss is open', (s) => (s.signalLossSeconds > 0 ? 1 : 0));
+  streamGauge('streamapp_stream_signal_loss_current_seconds', 'Duration of the open signal loss, 0 when none', (s) => s.signalLossSeconds);
+  streamGauge('streamapp_stream_restart_attempts', 'Automatic restart attempts since the stream last stabilised', (s) => s.restartAttempts);
+  streamGauge('streamapp_stream_circuit_open', '1 while automatic restarts are paused by the circuit breaker', (s) => (s.circuitOpen ? 1 : 0));
+
+  // ffmpeg -progress fields
+  streamGauge('streamapp_ffmpeg_frame', 'Frames encoded by the current ffmpeg process', (s) => s.progress && s.progress.frame);
+  streamGauge('streamapp_ffmpeg_fps', 'Encoding frame rate', (s) => s.progress && s.progress.fps);
+  streamGauge('streamapp_ffmpeg_speed', 'Encoding speed relative to real time', (s) => s.progress && s.progress.speed);
+  streamGauge('streamapp_ffmpeg_realtime_speed', 'Encoding speed over the last few seconds', (s) => s.progress && s.progress.realtimeSpeed);
+  streamGauge('streamapp_ffmpeg_drop_frames', 'Frames dropped by the current ffmpeg process', (s) => s.progress && s.progress.dropFrames);
+  streamGauge('streamapp_ffmpeg_dup_frames', 'Frames duplicated by the current ffmpeg process', (s) => s.progress && s.progress.dupFrames);
+  streamGauge('streamapp_ffmpeg_out_time_seconds', 'Output timestamp reached by the current ffmpeg process', (s) => s.progress && s.progress.outTimeSec);
+  streamGauge('streamapp_ffmpeg_total_size_bytes', 'Bytes written by the current ffmpeg process', (s) => s.progress && s.progress.totalSize);
+
+  const signalLossSeconds = new client.Counter({
+    name: 'streamapp_stream_signal_loss_seconds_total',
+    help: 'Seconds of signal loss, added when each loss ends',
+    labelNames: STREAM_LABELS,
+    registers: [register],
+  });
+  const signalLosses = new client.Counter({
+    name: 'streamapp_stream_signal_losses_total',
+    help: 'Signal losses detected by the stale-bitrate sweeper',
+    labelNames: STREAM_LABELS,
+    registers: [register],
+  });
+  const restarts = new client.Counter({
+    name: 'streamapp_stream_restarts_total',
+    help: 'ffmpeg restarts by kind (manual = /restart-stream, automatic = restart policy)',
+    labelNames: [...STREAM_LABELS, 'kind'],
+    registers: [register],
+  });
+  const circuitOpens = new client.Counter({
+    name: 'streamapp_stream_circuit_open_total',
+    help: 'Times the restart circuit breaker opened',
+    labelNames: STREAM_LABELS,
+    registers: [register],
+  });
+
+  return {
+    register,
+    signalLossStarted: (labels) => signalLosses.inc(labels),
+    signalLossEnded: (labels, seconds) => signalLossSeconds.inc(labels, Math.max(0, seconds)),
+    restarted: (labels, kind) => restarts.inc({ ...labels, kind }),
+    circuitOpened: (labels) => circuitOpens.inc(labels),
+  };
+}
+
+// Express middleware implementing METRICS_AUTH; 'user' mode reuses the API's own auth middlewares
+function metricsAuth({ authenticateToken, requirePermission }) {
+  if (METRICS_AUTH === 'none') return [(req, res, next) => next()];
+  if (METRICS_AUTH === 'user') return [authenticateToken, requirePermission('view_metrics')];
+
+  return [(req, res, next) => {
+    const header = req.headers['authorization'] || '';
+    let ok = false;
+    if (METRICS_AUTH === 'bearer' && process.env.METRICS_TOKEN) {
+      ok = header.startsWith('Bearer ') && safeEqual(header.slice(7), process.env.METRICS_TOKEN);
+    } else if (METRICS_AUTH === 'basic' && process.env.METRICS_USER) {
+      const [user, ...rest] = Buffer.from(header.replace(/^Basic /, ''), 'base64').toString('utf8').split(':');
+      ok = header.startsWith('Basic ') && safeEqual(user, process.env.METRICS_USER) && safeEqual(rest.join(':'), process.env.METRICS_PASSWORD || '');
+    }
+    if (ok) return next();
+    if (METRICS_AUTH === 'basic') res.set('WWW-Authenticate', 'Basic realm="metrics"');
+    return res.status(401).type('text/plain').send('Unauthorized');
+  }];
+}
+
+module.exports = { createMetrics, metricsAuth, METRICS_AUTH };
@@ -0,0 +1,83 @@
+// server/monitors.js
+// Direct HLS tiles: the browser plays the source playlist itself, so no transcoder runs for them.
+// Registering one gives it the monitoring transcoded streams get (wired up in index.js). Kept in
+// monitors.json with every user that has the tile on their wall, so monitoring survives server
+// restarts and ends when the last of them releases it.
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { writeJsonAtomic } = require('./jsonfile');
+
+const MONITORS_FILE = process.env.MONITORS_FILE ? path.resolve(process.env.MONITORS_FILE) : path.join(__dirname, 'monitors.json');
+
+const idFor = (streamUrl) => crypto.createHash('md5').update(streamUrl).digest('hex');
+
+const readEntries = () => {
+  if (!fs.existsSync(MONITORS_FILE)) return [];
+  try {
+    const data = JSON.parse(fs.readFileSync(MONITORS_FILE, 'utf8'));
+    return Array.isArray(data) ? data.filter((e) => e && e.streamId && e.streamUrl) : [];
+  } catch (e) {
+    console.error('Failed to read monitored streams:', e);
+    return [];
+  }
+};
+
+// onStart(entry) / onStop(entry) start and stop a stream's monitoring
+function createMonitors({ onStart, onStop }) {
+  const entries = new Map(readEntries().map((e) => [e.streamId, { ...e, owners: Array.isArray(e.owners) ? e.owners : [] }]));
+  const running = new Set();
+
+  const save = () => {
+    try { writeJsonAtomic(MONITORS_FILE, Array.from(entries.values())); } catch (e) { console.error('Failed to write monitored streams:', e); }
+  };
+
+  const run = (entry) => {
+    if (running.has(entry.streamId)) return;
+    running.add(entry.streamId);
+    try { onStart(entry); } catch (e) { console.error(`Failed to start monitoring ${entry.streamId}`, e); }
+  };
+
+  const halt = (entry) => {
+    if (!running.delete(entry.streamId)) return;
+    try { onStop(entry); } catch (e) { console.error(`Failed to stop monitoring ${entry.streamId}`, e); }
+  };
+
+  return {
+    // monitoring of every stream registered before a server restart
+    resume() { entries.forEach(run); },
+    add(streamUrl, { streamName = null, owner = null } = {}) {
+      const streamId = idFor(streamUrl);
+      const entry = entries.get(streamId) || { streamId, streamUrl, streamName: null, owners: [], createdAt: Date.now() };
+      if (streamName) entry.streamName = streamName;
+      if (owner && !entry.owners.includes(owner)) entry.owners.push(owner);
+      entries.set(streamId, entry);
+      save();
+      run(entry);
+      return entry;
+    },
+    // owner's tile went away: { stopped } once nobody has it any more, null for unknown streams
+    release(streamId, owner = null) {
+      const entry = entries.get(streamId);
+      if (!entry) return null;
+      entry.owners = entry.owners.filter((o) => o !== owner);
+      if (entry.owners.length) {
+        save();
+        return { stopped: false, owners: entry.owners.length };
+      }
+      // still listed while it stops, so its last events carry the URL
+      halt(entry);
+      entries.delete(streamId);
+      save();
+      return { stopped: true, owners: 0 };
+    },
+    has: (streamId) => running.has(streamId),
+    get: (streamId) => entries.get(streamId) || null,
+    ids: () => Array.from(running),
+    list: () => Array.from(entries.values()),
+    // shutdown: monitoring ends, registrations stay for the next start
+    stopAll() { entries.forEach(halt); },
+  };
+}
+
+module.exports = { createMonitors, MONITORS_FILE };
@@ -0,0 +1,54 @@
+// server/nmssessions.js
+// RTMP / HTTP-FLV session stats for /api/health, kept to node-media-server's public API: sessions
+// are followed through its connect events and inspected with nms.getSession(). The byte counters
+// have no public accessor; they come from the 2.x internal context when that file is there and are
+// null otherwise, so another node-media-server version only loses the traffic figures.
+const nmsInternals = (() => {
+  try {
+    return require('node-media-server/src/node_core_ctx');
+  } catch (_) {
+    return null;
+  }
+})();
+
+function createSessionTracker(nms) {
+  const ids = new Set();
+  let accepted = 0;
+
+  nms.on('preConnect', (id) => {
+    ids.add(id);
+    accepted++;
+  });
+  nms.on('doneConnect', (id) => ids.delete(id));
+
+  function stats() {
+    const byType = {};
+    let publishers = 0;
+    let players = 0;
+    for (const id of Array.from(ids)) {
+      const session = nms.getSession(id);
+      if (!session) {
+        ids.delete(id); // rejected before it connected: no doneConnect
+        continue;
+      }
+      const type = session.TAG || 'unknown';
+      byType[type] = (byType[type] || 0) + 1;
+      if (session.isPublishing) publishers++;
+      if (session.isPlaying) players++;
+    }
+    const stat = nmsInternals && nmsInternals.stat;
+    return {
+      sessions: ids.size,
+      publishers,
+      players,
+      byType,
+      inBytes: stat ? stat.inbytes : null,
+      outBytes: stat ? stat.outbytes : null,
+      accepted,
+    };
+  }
+
+  return { stats };
+}
+
+module.exports = { createSessionTracker };
@@ -0,0 +1,108 @@
+// server/orphans.js
+// ffmpeg processes left behind by a previous run (crash, kill -9, a service restart that skipped
+// the shutdown sequence) keep publishing to the local RTMP server and writing HLS. Every ffmpeg
+// this server starts goes through spawnFfmpeg(), which lists it in ffmpeg-pids.json; at startup
+// only the processes of that list that still run the same output are killed, so other ffmpegs on
+// the host (another server, a manual test against the same RTMP server) are left alone.
+const fs = require('fs');
+const path = require('path');
+const { spawn, spawnSync } = require('child_process');
+const { writeJsonAtomic } = require('./jsonfile');
+
+const ENABLED = String(process.env.REAP_ORPHANS || 'on').toLowerCase() !== 'off';
+const PIDS_FILE = process.env.FFMPEG_PIDS_FILE ? path.resolve(process.env.FFMPEG_PIDS_FILE) : path.join(__dirname, 'ffmpeg-pids.json');
+const PS_TIMEOUT_MS = 10_000;
+
+const readPids = () => {
+  if (!fs.existsSync(PIDS_FILE)) return [];
+  try {
+    const data = JSON.parse(fs.readFileSync(PIDS_FILE, 'utf8'));
+    return Array.isArray(data) ? data.filter((p) => p && Number.isInteger(p.pid) && typeof p.output === 'string') : [];
+  } catch (e) {
+    console.error('Failed to read ffmpeg pid file:', e);
+    return [];
+  }
+};
+
+// the previous run's list, read before this run's first spawn overwrites it
+const previous = readPids();
+const tracked = new Map(); // pid -> { pid, output, role, streamId }
+
+const savePids = () => {
+  try { writeJsonAtomic(PIDS_FILE, Array.from(tracked.values(), ({ pid, output }) => ({ pid, output }))); } catch (e) { console.error('Failed to write ffmpeg pid file:', e); }
+};
+
+// child_process.spawn for ffmpeg, listed in the pid file until it exits. The output (last
+// argument) is kept with the pid so a pid the OS has since reused isn't mistaken for it. role
+// (what the process does) and streamId label it for the health report, they aren't spawn options.
+function spawnFfmpeg(command, args, { role = null, streamId = null, ...options } = {}) {
+  const proc = spawn(command, args, options);
+  if (!proc.pid) return proc; // failed to start: 'error' follows
+  const { pid } = proc;
+  tracked.set(pid, { pid, output: String(args[args.length - 1]), role, streamId });
+  savePids();
+  proc.once('exit', () => {
+    tracked.delete(pid);
+    savePids();
+  });
+  return proc;
+}
+
+// [{ pid, role, streamId }] of this run's running ffmpegs
+const listFfmpegs = () => Array.from(tracked.values(), ({ pid, role, streamId }) => ({ pid, role, streamId }));
+
+// SIGKILLs a spawnFfmpeg() process; resolves once it has exited
+function killFfmpeg(proc) {
+  return new Promise((resolve) => {
+    if (!proc.pid || proc.exitCode !== null || proc.signalCode !== null) return resolve();
+    proc.once('exit', () => resolve());
+    try { proc.kill('SIGKILL'); } catch (_) { resolve(); }
+  });
+}
+
+const FFMPEG_RE = /^"?[^"\s]*?ffmpeg(\.exe)?"?(\s|$)/i;
+
+// [{ pid, args }] of running ffmpeg processes
+function listFfmpegProcesses() {
+  if (process.platform === 'win32') {
+    const script = "Get-CimInstance Win32_Process -Filter \"Name='ffmpeg.exe'\" | ForEach-Object { \"$($_.ProcessId) $($_.CommandLine)\" }";
+    const ps = spawnSync('powershell.exe', ['-NoProfile', '-NonInteractive', '-Command', script], { encoding: 'utf8', timeout: PS_TIMEOUT_MS });
+    return parse(ps);
+  }
+  return parse(spawnSync('ps', ['-eo', 'pid=,args='], { encoding: 'utf8', timeout: PS_TIMEOUT_MS }));
+}
+
+function parse(ps) {
+  if (ps.error || ps.status !== 0 || !ps.stdout) return [];
+  return ps.stdout
+    .split(/\r?\n/)
+    .map((line) => /^\s*(\d+)\s+(.*)$/.exec(line))
+    .filter(Boolean)
+    .map((m) => ({ pid: Number(m[1]), args: m[2].trim() }))
+    .filter((p) => p.pid !== process.pid && FFMPEG_RE.test(p.args));
+}
+
+// The previous run's ffmpegs still running, plus those whose command line has one of markers:
+// substrings only this server's ffmpegs carry, for the ones node-media-server spawns itself
+function findOrphans(markers = []) {
+  return listFfmpegProcesses().filter((p) =>
+    previous.some((prev) => prev.pid === p.pid && p.args.includes(prev.output)) || markers.some((m) => m && p.args.includes(m)));
+}
+
+// Kills the orphans (must run before this process spawns any ffmpeg); returns the ones killed
+function reapOrphans(markers) {
+  if (!ENABLED) return [];
+  const killed = [];
+  for (const p of findOrphans(markers)) {
+    try {
+      if (process.platform === 'win32') spawnSync('taskkill', ['/PID', String(p.pid), '/T', '/F'], { timeout: PS_TIMEOUT_MS });
+      else process.kill(p.pid, 'SIGKILL');
+      killed.push(p);
+    } catch (e) {
+      console.error(`Failed to kill stale ffmpeg ${p.pid}:`, e);
+    }
+  }
+  return killed;
+}
+
+module.exports = { spawnFfmpeg, killFfmpeg, listFfmpegs, findOrphans, reapOrphans, REAP_ORPHANS: ENABLED, PIDS_FILE };
@@ -0,0 +1,123 @@
+// server/profiles.js
+// Named transcoding profiles for single-rendition outputs. The built-ins below are always
+// available and read-only; admins add their own, stored in profiles.json next to users.json.
+// 'copy' profiles remux instead of encoding, so the source codecs must already suit FLV/HLS
+// (H.264 video, AAC or MP3 audio); anything else makes ffmpeg exit at start.
+const fs = require('fs');
+const path = require('path');
+const { writeJsonAtomic } = require('./jsonfile');
+
+const PROFILES_FILE = process.env.PROFILES_FILE ? path.resolve(process.env.PROFILES_FILE) : path.join(__dirname, 'profiles.json');
+const DEFAULT_PROFILE = '480p';
+
+const BUILTIN = [
+  {
+    name: '720p',
+    description: 'H.264 720p, 2.5 Mbps',
+    videoCodec: 'libx264',
+    preset: 'ultrafast',
+    height: 720,
+    videoBitrate: '2500k',
+    maxrate: '3000k',
+    bufsize: '6000k',
+    gop: 60,
+    audioCodec: 'aac',
+    audioBitrate: '128k',
+    audioSampleRate: 44100,
+  },
+  {
+    name: '480p',
+    description: 'H.264 480p, 1.2 Mbps',
+    videoCodec: 'libx264',
+    preset: 'ultrafast',
+    height: 480,
+    videoBitrate: '1200k',
+    maxrate: '1500k',
+    bufsize: '2000k',
+    gop: 60,
+    audioCodec: 'aac',
+    audioBitrate: '96k',
+    audioSampleRate: 44100,
+  },
+  {
+    name: 'copy',
+    description: 'Passthrough: no re-encode (H.264/AAC sources only)',
+    videoCodec: 'copy',
+    audioCodec: 'copy',
+  },
+].map((p) => ({ ...p, builtin: true }));
+
+const builtinNames = new Set(BUILTIN.map((p) => p.name));
+
+const readCustom = () => {
+  if (!fs.existsSync(PROFILES_FILE)) return [];
+  try {
+    const data = JSON.parse(fs.readFileSync(PROFILES_FILE, 'utf8'));
+    return Array.isArray(data) ? data.filter((p) => p && p.name && !builtinNames.has(p.name)) : [];
+  } catch (e) {
+    console.error('Failed to read transcoding profiles:', e);
+    return [];
+  }
+};
+
+const writeCustom = (profiles) => writeJsonAtomic(PROFILES_FILE, profiles);
+
+function list() {
+  return [...BUILTIN, ...readCustom().map((p) => ({ ...p, builtin: false }))];
+}
+
+function get(name) {
+  return list().find((p) => p.name === name) || null;
+}
+
+function isBuiltin(name) {
+  return builtinNames.has(name);
+}
+
+// Create or replace a custom profile (already validated against the contract)
+function save(profile) {
+  const { builtin, ...fields } = profile;
+  const custom = readCustom().filter((p) => p.name !== fields.name);
+  custom.push(fields);
+  writeCustom(custom);
+  return { ...fields, builtin: false };
+}
+
+function remove(name) {
+  const custom = readCustom();
+  const next = custom.filter((p) => p.name !== name);
+  if (next.length === custom.length) return false;
+  writeCustom(next);
+  return true;
+}
+
+// ffmpeg codec options for a profile (everything between the input and the output muxer)
+function outputArgs(profile) {
+  const args = [];
+  if (profile.videoCodec === 'copy') {
+    args.push('-c:v', 'copy');
+  } else {
+    args.push('-c:v', profile.videoCodec);
+    if (profile.preset) args.push('-preset', profile.preset);
+    if (profile.height) args.push('-vf', `scale=-2:${profile.height}`);
+    if (profile.videoBitrate) args.push('-b:v', profile.videoBitrate);
+    if (profile.maxrate) args.push('-maxrate', profile.maxrate);
+    if (profile.bufsize) args.push('-bufsize', profile.bufsize);
+    if (profile.gop) args.push('-g', String(profile.gop));
+    args.push('-pix_fmt', 'yuv420p');
+  }
+
+  if (profile.audioCodec === 'none') {
+    args.push('-an');
+  } else if (profile.audioCodec === 'copy') {
+    args.push('-c:a', 'copy');
+  } else {
+    args.push('-c:a', profile.audioCodec);
+    if (profile.audioBitrate) args.push('-b:a', profile.audioBitrate);
+    if (profile.audioChannels) args.push('-ac', String(profile.audioChannels));
+    if (profile.audioSampleRate) args.push('-ar', String(profile.audioSampleRate));
+  }
+  return args;
+}
+
+module.exports = { list, get, isBuiltin, save, remove, outputArgs, DEFAULT_PROFILE, PROFILES_FILE };
@@ -0,0 +1,243 @@
+// server/recordings.js
+// Compliance recordings: copies of a stream's transcoded output written to disk as segmented
+// MP4 or MPEG-TS, started on demand or by schedule and pruned by retention limits. Files live in
+// RECORDINGS_DIR/<streamId>/ named by their start time; every ffmpeg run also writes a segment
+// list (<runStartMs>.csv: file,start,end) which is where file durations come from.
+// Schedules survive restarts (schedules.json); on-demand recordings end with the process.
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { spawnFfmpeg } = require('./orphans');
+const { writeJsonAtomic } = require('./jsonfile');
+
+const RECORDINGS_DIR = process.env.RECORDINGS_DIR ? path.resolve(process.env.RECORDINGS_DIR) : path.join(__dirname, 'recordings');
+const SCHEDULES_FILE = path.join(RECORDINGS_DIR, 'schedules.json');
+// Retention: files older than RECORDING_RETENTION_DAYS go first, then the oldest ones while the
+// total is above RECORDING_MAX_GB (0 = no size cap)
+const RETENTION_DAYS = Number(process.env.RECORDING_RETENTION_DAYS || 30);
+const MAX_BYTES = Number(process.env.RECORDING_MAX_GB || 0) * 1024 ** 3;
+const DEFAULT_SEGMENT_MINUTES = 15;
+const TICK_MS = 15_000;
+const RETENTION_SWEEP_MS = 10 * 60 * 1000;
+
+const EXTENSIONS = { mp4: '.mp4', ts: '.ts' };
+const isMediaFile = (name) => Object.values(EXTENSIONS).includes(path.extname(name));
+
+const readSchedules = () => {
+  if (!fs.existsSync(SCHEDULES_FILE)) return [];
+  try {
+    const data = JSON.parse(fs.readFileSync(SCHEDULES_FILE, 'utf8'));
+    return Array.isArray(data) ? data.filter((s) => s && s.id && s.streamId) : [];
+  } catch (e) {
+    console.error('Failed to read recording schedules:', e);
+    return [];
+  }
+};
+
+const writeSchedules = (schedules) => {
+  fs.mkdirSync(RECORDINGS_DIR, { recursive: true });
+  writeJsonAtomic(SCHEDULES_FILE, schedules);
+};
+
+// Durations of finished segments in a stream folder, from every segment list found there
+function readDurations(dir) {
+  const durations = new Map();
+  for (const name of fs.readdirSync(dir).filter((n) => n.endsWith('.csv'))) {
+    try {
+      for (const line of fs.readFileSync(path.join(dir, name), 'utf8').split('\n')) {
+        const [file, start, end] = line.trim().split(',');
+        if (file && Number.isFinite(Number(end) - Number(start))) durations.set(file, Number(end) - Number(start));
+      }
+    } catch (_) {}
+  }
+  return durations;
+}
+
+// inputFor(streamId): the transcoded output to copy (see localOutputUrl in index.js)
+function createRecorder({ ffmpegPath, inputFor }) {
+  const active = new Map(); // streamId -> { id, streamId, format, segmentMinutes, startedAt, endAt, scheduleId, by, proc }
+  let schedules = readSchedules();
+
+  const publicRecording = (r) => ({
+    id: r.id,
+    streamId: r.streamId,
+    format: r.format,
+    segmentMinutes: r.segmentMinutes,
+    startedAt: r.startedAt,
+    endAt: r.endAt,
+    scheduleId: r.scheduleId,
+    by: r.by,
+    state: r.proc ? 'recording' : 'waiting',
+  });
+
+  // (Re)spawn ffmpeg for an active recording; without a live input it stays 'waiting' until a tick
+  function spawnRecording(rec) {
+    const input = inputFor(rec.streamId);
+    if (!input) return;
+    const dir = path.join(RECORDINGS_DIR, rec.streamId);
+    fs.mkdirSync(dir, { recursive: true });
+    const args = [
+      '-hide_banner', '-loglevel', 'error',
+      '-i', input,
+      '-map', '0:v?', '-map', '0:a?',
+      '-c', 'copy',
+      '-f', 'segment',
+      '-segment_time', String(rec.segmentMinutes * 60),
+      '-reset_timestamps', '1',
+      '-strftime', '1',
+      '-segment_format', rec.format === 'mp4' ? 'mp4' : 'mpegts',
+      // fragmented MP4 stays playable up to the last fragment if ffmpeg dies mid-segment
+      ...(rec.format === 'mp4' ? ['-segment_format_options', 'movflags=+frag_keyframe+empty_moov+default_base_moof'] : []),
+      '-segment_list', path.join(dir, `${Date.now()}.csv`),
+      '-segment_list_type', 'csv',
+      path.join(dir, `%Y%m%d-%H%M%S${EXTENSIONS[rec.format]}`),
+    ];
+    const proc = spawnFfmpeg(ffmpegPath, args, { role: 'recorder', streamId: rec.streamId });
+    rec.proc = proc;
+    proc.stderr.on('data', () => { /* noisy */ });
+    proc.on('error', (err) => console.error(`Recording error for ${rec.streamId}:`, err));
+    proc.on('close', (code) => {
+      if (rec.proc === proc) rec.proc = null;
+      console.log(`Recording ffmpeg for ${rec.streamId} closed (code=${code})`);
+    });
+  }
+
+  function start(streamId, { format = 'mp4', segmentMinutes = DEFAULT_SEGMENT_MINUTES, endAt = null, scheduleId = null, by = null } = {}) {
+    if (active.has(streamId)) return null;
+    const rec = { id: crypto.randomUUID(), streamId, format, segmentMinutes, startedAt: Date.now(), endAt, scheduleId, by, proc: null };
+    active.set(streamId, rec);
+    spawnRecording(rec);
+    return publicRecording(rec);
+  }
+
+  function stop(streamId) {
+    const rec = active.get(streamId);
+    if (!rec) return false;
+    active.delete(streamId);
+    // 'q' lets ffmpeg finish the current segment (and its segment list entry) cleanly
+    if (rec.proc) {
+      const proc = rec.proc;
+      try { proc.stdin.write('q'); } catch (_) {}
+      setTimeout(() => { try { proc.kill('SIGKILL'); } catch (_) {} }, 5000).unref();
+    }
+    return true;
+  }
+
+  function addSchedule({ streamId, startAt, endAt, format = 'mp4', segmentMinutes = DEFAULT_SEGMENT_MINUTES, by = null }) {
+    const schedule = { id: crypto.randomUUID(), streamId, startAt, endAt, format, segmentMinutes, by, createdAt: Date.now() };
+    schedules = [...schedules, schedule];
+    writeSchedules(schedules);
+    tick();
+    return schedule;
+  }
+
+  function removeSchedule(id) {
+    const schedule = schedules.find((s) => s.id === id);
+    if (!schedule) return false;
+    schedules = schedules.filter((s) => s.id !== id);
+    writeSchedules(schedules);
+    const rec = active.get(schedule.streamId);
+    if (rec && rec.scheduleId === id) stop(schedule.streamId);
+    return true;
+  }
+
+  function listFiles() {
+    if (!fs.existsSync(RECORDINGS_DIR)) return [];
+    const files = [];
+    for (const streamId of fs.readdirSync(RECORDINGS_DIR)) {
+      const dir = path.join(RECORDINGS_DIR, streamId);
+      try {
+        if (!fs.statSync(dir).isDirectory()) continue;
+        const durations = readDurations(dir);
+        const rec = active.get(streamId);
+        const entries = fs.readdirSync(dir).filter(isMediaFile).map((filename) => ({ filename, stat: fs.statSync(path.join(dir, filename)) }));
+        const newest = entries.reduce((a, b) => (!a || b.stat.mtimeMs > a.stat.mtimeMs ? b : a), null);
+        for (const { filename, stat } of entries) {
+          files.push({
+            streamId,
+            filename,
+            format: path.extname(filename) === '.mp4' ? 'mp4' : 'ts',
+            size: stat.size,
+            modifiedAt: stat.mtimeMs,
+            duration: durations.has(filename) ? durations.get(filename) : null,
+            // the segment ffmpeg is still writing has no segment list entry yet
+            inProgress: Boolean(rec && rec.proc) && filename === newest.filename && !durations.has(filename),
+          });
+        }
+      } catch (e) {
+        console.error(`Failed to list recordings of ${streamId}:`, e);
+      }
+    }
+    return files.sort((a, b) => b.modifiedAt - a.modifiedAt);
+  }
+
+  function sweepRetention() {
+    const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const remaining = [];
+    for (const f of listFiles()) {
+      if (f.inProgress) continue;
+      if (RETENTION_DAYS > 0 && f.modifiedAt < cutoff) {
+        try { fs.unlinkSync(path.join(RECORDINGS_DIR, f.streamId, f.filename)); } catch (_) {}
+      } else {
+        remaining.push(f);
+      }
+    }
+    // segment lists of runs whose files aged out
+    if (RETENTION_DAYS > 0 && fs.existsSync(RECORDINGS_DIR)) {
+      for (const streamId of fs.readdirSync(RECORDINGS_DIR)) {
+        const dir = path.join(RECORDINGS_DIR, streamId);
+        try {
+          if (!fs.statSync(dir).isDirectory()) continue;
+          for (const name of fs.readdirSync(dir).filter((n) => n.endsWith('.csv'))) {
+            if (fs.statSync(path.join(dir, name)).mtimeMs < cutoff) fs.unlinkSync(path.join(dir, name));
+          }
+        } catch (_) {}
+      }
+    }
+    if (MAX_BYTES > 0) {
+      let total = remaining.reduce((sum, f) => sum + f.size, 0);
+      for (const f of remaining.sort((a, b) => a.modifiedAt - b.modifiedAt)) {
+        if (total <= MAX_BYTES) break;
+        try {
+          fs.unlinkSync(path.join(RECORDINGS_DIR, f.streamId, f.filename));
+          total -= f.size;
+        } catch (_) {}
+      }
+    }
+  }
+
+  // Starts due schedules, ends expired recordings and respawns recordings whose input came back
+  function tick() {
+    const now = Date.now();
+    const expired = schedules.filter((s) => s.endAt <= now);
+    if (expired.length) {
+      schedules = schedules.filter((s) => s.endAt > now);
+      writeSchedules(schedules);
+    }
+    for (const s of schedules) {
+      if (s.startAt <= now && !active.has(s.streamId)) start(s.streamId, { ...s, scheduleId: s.id, endAt: s.endAt });
+    }
+    for (const [streamId, rec] of active) {
+      if (rec.endAt && rec.endAt <= now) stop(streamId);
+      else if (!rec.proc) spawnRecording(rec);
+    }
+  }
+
+  setInterval(tick, TICK_MS).unref();
+  setInterval(sweepRetention, RETENTION_SWEEP_MS).unref();
+
+  return {
+    start,
+    stop,
+    isRecording: (streamId) => active.has(streamId),
+    active: () => Array.from(active.values(), publicRecording),
+    schedules: () => schedules,
+    addSchedule,
+    removeSchedule,
+    listFiles,
+    sweepRetention,
+    stopAll: () => { for (const streamId of Array.from(active.keys())) stop(streamId); },
+  };
+}
+
+module.exports = { createRecorder, RECORDINGS_DIR, RETENTION_DAYS, MAX_BYTES };
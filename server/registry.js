@@ -0,0 +1,105 @@
+// server/registry.js
+// Durable registry of desired streams: what operators asked the transcoder to run, with the
+// output profile and owners, so the server can bring every feed back after a crash or reboot.
+// Stored as journaled JSON: each change is appended to streams.journal and folded into
+// streams.json on load and every COMPACT_AFTER changes. A crash loses at most the line being written.
+const fs = require('fs');
+const path = require('path');
+const { writeJsonAtomic } = require('./jsonfile');
+
+const REGISTRY_DIR = process.env.REGISTRY_DIR ? path.resolve(process.env.REGISTRY_DIR) : path.join(__dirname, 'registry');
+const SNAPSHOT_FILE = path.join(REGISTRY_DIR, 'streams.json');
+const JOURNAL_FILE = path.join(REGISTRY_DIR, 'streams.journal');
+const COMPACT_AFTER = 200;
+
+const entries = new Map(); // streamId -> { streamId, streamUrl, streamName, profile, abr, input, dvrMinutes, restartPolicy, loudnessTarget, owner, owners, createdAt, updatedAt }
+let journalLines = 0;
+
+function apply(op) {
+  if (op.op === 'put' && op.entry && op.entry.streamId) entries.set(op.entry.streamId, op.entry);
+  else if (op.op === 'del' && op.streamId) entries.delete(op.streamId);
+}
+
+// Write the snapshot atomically, then drop the journal it now contains.
+// Replaying a journal twice is harmless, so a crash between the two steps is fine.
+function compact() {
+  writeJsonAtomic(SNAPSHOT_FILE, Array.from(entries.values()));
+  fs.writeFileSync(JOURNAL_FILE, '', 'utf8');
+  journalLines = 0;
+}
+
+function append(op) {
+  apply(op);
+  try {
+    fs.appendFileSync(JOURNAL_FILE, JSON.stringify(op) + '\n', 'utf8');
+    if (++journalLines >= COMPACT_AFTER) compact();
+  } catch (e) {
+    console.error('Failed to write stream registry:', e);
+  }
+}
+
+function load() {
+  entries.clear();
+  journalLines = 0;
+  fs.mkdirSync(REGISTRY_DIR, { recursive: true });
+
+  if (fs.existsSync(SNAPSHOT_FILE)) {
+    try {
+      const data = JSON.parse(fs.readFileSync(SNAPSHOT_FILE, 'utf8'));
+      for (const entry of Array.isArray(data) ? data : []) {
+        if (entry && entry.streamId) entries.set(entry.streamId, entry);
+      }
+    } catch (e) {
+      // keep the unreadable snapshot for inspection instead of compacting over it
+      const aside = `${SNAPSHOT_FILE}.corrupt-${Date.now()}`;
+      console.error(`Stream registry snapshot unreadable, moved to ${aside}:`, e);
+      try { fs.renameSync(SNAPSHOT_FILE, aside); } catch (_) {}
+    }
+  }
+
+  if (fs.existsSync(JOURNAL_FILE)) {
+    for (const line of fs.readFileSync(JOURNAL_FILE, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try { apply(JSON.parse(line)); } catch (_) { /* torn write from a crash */ }
+    }
+  }
+
+  compact();
+  return list();
+}
+
+function list() {
+  return Array.from(entries.values());
+}
+
+function get(streamId) {
+  return entries.get(streamId) || null;
+}
+
+function has(streamId) {
+  return entries.has(streamId);
+}
+
+// Merge fields into the entry (creating it when needed); unchanged entries are not rewritten
+function put(fields) {
+  const prev = entries.get(fields.streamId);
+  const now = Date.now();
+  const next = { ...prev, ...fields, createdAt: (prev && prev.createdAt) || now, updatedAt: now };
+  if (prev && JSON.stringify({ ...prev, updatedAt: 0 }) === JSON.stringify({ ...next, updatedAt: 0 })) return prev;
+  append({ op: 'put', entry: next });
+  return next;
+}
+
+// Like put, but only for streams that are already desired
+function update(streamId, fields) {
+  if (!entries.has(streamId)) return null;
+  return put({ ...fields, streamId });
+}
+
+function remove(streamId) {
+  if (!entries.has(streamId)) return false;
+  append({ op: 'del', streamId });
+  return true;
+}
+
+module.exports = { load, list, get, has, put, update, remove, REGISTRY_DIR };
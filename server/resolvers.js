@@ -0,0 +1,151 @@
+// server/resolvers.js
+// Source resolvers turn the URL a stream was added with into the URL ffmpeg opens. Plugins are
+// tried in order: 'direct' (non-HTTP inputs and plain HLS / media links, used as is), 'custom'
+// (regex -> template rules from resolvers.json) and 'yt-dlp' (page URLs such as YouTube).
+// Results are cached until their expiry; entries still in use are re-resolved REFRESH_SEC before
+// they expire and reported through onRefresh so the transcoder can reopen the fresh URL.
+const fs = require('fs');
+const path = require('path');
+
+const RESOLVERS_FILE = process.env.RESOLVERS_FILE ? path.resolve(process.env.RESOLVERS_FILE) : path.join(__dirname, 'resolvers.json');
+// Lifetime of a resolved URL that doesn't say when it expires
+const DEFAULT_TTL_SEC = Number(process.env.RESOLVE_TTL_SEC || 3600);
+const REFRESH_SEC = Number(process.env.RESOLVE_REFRESH_SEC || 300);
+const TICK_MS = 30_000;
+
+const DIRECT_RE = /\.(m3u8|mpd|ts|mp4|flv|mkv|aac|mp3)$/i;
+
+// Custom rules: [{ name, pattern, template, ttlSec? }]; the template may use $1.. and $<group>
+// from the pattern's match, e.g. { "pattern": "^https://cams\\.example\\.com/view/(\\d+)$",
+// "template": "https://cdn.example.com/cam$1/index.m3u8" }
+let rulesCache = { mtimeMs: -1, rules: [] };
+const readRules = () => {
+  try {
+    if (!fs.existsSync(RESOLVERS_FILE)) return [];
+    const { mtimeMs } = fs.statSync(RESOLVERS_FILE);
+    if (mtimeMs === rulesCache.mtimeMs) return rulesCache.rules;
+    const data = JSON.parse(fs.readFileSync(RESOLVERS_FILE, 'utf8'));
+    const rules = (Array.isArray(data) ? data : [])
+      .filter((r) => r && r.pattern && r.template)
+      .map((r) => ({ name: r.name || r.pattern, re: new RegExp(r.pattern), template: String(r.template), ttlSec: Number(r.ttlSec) || null }));
+    rulesCache = { mtimeMs, rules };
+    return rules;
+  } catch (e) {
+    console.error('Failed to read source resolver rules:', e);
+    return rulesCache.rules;
+  }
+};
+
+const expand = (template, match) =>
+  template.replace(/\$(\d+)|\$<(\w+)>/g, (_, n, name) => (n !== undefined ? match[Number(n)] : (match.groups || {})[name]) || '');
+
+// Signed media URLs carry their expiry as ?expire=<unix> or /expire/<unix>/ (YouTube)
+const expiryOf = (url) => {
+  const m = /[?&/]expire[=/](\d{9,11})\b/.exec(url);
+  return m ? Number(m[1]) * 1000 : null;
+};
+
+const PLUGINS = [
+  {
+    name: 'direct',
+    match: (url) => {
+      if (!/^https?:\/\//i.test(url)) return true;
+      try {
+        const { pathname } = new URL(url);
+        return DIRECT_RE.test(pathname) || pathname.toLowerCase().includes('.m3u8');
+      } catch (_) {
+        return true;
+      }
+    },
+    resolve: async (url) => ({ url, expiresAt: null }),
+  },
+  {
+    name: 'custom',
+    match: (url) => readRules().some((r) => r.re.test(url)),
+    resolve: async (url) => {
+      const rule = readRules().find((r) => r.re.test(url));
+      const resolved = expand(rule.template, rule.re.exec(url));
+      return { url: resolved, rule: rule.name, expiresAt: rule.ttlSec ? Date.now() + rule.ttlSec * 1000 : expiryOf(resolved) };
+    },
+  },
+  {
+    name: 'yt-dlp',
+    match: () => true,
+    resolve: async (url, { youtubedl }) => {
+      // youtube-dl-exec may return several lines (or a trailing newline); the first is the media URL
+      const out = await youtubedl(url, { 'get-url': true, format: 'best' });
+      const resolved = String(out || '').split('\n').map((l) => l.trim()).find(Boolean);
+      if (!resolved) throw new Error('yt-dlp returned no URL');
+      return { url: resolved, expiresAt: expiryOf(resolved) };
+    },
+  },
+];
+
+// youtubedl is youtube-dl-exec; inUse(streamUrl) tells whether a running stream still reads the
+// URL; onRefresh(streamUrl, source) reports a URL re-resolved ahead of its expiry
+function createResolver({ youtubedl, inUse = () => false, onRefresh = () => {} }) {
+  const cache = new Map();   // original URL -> { resolver, url, rule?, resolvedAt, expiresAt }
+  const pending = new Map(); // original URL -> in-flight resolution
+
+  const fresh = (entry) => entry && (entry.expiresAt === null || entry.expiresAt - REFRESH_SEC * 1000 > Date.now());
+
+  async function run(streamUrl) {
+    const plugin = PLUGINS.find((p) => p.match(streamUrl));
+    try {
+      const result = await plugin.resolve(streamUrl, { youtubedl });
+      const entry = { resolver: plugin.name, ...result, resolvedAt: Date.now() };
+      if (plugin.name === 'yt-dlp' || plugin.name === 'custom') {
+        if (entry.expiresAt === null) entry.expiresAt = entry.resolvedAt + DEFAULT_TTL_SEC * 1000;
+      }
+      cache.set(streamUrl, entry);
+      return entry;
+    } catch (e) {
+      // unresolvable: let ffmpeg try the original URL, and try resolving again next time
+      console.error(`Source resolver '${plugin.name}' failed for ${streamUrl}:`, e);
+      cache.delete(streamUrl);
+      return { resolver: 'none', url: streamUrl, resolvedAt: Date.now(), expiresAt: null };
+    }
+  }
+
+  // force skips the cache (the cached URL was refused)
+  function resolve(streamUrl, { force = false } = {}) {
+    const cached = cache.get(streamUrl);
+    if (!force && fresh(cached)) return Promise.resolve(cached);
+    if (pending.has(streamUrl)) return pending.get(streamUrl);
+    const p = run(streamUrl).finally(() => pending.delete(streamUrl));
+    pending.set(streamUrl, p);
+    return p;
+  }
+
+  // Re-resolves entries in use before they expire, forgets unused expired ones
+  async function tick() {
+    for (const [streamUrl, entry] of Array.from(cache.entries())) {
+      if (fresh(entry)) continue;
+      if (!inUse(streamUrl)) {
+        if (entry.expiresAt <= Date.now()) cache.delete(streamUrl);
+        continue;
+      }
+      const next = await resolve(streamUrl, { force: true });
+      if (next.url !== entry.url) {
+        try { onRefresh(streamUrl, next); } catch (e) { console.error('Source refresh handler failed', e); }
+      }
+    }
+  }
+
+  // a round still waiting on yt-dlp would otherwise have the next one refresh (and report) it again
+  let ticking = false;
+  setInterval(() => {
+    if (ticking) return;
+    ticking = true;
+    tick().catch((e) => console.error('Source resolver tick failed', e)).finally(() => { ticking = false; });
+  }, TICK_MS).unref();
+
+  return {
+    resolve,
+    // cached resolution (null when the URL was never resolved or resolution failed)
+    peek: (streamUrl) => cache.get(streamUrl) || null,
+    forget: (streamUrl) => cache.delete(streamUrl),
+  };
+}
+
+module.exports = { createResolver, RESOLVERS_FILE };
@@ -0,0 +1,43 @@
+// server/restarts.js
+// Automatic restart policies. Modes: 'off' (manual /restart-stream only), 'on-signal-loss' (restart
+// once no bitrate arrived for STALE_THRESHOLD_MS, which covers crashed, exited and hung ffmpeg) and
+// 'always' (additionally restart right away whenever ffmpeg exits). Delays grow exponentially with
+// random jitter; after maxAttempts failed restarts the circuit opens for cooldownMs, then a single
+// trial restart is made. index.js keeps the per-stream state and timers.
+const RESTART_MODES = ['off', 'always', 'on-signal-loss'];
+const RESTART_DEFAULTS = {
+  mode: RESTART_MODES.includes(process.env.RESTART_POLICY) ? process.env.RESTART_POLICY : 'off',
+  maxAttempts: Number(process.env.RESTART_MAX_ATTEMPTS || 5),
+  baseDelayMs: Number(process.env.RESTART_BASE_DELAY_MS || 2000),
+  maxDelayMs: Number(process.env.RESTART_MAX_DELAY_MS || 60_000),
+  cooldownMs: Number(process.env.RESTART_COOLDOWN_MS || 10 * 60 * 1000),
+};
+const RESTART_JITTER = Number(process.env.RESTART_JITTER || 0.3);
+
+// A stream's policy: the given fields over the defaults
+function mergePolicy(policy) {
+  const merged = { ...RESTART_DEFAULTS };
+  for (const [k, v] of Object.entries(policy || {})) {
+    if (v !== undefined) merged[k] = v;
+  }
+  merged.maxDelayMs = Math.max(merged.maxDelayMs, merged.baseDelayMs);
+  return merged;
+}
+
+function restartDelay(policy, attempt, random = Math.random) {
+  const base = Math.min(policy.baseDelayMs * Math.pow(2, attempt), policy.maxDelayMs);
+  return Math.round(base + random() * base * RESTART_JITTER);
+}
+
+// The next step for a stream after `attempts` failed restarts: { circuitOpen, retryAt } once they
+// are used up, otherwise { attempt, delayMs, restartAt } for the restart to schedule
+function nextRestart(policy, attempts, now = Date.now(), random = Math.random) {
+  if (attempts >= policy.maxAttempts) return { circuitOpen: true, retryAt: now + policy.cooldownMs };
+  const delayMs = restartDelay(policy, attempts, random);
+  return { circuitOpen: false, attempt: attempts + 1, delayMs, restartAt: now + delayMs };
+}
+
+// Attempts counted for the trial restart once the circuit's cool-down is over: one more failure re-opens it
+const halfOpenAttempts = (policy) => policy.maxAttempts - 1;
+
+module.exports = { mergePolicy, nextRestart, halfOpenAttempts, RESTART_DEFAULTS };
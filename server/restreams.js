@@ -0,0 +1,185 @@
+// server/restreams.js
+// Restream outputs: forward a monitored stream to partners or social platforms over RTMP, SRT or
+// UDP, either copying the transcoded output or re-encoding it with a transcoding profile.
+// Outputs are kept in restreams.json; an enabled output is (re)started whenever its stream is
+// producing output, so it follows the stream through restarts and server reboots.
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { spawnFfmpeg } = require('./orphans');
+const { writeJsonAtomic } = require('./jsonfile');
+
+const RESTREAMS_FILE = process.env.RESTREAMS_FILE ? path.resolve(process.env.RESTREAMS_FILE) : path.join(__dirname, 'restreams.json');
+const TICK_MS = 10_000;
+const BITRATE_INTERVAL_MS = 2000;
+
+// output container per destination protocol
+const FORMATS = { rtmp: 'flv', rtmps: 'flv', srt: 'mpegts', udp: 'mpegts' };
+const protocolOf = (url) => String(url).split(':')[0].toLowerCase();
+
+const readOutputs = () => {
+  if (!fs.existsSync(RESTREAMS_FILE)) return [];
+  try {
+    const data = JSON.parse(fs.readFileSync(RESTREAMS_FILE, 'utf8'));
+    return Array.isArray(data) ? data.filter((o) => o && o.id && o.streamId && o.url) : [];
+  } catch (e) {
+    console.error('Failed to read restream outputs:', e);
+    return [];
+  }
+};
+
+const writeOutputs = (outputs) => writeJsonAtomic(RESTREAMS_FILE, outputs);
+
+// inputFor(streamId) is the stream to forward (localOutputUrl in index.js);
+// encodeArgs(profileName) returns the codec options; outputUrl(url) adapts a destination for ffmpeg;
+// onEvent(type, output, fields) reports 'started' / 'stopped' / 'bitrate' / 'error'
+function createRestreamer({ ffmpegPath, inputFor, encodeArgs, outputUrl = (url) => url, onEvent }) {
+  let outputs = readOutputs(); // [{ id, streamId, name, url, profile, enabled, createdAt, by }]
+  const runs = new Map();      // output id -> { proc, startedAt, bitrate, sample, stopping }
+  const lastErrors = new Map(); // output id -> last ffmpeg error line
+  let closed = false;           // stopAll() ran: the server is shutting down
+
+  const save = () => {
+    try { writeOutputs(outputs); } catch (e) { console.error('Failed to write restream outputs:', e); }
+  };
+
+  const publicOutput = (o) => {
+    const run = runs.get(o.id);
+    let state = 'waiting';
+    if (!o.enabled) state = 'stopped';
+    else if (run) state = run.stopping || run.bitrate === null ? 'starting' : 'running';
+    else if (lastErrors.has(o.id)) state = 'error';
+    return {
+      ...o,
+      state,
+      bitrate: run && !run.stopping ? run.bitrate : null,
+      startedAt: run ? run.startedAt : null,
+      lastError: lastErrors.get(o.id) || null,
+    };
+  };
+
+  const emit = (type, output, fields = {}) => {
+    try { onEvent(type, output, fields); } catch (e) { console.error('Restream event handler failed', e); }
+  };
+
+  function spawnOutput(output) {
+    const input = inputFor(output.streamId);
+    if (closed || !input || runs.has(output.id)) return;
+    const proc = spawnFfmpeg(ffmpegPath, [
+      '-hide_banner', '-loglevel', 'error',
+      '-i', input,
+      '-map', '0:v?', '-map', '0:a?',
+      ...encodeArgs(output.profile),
+      '-progress', 'pipe:1', '-nostats',
+      '-f', FORMATS[protocolOf(output.url)],
+      outputUrl(output.url),
+    ], { role: 'restream', streamId: output.streamId });
+    const run = { proc, startedAt: Date.now(), bitrate: null, sample: { at: Date.now(), size: 0 }, stopping: false };
+    runs.set(output.id, run);
+    emit('started', output);
+
+    // -progress blocks end with "progress=continue"; the bitrate is measured over BITRATE_INTERVAL_MS
+    let pending = '';
+    let size = 0;
+    proc.stdout.on('data', (chunk) => {
+      pending += chunk.toString();
+      const lines = pending.split('\n');
+      pending = lines.pop();
+      for (const line of lines) {
+        const [key, value] = line.trim().split('=');
+        if (key === 'total_size' && Number.isFinite(Number(value))) size = Number(value);
+        if (key !== 'progress') continue;
+        const now = Date.now();
+        if (now - run.sample.at < BITRATE_INTERVAL_MS) continue;
+        run.bitrate = Math.round(((size - run.sample.size) * 8) / ((now - run.sample.at) / 1000) / 10_000) / 100;
+        run.sample = { at: now, size };
+        lastErrors.delete(output.id);
+        emit('bitrate', output, { bitrate: run.bitrate });
+      }
+    });
+    proc.stderr.on('data', (chunk) => {
+      const line = chunk.toString().trim().split('\n').pop();
+      if (line) lastErrors.set(output.id, line);
+    });
+    proc.on('error', (err) => {
+      lastErrors.set(output.id, String(err));
+      emit('error', output, { error: String(err) });
+    });
+    proc.on('close', (code) => {
+      if (runs.get(output.id) === run) runs.delete(output.id);
+      console.log(`Restream ${output.id} (${output.streamId}) closed (code=${code})`);
+      emit('stopped', output);
+      // enabled again while this process was ending
+      const current = outputs.find((o) => o.id === output.id);
+      if (run.stopping && current && current.enabled) spawnOutput(current);
+    });
+  }
+
+  function kill(id) {
+    const run = runs.get(id);
+    if (!run || run.stopping) return;
+    // the run stays listed until ffmpeg exits, so spawnOutput can't publish to the destination twice
+    run.stopping = true;
+    // 'q' ends the output cleanly (FLV trailer, RTMP unpublish)
+    try { run.proc.stdin.write('q'); } catch (_) {}
+    setTimeout(() => { try { run.proc.kill('SIGKILL'); } catch (_) {} }, 5000).unref();
+  }
+
+  function add({ streamId, name, url, profile = 'copy', enabled = true, by = null }) {
+    const output = { id: crypto.randomUUID(), streamId, name, url, profile, enabled, createdAt: Date.now(), by };
+    outputs = [...outputs, output];
+    save();
+    if (enabled) spawnOutput(output);
+    return publicOutput(output);
+  }
+
+  // enable / disable; null for an unknown id
+  function setEnabled(id, enabled) {
+    const output = outputs.find((o) => o.id === id);
+    if (!output) return null;
+    output.enabled = enabled;
+    save();
+    lastErrors.delete(id);
+    if (enabled) spawnOutput(output);
+    else kill(id);
+    return publicOutput(output);
+  }
+
+  function remove(id) {
+    if (!outputs.some((o) => o.id === id)) return false;
+    kill(id);
+    lastErrors.delete(id);
+    outputs = outputs.filter((o) => o.id !== id);
+    save();
+    return true;
+  }
+
+  // Starts enabled outputs whose stream is producing output (again)
+  function tick() {
+    for (const output of outputs) if (output.enabled) spawnOutput(output);
+  }
+
+  setInterval(tick, TICK_MS).unref();
+
+  return {
+    list: (streamId) => outputs.filter((o) => !streamId || o.streamId === streamId).map(publicOutput),
+    get: (id) => {
+      const output = outputs.find((o) => o.id === id);
+      return output ? publicOutput(output) : null;
+    },
+    add,
+    start: (id) => setEnabled(id, true),
+    stop: (id) => setEnabled(id, false),
+    remove,
+    // an enabled output keeps its stream busy even without viewers
+    isActive: (streamId) => outputs.some((o) => o.streamId === streamId && o.enabled),
+    // the stream's transcoder went away: end its outputs, enabled ones come back with it
+    stopStream: (streamId) => { for (const o of outputs) if (o.streamId === streamId) kill(o.id); },
+    stopAll: () => {
+      closed = true;
+      for (const id of Array.from(runs.keys())) kill(id);
+    },
+  };
+}
+
+module.exports = { createRestreamer, RESTREAMS_FILE };
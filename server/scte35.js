@@ -0,0 +1,236 @@
+// server/scte35.js
+// SCTE-35 ad-insertion cues: splice_info_sections carried on a TS input's SCTE-35 PID (handed
+// over by server/tsanalyzer.js) and the cue tags of HLS input playlists (#EXT-X-CUE-OUT /
+// #EXT-X-CUE-IN and #EXT-X-DATERANGE with SCTE35-OUT / -IN / -CMD, polled by server/ingress.js).
+// Every cue becomes { time, origin, command, kind, eventId, durationSec, ptsSec,
+// segmentationTypeId, detail }; kind is OUT (break starts), IN (break ends) or SIGNAL.
+
+const COMMANDS = { 0x00: 'splice_null', 0x04: 'splice_schedule', 0x05: 'splice_insert', 0x06: 'time_signal', 0x07: 'bandwidth_reservation', 0xff: 'private_command' };
+
+// segmentation_type_id: starts open a break or program, ends close it
+const SEGMENTATION_TYPES = {
+  0x10: ['Program Start', 'OUT'],
+  0x11: ['Program End', 'IN'],
+  0x22: ['Break Start', 'OUT'],
+  0x23: ['Break End', 'IN'],
+  0x30: ['Provider Advertisement Start', 'OUT'],
+  0x31: ['Provider Advertisement End', 'IN'],
+  0x32: ['Distributor Advertisement Start', 'OUT'],
+  0x33: ['Distributor Advertisement End', 'IN'],
+  0x34: ['Provider Placement Opportunity Start', 'OUT'],
+  0x35: ['Provider Placement Opportunity End', 'IN'],
+  0x36: ['Distributor Placement Opportunity Start', 'OUT'],
+  0x37: ['Distributor Placement Opportunity End', 'IN'],
+};
+
+const PTS_WRAP = 2 ** 33;
+const TICKS = 90000;
+// HLS cue keys remembered per stream (a live playlist only lists a few minutes)
+const MAX_SEEN_KEYS = 500;
+
+// 33-bit value whose top bit is the low bit of buf[offset]
+const read33 = (buf, offset) => (buf[offset] & 0x01) * 2 ** 32 + buf.readUInt32BE(offset + 1);
+
+// splice_time(): 5 bytes with a PTS when time_specified_flag is set, 1 byte otherwise
+function spliceTime(buf, offset) {
+  if (buf[offset] & 0x80) return { pts: read33(buf, offset), next: offset + 5 };
+  return { pts: null, next: offset + 1 };
+}
+
+function segmentationDescriptor(buf, offset, end) {
+  if (offset + 5 > end) return null;
+  const eventId = buf.readUInt32BE(offset);
+  if (buf[offset + 4] & 0x80) return { eventId, cancelled: true };
+  const flags = buf[offset + 5];
+  let i = offset + 6;
+  if (!(flags & 0x80)) i += 1 + buf[i] * 6; // component loop
+  let durationSec = null;
+  if (flags & 0x40) {
+    durationSec = ((buf[i] * 2 ** 32) + buf.readUInt32BE(i + 1)) / TICKS;
+    i += 5;
+  }
+  const upidLength = buf[i + 1];
+  i += 2 + upidLength;
+  if (i >= end) return null;
+  return { eventId, cancelled: false, durationSec, segmentationTypeId: buf[i] };
+}
+
+/**
+ * Decodes a splice_info_section (table_id 0xFC); null when it isn't one, is encrypted, truncated
+ * or otherwise malformed. ptsSec includes pts_adjustment.
+ */
+function parseSpliceInfo(buf) {
+  if (!buf || buf.length < 17 || buf[0] !== 0xfc) return null;
+  const sectionEnd = 3 + (((buf[1] & 0x0f) << 8) | buf[2]);
+  if (sectionEnd > buf.length || buf[4] & 0x80) return null;
+  try {
+    return decodeSection(buf.subarray(0, sectionEnd));
+  } catch (e) {
+    // a length field pointing past the section's end
+    if (e instanceof RangeError) return null;
+    throw e;
+  }
+}
+
+function decodeSection(buf) {
+  const sectionEnd = buf.length;
+  const ptsAdjustment = read33(buf, 4);
+  const commandLength = ((buf[11] & 0x0f) << 8) | buf[12];
+  // the command and the CRC have to fit (0xfff = length not given)
+  if (commandLength !== 0xfff && 14 + commandLength > sectionEnd - 4) return null;
+  const commandType = buf[13];
+  const command = COMMANDS[commandType] || `command 0x${commandType.toString(16)}`;
+  const cue = { command, kind: 'SIGNAL', eventId: null, durationSec: null, ptsSec: null, segmentationTypeId: null, cancelled: false, immediate: false };
+  let i = 14;
+
+  if (commandType === 0x05) {
+    cue.eventId = buf.readUInt32BE(i);
+    cue.cancelled = Boolean(buf[i + 4] & 0x80);
+    i += 5;
+    if (!cue.cancelled) {
+      const flags = buf[i++];
+      const outOfNetwork = Boolean(flags & 0x80);
+      const programSplice = Boolean(flags & 0x40);
+      cue.immediate = Boolean(flags & 0x10);
+      cue.kind = outOfNetwork ? 'OUT' : 'IN';
+      if (programSplice && !cue.immediate) {
+        const t = spliceTime(buf, i);
+        if (t.pts !== null) cue.ptsSec = ((t.pts + ptsAdjustment) % PTS_WRAP) / TICKS;
+        i = t.next;
+      } else if (!programSplice) {
+        const components = buf[i++];
+        i += components * (cue.immediate ? 1 : 6);
+      }
+      if (flags & 0x20) cue.durationSec = read33(buf, i) / TICKS;
+    }
+  } else if (commandType === 0x06) {
+    const t = spliceTime(buf, i);
+    if (t.pts !== null) cue.ptsSec = ((t.pts + ptsAdjustment) % PTS_WRAP) / TICKS;
+  }
+
+  // descriptor loop after the command: time_signal cues say what they mean in a segmentation_descriptor
+  let d = 14 + (commandLength === 0xfff ? 0 : commandLength);
+  if (commandLength !== 0xfff && d + 2 <= sectionEnd) {
+    const loopEnd = Math.min(sectionEnd - 4, d + 2 + buf.readUInt16BE(d));
+    d += 2;
+    while (d + 6 <= loopEnd) {
+      const tag = buf[d];
+      const length = buf[d + 1];
+      if (tag === 0x02) {
+        const seg = segmentationDescriptor(buf, d + 6, d + 2 + length);
+        if (seg && !seg.cancelled) {
+          cue.segmentationTypeId = seg.segmentationTypeId;
+          if (cue.eventId === null) cue.eventId = seg.eventId;
+          if (cue.durationSec === null) cue.durationSec = seg.durationSec;
+          const known = SEGMENTATION_TYPES[seg.segmentationTypeId];
+          if (known && commandType === 0x06) cue.kind = known[1];
+        }
+        break;
+      }
+      d += 2 + length;
+    }
+  }
+  return cue;
+}
+
+function describe(cue) {
+  const parts = [cue.command];
+  const seg = cue.segmentationTypeId !== null ? SEGMENTATION_TYPES[cue.segmentationTypeId] : null;
+  if (seg) parts.push(seg[0]);
+  else if (cue.segmentationTypeId !== null) parts.push(`segmentation type 0x${cue.segmentationTypeId.toString(16)}`);
+  if (cue.command === 'splice_insert' && !cue.cancelled) parts.push(cue.kind === 'OUT' ? 'out of network' : 'return to network');
+  if (cue.cancelled) parts.push('cancelled');
+  if (cue.eventId !== null) parts.push(`event ${cue.eventId}`);
+  if (cue.durationSec !== null) parts.push(`${cue.durationSec.toFixed(1)}s`);
+  if (cue.immediate) parts.push('immediate');
+  else if (cue.ptsSec !== null) parts.push(`PTS ${cue.ptsSec.toFixed(3)}`);
+  return parts.join(' · ');
+}
+
+const attributes = (list) => {
+  const out = {};
+  const re = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let m;
+  while ((m = re.exec(list))) out[m[1]] = m[2].replace(/^"|"$/g, '');
+  return out;
+};
+
+const hexSection = (hex) => {
+  const clean = String(hex || '').replace(/^0x/i, '');
+  return /^[0-9a-f]+$/i.test(clean) && clean.length % 2 === 0 ? Buffer.from(clean, 'hex') : null;
+};
+
+// Cue tags of a media playlist as [{ key, cue }], key identifying the tag across polls
+function playlistCues(text) {
+  const found = [];
+  const pending = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line.startsWith('#EXT-X-CUE-OUT:') || line === '#EXT-X-CUE-OUT') {
+      const value = line.slice(15);
+      const duration = parseFloat(/DURATION=([\d.]+)/.exec(value)?.[1] ?? value);
+      pending.push({ command: 'cue-out', kind: 'OUT', durationSec: Number.isFinite(duration) ? duration : null });
+    } else if (line === '#EXT-X-CUE-IN' || line.startsWith('#EXT-X-CUE-IN:')) {
+      pending.push({ command: 'cue-in', kind: 'IN', durationSec: null });
+    } else if (line.startsWith('#EXT-X-DATERANGE:')) {
+      const attrs = attributes(line.slice(17));
+      const binary = attrs['SCTE35-OUT'] || attrs['SCTE35-IN'] || attrs['SCTE35-CMD'];
+      if (!binary) continue;
+      const kind = attrs['SCTE35-OUT'] ? 'OUT' : attrs['SCTE35-IN'] ? 'IN' : 'SIGNAL';
+      const decoded = parseSpliceInfo(hexSection(binary));
+      const duration = parseFloat(attrs.DURATION || attrs['PLANNED-DURATION']);
+      found.push({
+        key: `daterange:${attrs.ID}:${kind}`,
+        cue: {
+          ...(decoded || { command: 'daterange', eventId: null, ptsSec: null, segmentationTypeId: null, cancelled: false, immediate: false }),
+          kind: decoded && kind === 'SIGNAL' ? decoded.kind : kind,
+          durationSec: Number.isFinite(duration) ? duration : decoded ? decoded.durationSec : null,
+          dateRangeId: attrs.ID || null,
+          startDate: attrs['START-DATE'] || null,
+        },
+      });
+    } else if (line && !line.startsWith('#')) {
+      // CUE-OUT / CUE-IN apply to the segment that follows them
+      for (const cue of pending.splice(0)) found.push({ key: `${cue.command}:${line}`, cue: { ...cue, eventId: null, ptsSec: null, segmentationTypeId: null, cancelled: false, immediate: false } });
+    }
+  }
+  return found;
+}
+
+// onCue(streamId, cue) gets every new cue
+function createCueReader({ onCue }) {
+  const seen = new Map(); // streamId -> Set of HLS cue keys already reported
+
+  const emit = (streamId, origin, cue) => {
+    const { cancelled, immediate, dateRangeId, startDate, ...fields } = cue;
+    const full = { time: Date.now(), origin, ...fields, detail: describe(cue) };
+    if (dateRangeId) full.detail += ` · ${dateRangeId}`;
+    try { onCue(streamId, full); } catch (e) { console.error('SCTE-35 cue handler failed', e); }
+  };
+
+  return {
+    // a complete splice_info_section from the SCTE-35 PID of a TS input
+    section(streamId, buf) {
+      const cue = parseSpliceInfo(buf);
+      // splice_null is the keep-alive some encoders send every few seconds
+      if (cue && cue.command !== 'splice_null') emit(streamId, 'ts', cue);
+    },
+    // an HLS input's media playlist; the first poll only records what is already listed
+    playlist(streamId, text, first) {
+      let keys = seen.get(streamId);
+      if (!keys) {
+        keys = new Set();
+        seen.set(streamId, keys);
+      }
+      for (const { key, cue } of playlistCues(text)) {
+        if (keys.has(key)) continue;
+        keys.add(key);
+        if (!first) emit(streamId, 'hls', cue);
+      }
+      if (keys.size > MAX_SEEN_KEYS) Array.from(keys).slice(0, keys.size - MAX_SEEN_KEYS).forEach((k) => keys.delete(k));
+    },
+    forget: (streamId) => seen.delete(streamId),
+  };
+}
+
+module.exports = { createCueReader, parseSpliceInfo };
@@ -0,0 +1,122 @@
+// server/telemetry.js
+// Alarms on the transcoder's own -progress output. ffmpeg's speed= is averaged over the whole run
+// (and with -re never climbs back above 1.0 after a stall), so the realtime speed is measured
+// here as output time gained per wall-clock second over the last SPEED_WINDOW_SEC. A stream is
+// SLOW once that stays below MIN_SPEED for SLOW_SEC, and DROPPED_FRAMES when a DROP_WINDOW_SEC
+// window drops at least DROP_SPIKE frames and several times its usual rate.
+
+// TELEMETRY_ALARMS=off still measures speed but raises no faults
+const ENABLED = String(process.env.TELEMETRY_ALARMS || 'on').toLowerCase() !== 'off';
+// Below real time is below 1.0x; the default leaves 5% for the jitter of a SPEED_WINDOW_SEC
+// measurement (output time advances in packet and GOP steps), so a transcoder keeping up
+// exactly never alarms. TELEMETRY_MIN_SPEED=1 makes the threshold strict.
+const MIN_SPEED = Number(process.env.TELEMETRY_MIN_SPEED || 0.95);
+const SLOW_SEC = Number(process.env.TELEMETRY_SLOW_SEC || 10);
+const DROP_WINDOW_SEC = Number(process.env.TELEMETRY_DROP_WINDOW_SEC || 10);
+const DROP_SPIKE = Number(process.env.TELEMETRY_DROP_SPIKE || 25);
+const SPEED_WINDOW_SEC = 5;
+// A window is a spike when it drops more than this many times the running baseline
+const DROP_SPIKE_FACTOR = 3;
+const BASELINE_WEIGHT = 0.2;
+
+// onEvent gets { streamId, event: 'SLOW'|'DROPPED_FRAMES'|'RECOVERED', fault, start, end, duration, message }
+function createProgressMonitor({ onEvent }) {
+  const streams = new Map(); // streamId -> { samples: [{ at, outTimeSec }], slow, drops }
+
+  const emit = (streamId, event, fault, start, end, message) => {
+    const duration = end === null ? null : Math.max(0, end - start);
+    try { onEvent({ streamId, event, fault, start, end, duration, message }); } catch (e) { console.error('Telemetry event handler failed', e); }
+  };
+
+  // Output seconds per wall-clock second over the window, null until it spans 2s
+  function measureSpeed(state, outTimeSec, now) {
+    const last = state.samples[state.samples.length - 1];
+    // a restarted ffmpeg counts its output time from zero again
+    if (last && outTimeSec < last.outTimeSec) state.samples = [];
+    state.samples.push({ at: now, outTimeSec });
+    while (state.samples.length > 2 && now - state.samples[1].at >= SPEED_WINDOW_SEC * 1000) state.samples.shift();
+    const first = state.samples[0];
+    const spanSec = (now - first.at) / 1000;
+    if (spanSec < 2) return null;
+    return Math.round(((outTimeSec - first.outTimeSec) / spanSec) * 100) / 100;
+  }
+
+  function checkSpeed(streamId, state, speed, now) {
+    if (speed === null) return;
+    if (speed < MIN_SPEED) {
+      if (!state.slow) state.slow = { since: now, raised: false };
+      if (!state.slow.raised && now - state.slow.since >= SLOW_SEC * 1000) {
+        state.slow.raised = true;
+        emit(streamId, 'SLOW', 'SLOW', state.slow.since, null, `Transcoder running at ${speed.toFixed(2)}x real time`);
+      }
+      return;
+    }
+    if (state.slow && state.slow.raised) {
+      emit(streamId, 'RECOVERED', 'SLOW', state.slow.since, now, `Transcoder back to real time after ${((now - state.slow.since) / 1000).toFixed(1)}s`);
+    }
+    state.slow = null;
+  }
+
+  function checkDrops(streamId, state, dropFrames, now) {
+    const d = state.drops;
+    if (d.windowStart === null || dropFrames < d.windowDrops) {
+      // first sample, or a restarted ffmpeg counting from zero again
+      d.windowStart = now;
+      d.windowDrops = dropFrames;
+      return;
+    }
+    if (now - d.windowStart < DROP_WINDOW_SEC * 1000) return;
+    const dropped = dropFrames - d.windowDrops;
+    const spike = d.baseline !== null && dropped >= DROP_SPIKE && dropped > d.baseline * DROP_SPIKE_FACTOR;
+    if (spike && !d.raised) {
+      d.raised = { since: d.windowStart };
+      emit(streamId, 'DROPPED_FRAMES', 'DROPPED_FRAMES', d.windowStart, null, `${dropped} frames dropped in ${DROP_WINDOW_SEC}s`);
+    } else if (!spike && d.raised) {
+      emit(streamId, 'RECOVERED', 'DROPPED_FRAMES', d.raised.since, now, `Frame drops back to normal after ${((now - d.raised.since) / 1000).toFixed(1)}s`);
+      d.raised = null;
+    }
+    // the first window only seeds the baseline; spikes don't move it
+    if (d.baseline === null) d.baseline = dropped;
+    else if (!spike) d.baseline = d.baseline * (1 - BASELINE_WEIGHT) + dropped * BASELINE_WEIGHT;
+    d.windowStart = now;
+    d.windowDrops = dropFrames;
+  }
+
+  // progress: the parsed -progress block ({ outTimeSec, dropFrames, ended, ... }); returns the
+  // realtime speed, or null while it can't be measured yet
+  function update(streamId, progress, now = Date.now()) {
+    let state = streams.get(streamId);
+    if (!state) {
+      state = { samples: [], slow: null, drops: { windowStart: null, windowDrops: 0, baseline: null, raised: null } };
+      streams.set(streamId, state);
+    }
+    // input finished: output time no longer advances with the clock
+    if (progress.ended) {
+      state.samples = [];
+      return null;
+    }
+    const speed = Number.isFinite(progress.outTimeSec) ? measureSpeed(state, progress.outTimeSec, now) : null;
+    if (ENABLED) {
+      checkSpeed(streamId, state, speed, now);
+      if (Number.isFinite(progress.dropFrames)) checkDrops(streamId, state, progress.dropFrames, now);
+    }
+    return speed;
+  }
+
+  // the stream was removed; its raised faults get their RECOVERED now
+  function forget(streamId, now = Date.now()) {
+    const state = streams.get(streamId);
+    if (!state) return;
+    streams.delete(streamId);
+    if (state.slow && state.slow.raised) {
+      emit(streamId, 'RECOVERED', 'SLOW', state.slow.since, now, `Transcoder slow for ${((now - state.slow.since) / 1000).toFixed(1)}s until it stopped`);
+    }
+    if (state.drops.raised) {
+      emit(streamId, 'RECOVERED', 'DROPPED_FRAMES', state.drops.raised.since, now, `Frame drops for ${((now - state.drops.raised.since) / 1000).toFixed(1)}s until the transcoder stopped`);
+    }
+  }
+
+  return { update, forget };
+}
+
+module.exports = { createProgressMonitor };
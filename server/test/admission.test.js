@@ -0,0 +1,69 @@
+const test = require('node:test');
+const assert = require('node:assert');
+
+const { createAdmission } = require('../admission');
+
+// running: streamId -> owner of the transcoders already up
+function setup(limits, running = {}, cpu = { pct: 10 }) {
+  const admitter = createAdmission({
+    running: () => Object.keys(running),
+    ownerOf: (id) => running[id],
+    hostCpu: () => cpu.pct,
+    limits: { maxTranscodes: 0, userMaxTranscodes: 0, maxCpu: 90, ...limits },
+  });
+  return { admitter, running, cpu };
+}
+
+const alice = { username: 'alice', role: 'user' };
+const bob = { username: 'bob', role: 'user' };
+
+test('streams queue in order for the global limit and start as slots free up', () => {
+  const { admitter, running } = setup({ maxTranscodes: 2 }, { a: 'alice' });
+
+  assert.strictEqual(admitter.admit('b', alice), null);
+  // admitted but not spawned yet: holds its slot
+  assert.deepStrictEqual(admitter.counts('alice'), { total: 2, own: 2 });
+
+  const first = admitter.admit('c', bob);
+  assert.deepStrictEqual(first, {
+    error: 'Server transcoder limit reached (2/2); queued', reason: 'global', limit: 2, queuePosition: 1, queueLength: 1, retryAfterSec: 5,
+  });
+  assert.strictEqual(admitter.admit('d', bob).queuePosition, 2);
+
+  // b's transcoder is up, a stops: one slot, and it is c's
+  running.b = 'alice';
+  admitter.done('b');
+  delete running.a;
+  assert.strictEqual(admitter.admit('d', bob).queuePosition, 2);
+  assert.strictEqual(admitter.admit('c', bob), null);
+  assert.strictEqual(admitter.admit('d', bob).reason, 'global');
+  assert.deepStrictEqual(admitter.stats(), { maxTranscodes: 2, userMaxTranscodes: 0, maxCpu: 90, hostCpu: 10, transcodes: 2, queued: 1 });
+});
+
+test('a user at their quota is refused without a queue slot; admins are exempt', () => {
+  const { admitter } = setup({ userMaxTranscodes: 1 }, { a: 'alice' });
+
+  const refused = admitter.admit('b', alice);
+  assert.strictEqual(refused.reason, 'user');
+  assert.strictEqual(refused.queuePosition, null);
+  assert.strictEqual(admitter.stats().queued, 0);
+
+  assert.strictEqual(admitter.admit('c', bob), null);
+  assert.strictEqual(admitter.admit('d', { username: 'alice', role: 'admin' }), null);
+});
+
+test('a busy host queues new streams until CPU drops; queue entries that stop polling expire', (t) => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const { admitter, cpu } = setup({}, {}, { pct: 95 });
+
+  assert.deepStrictEqual([admitter.admit('a', alice).reason, admitter.admit('b', bob).reason], ['cpu', 'cpu']);
+  assert.strictEqual(admitter.admit('b', bob).queuePosition, 2);
+
+  // a gave up; b keeps polling
+  t.mock.timers.tick(20_000);
+  admitter.admit('b', bob);
+  t.mock.timers.tick(20_000);
+  cpu.pct = 40;
+  assert.strictEqual(admitter.admit('b', bob), null);
+  assert.strictEqual(admitter.stats().queued, 0);
+});
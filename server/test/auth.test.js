@@ -0,0 +1,99 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const crypto = require('crypto');
+const http = require('http');
+const path = require('path');
+const jwt = require('jsonwebtoken');
+
+const HS_SECRET = 'supabase-test-secret';
+const LEGACY_SECRET = 'legacy-test-secret';
+const es256 = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const otherEs256 = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+// Stands in for the Supabase project: the JWKS endpoint and the profiles table
+let supabase;
+let supabaseUrl;
+test.before(async () => {
+  supabase = http.createServer((req, res) => {
+    const url = new URL(req.url, 'http://localhost');
+    res.setHeader('Content-Type', 'application/json');
+    if (url.pathname === '/auth/v1/.well-known/jwks.json') {
+      res.end(JSON.stringify({ keys: [{ ...es256.publicKey.export({ format: 'jwk' }), kid: 'k1', alg: 'ES256' }] }));
+    } else if (url.pathname === '/rest/v1/profiles') {
+      res.end(JSON.stringify(url.searchParams.get('id') === 'eq.admin-id' ? [{ username: 'alice', role: 'admin', roles: {} }] : []));
+    } else {
+      res.statusCode = 404;
+      res.end('{}');
+    }
+  });
+  await new Promise((resolve) => supabase.listen(0, '127.0.0.1', resolve));
+  supabaseUrl = `http://127.0.0.1:${supabase.address().port}`;
+});
+test.after(() => supabase.close());
+
+// auth.js reads its configuration when loaded: a fresh copy per environment
+function loadAuth(env) {
+  const keys = ['AUTH_MODE', 'SUPABASE_URL', 'SUPABASE_ANON_KEY', 'SUPABASE_JWT_SECRET', 'JWT_SECRET'];
+  const saved = Object.fromEntries(keys.map((k) => [k, process.env[k]]));
+  keys.forEach((k) => delete process.env[k]);
+  Object.assign(process.env, { SUPABASE_URL: supabaseUrl, SUPABASE_ANON_KEY: 'anon', ...env });
+  const file = path.join(__dirname, '..', 'auth.js');
+  delete require.cache[file];
+  try {
+    return require(file);
+  } finally {
+    keys.forEach((k) => (saved[k] === undefined ? delete process.env[k] : (process.env[k] = saved[k])));
+  }
+}
+
+const supabaseToken = (claims = {}, { key = HS_SECRET, algorithm = 'HS256', keyid } = {}) =>
+  jwt.sign({ sub: 'user-id', email: 'user@example.com', aud: 'authenticated', iss: `${supabaseUrl}/auth/v1`, ...claims }, key, { algorithm, ...('exp' in claims ? {} : { expiresIn: '1h' }), ...(keyid ? { keyid } : {}) });
+const es256Token = (claims = {}, privateKey = es256.privateKey, keyid = 'k1') => supabaseToken(claims, { key: privateKey, algorithm: 'ES256', keyid });
+
+test('HS256 Supabase token with the profile role', async () => {
+  const { verifyToken } = loadAuth({ AUTH_MODE: 'supabase', SUPABASE_JWT_SECRET: HS_SECRET });
+  const user = await verifyToken(supabaseToken());
+  assert.strictEqual(user.id, 'user-id');
+  assert.strictEqual(user.username, 'user@example.com');
+  assert.strictEqual(user.role, 'user');
+
+  const admin = await verifyToken(supabaseToken({ sub: 'admin-id' }));
+  assert.strictEqual(admin.username, 'alice');
+  assert.strictEqual(admin.role, 'admin');
+  assert.strictEqual(admin.roles.anything, true);
+});
+
+test('ES256 Supabase token verified against the JWKS', async () => {
+  const { verifyToken } = loadAuth({ AUTH_MODE: 'supabase' });
+  const user = await verifyToken(es256Token());
+  assert.strictEqual(user.id, 'user-id');
+});
+
+test('expired, wrong-audience, wrong-issuer and badly signed tokens are rejected', async () => {
+  const { verifyToken } = loadAuth({ AUTH_MODE: 'supabase', SUPABASE_JWT_SECRET: HS_SECRET });
+  await assert.rejects(verifyToken(supabaseToken({ exp: Math.floor(Date.now() / 1000) - 60 })), { name: 'TokenExpiredError' });
+  await assert.rejects(verifyToken(es256Token({ exp: Math.floor(Date.now() / 1000) - 60 })), { name: 'TokenExpiredError' });
+  await assert.rejects(verifyToken(supabaseToken({ aud: 'anon' })), /audience invalid/);
+  await assert.rejects(verifyToken(supabaseToken({ iss: 'https://elsewhere.supabase.co/auth/v1' })), /issuer invalid/);
+  await assert.rejects(verifyToken(supabaseToken({}, { key: 'not-the-secret' })), /invalid signature/);
+  await assert.rejects(verifyToken(es256Token({}, otherEs256.privateKey)), /invalid signature/);
+  await assert.rejects(verifyToken(es256Token({ aud: 'anon' })), /audience invalid/);
+  await assert.rejects(verifyToken(es256Token({}, es256.privateKey, 'unknown')), /Unknown signing key/);
+  await assert.rejects(verifyToken('not.a.token'), /Malformed token/);
+});
+
+test('AUTH_MODE=supabase does not accept users.json tokens', async () => {
+  const { verifyToken } = loadAuth({ AUTH_MODE: 'supabase', SUPABASE_JWT_SECRET: HS_SECRET });
+  await assert.rejects(verifyToken(jwt.sign({ username: 'admin', role: 'admin' }, LEGACY_SECRET)));
+});
+
+test('AUTH_MODE=both falls back to users.json tokens', async () => {
+  const { verifyToken } = loadAuth({ AUTH_MODE: 'both', SUPABASE_JWT_SECRET: HS_SECRET, JWT_SECRET: LEGACY_SECRET });
+  const legacy = await verifyToken(jwt.sign({ username: 'bob', role: 'user', roles: { canDownload: true } }, LEGACY_SECRET));
+  assert.strictEqual(legacy.username, 'bob');
+  assert.strictEqual(legacy.roles.canDownload, true);
+  const fromSupabase = await verifyToken(supabaseToken());
+  assert.strictEqual(fromSupabase.id, 'user-id');
+  await assert.rejects(verifyToken(jwt.sign({ username: 'bob' }, 'neither-secret')), /invalid signature/);
+  await assert.rejects(verifyToken(jwt.sign({ username: 'bob', exp: Math.floor(Date.now() / 1000) - 60 }, LEGACY_SECRET)), { name: 'TokenExpiredError' });
+});
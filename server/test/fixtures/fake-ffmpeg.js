@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+// Stand-in for ffmpeg in the restream tests: connects to the output URL's host:port (the test's
+// RTMP sink), prints -progress blocks, and on 'q' lingers briefly like ffmpeg writing its trailer.
+const net = require('net');
+
+const target = new URL(process.argv[process.argv.length - 1]);
+const socket = net.connect(Number(target.port), target.hostname);
+socket.on('error', () => process.exit(1));
+
+let size = 0;
+const progress = setInterval(() => {
+  size += 125_000;
+  socket.write(Buffer.alloc(1024));
+  process.stdout.write(`total_size=${size}\nprogress=continue\n`);
+}, 100);
+
+process.stdin.on('data', (chunk) => {
+  if (!chunk.toString().includes('q')) return;
+  clearInterval(progress);
+  setTimeout(() => socket.end(() => process.exit(0)), Number(process.env.FAKE_FFMPEG_QUIT_MS || 500));
+});
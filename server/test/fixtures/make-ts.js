@@ -0,0 +1,114 @@
+// server/test/fixtures/make-ts.js
+// Writes the MPEG-TS fixtures of test/tsanalyzer.test.js: one program (PMT on 0x1000) with a
+// video PID (0x100) and a SCTE-35 PID (0x1f0), each file carrying one kind of TR 101 290 error.
+// Run `node test/fixtures/make-ts.js` after changing it; the .ts files are committed.
+const fs = require('fs');
+const path = require('path');
+
+const PACKET = 188;
+const PMT_PID = 0x1000;
+const VIDEO_PID = 0x100;
+const SCTE35_PID = 0x1f0;
+// time_signal with a Provider Placement Opportunity Start segmentation_descriptor (SCTE 35 sample)
+const TIME_SIGNAL = Buffer.from('/DA0AAAAAAAA///wBQb+cr0AUAAeAhxDVUVJSAAAjn/PAAEUrEoICAAAAAAs5BbBNAAAPo8qKA==', 'base64');
+
+// CRC-32/MPEG-2 of a PSI section
+function crc32(buf) {
+  let crc = 0xffffffff;
+  for (const byte of buf) {
+    crc ^= byte << 24;
+    for (let i = 0; i < 8; i++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  }
+  return crc >>> 0;
+}
+
+// table_id + section_length + body + CRC
+function section(tableId, body) {
+  const head = Buffer.from([tableId, 0xb0 | ((body.length + 4) >> 8), (body.length + 4) & 0xff]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([head, body])));
+  return Buffer.concat([head, body, crc]);
+}
+
+const pat = (tableId = 0x00) => section(tableId, Buffer.from([0x00, 0x01, 0xc1, 0x00, 0x00, 0x00, 0x01, 0xe0 | (PMT_PID >> 8), PMT_PID & 0xff]));
+const pmt = (tableId = 0x02) => section(tableId, Buffer.from([
+  0x00, 0x01, 0xc1, 0x00, 0x00,
+  0xe0 | (VIDEO_PID >> 8), VIDEO_PID & 0xff, 0xf0, 0x00,
+  0x1b, 0xe0 | (VIDEO_PID >> 8), VIDEO_PID & 0xff, 0xf0, 0x00,
+  0x86, 0xe0 | (SCTE35_PID >> 8), SCTE35_PID & 0xff, 0xf0, 0x00,
+]));
+
+// One packet; payload is padded with 0xff, adaptation = the adaptation field's bytes after its length
+function packet(pid, cc, payload, { pusi = false, adaptation = null } = {}) {
+  const pkt = Buffer.alloc(PACKET, 0xff);
+  pkt[0] = 0x47;
+  pkt[1] = (pusi ? 0x40 : 0) | (pid >> 8);
+  pkt[2] = pid & 0xff;
+  pkt[3] = (adaptation ? 0x30 : 0x10) | (cc & 0x0f);
+  let offset = 4;
+  if (adaptation) {
+    pkt[4] = adaptation.length;
+    adaptation.copy(pkt, 5);
+    offset = 5 + adaptation.length;
+  }
+  payload.copy(pkt, offset);
+  return pkt;
+}
+
+// A section in a single packet, after a zero pointer_field
+const psiPacket = (pid, cc, sec) => packet(pid, cc, Buffer.concat([Buffer.from([0]), sec]), { pusi: true });
+const videoPacket = (cc, adaptation = null) => packet(VIDEO_PID, cc, Buffer.from([0x00, 0x00, 0x01, 0xe0]), { adaptation });
+
+// groups x (PAT, PMT, 3 video); edit(group, packets, cc) may change a group before it is added
+function stream(groups, edit = () => {}) {
+  const out = [];
+  const cc = { pat: 0, pmt: 0, video: 0 };
+  for (let g = 0; g < groups; g++) {
+    const pkts = [psiPacket(0, cc.pat++, pat()), psiPacket(PMT_PID, cc.pmt++, pmt())];
+    for (let i = 0; i < 3; i++) pkts.push(videoPacket(cc.video++));
+    edit(g, pkts, cc);
+    out.push(...pkts);
+  }
+  return Buffer.concat(out);
+}
+
+const FIXTURES = {
+  'clean.ts': () => stream(10),
+  // group 4: one video packet repeated (allowed once), group 6: a jump flagged as a
+  // discontinuity (allowed), group 8: a two-packet jump (one error)
+  'cc-error.ts': () => stream(10, (g, pkts, cc) => {
+    if (g === 4) pkts.splice(3, 0, Buffer.from(pkts[2]));
+    if (g === 6) {
+      cc.video += 5;
+      pkts[4] = videoPacket(cc.video - 1, Buffer.from([0x80]));
+    }
+    if (g === 8) {
+      pkts[4] = videoPacket(cc.video + 1);
+      cc.video += 2;
+    }
+  }),
+  // one corrupted sync byte: an error, but sync holds (the packet itself is skipped)
+  'sync-byte-error.ts': () => stream(10, (g, pkts) => { if (g === 5) pkts[3][0] = 0x00; }),
+  // two corrupted sync bytes in a row: sync lost, reacquired 5 packets later
+  'sync-loss.ts': () => stream(10, (g, pkts) => {
+    if (g === 5) {
+      pkts[2][0] = 0x00;
+      pkts[3][0] = 0x00;
+    }
+  }),
+  'pat-error.ts': () => stream(10, (g, pkts) => { if (g === 5) pkts[0] = psiPacket(0, 5, pat(0x02)); }),
+  'pmt-error.ts': () => stream(10, (g, pkts) => { if (g === 5) pkts[1] = psiPacket(PMT_PID, 5, pmt(0x00)); }),
+  // the time_signal split over two packets, the first one mostly adaptation field
+  'scte35.ts': () => {
+    const payload = Buffer.concat([Buffer.from([0]), TIME_SIGNAL]);
+    const first = packet(SCTE35_PID, 0, payload.subarray(0, 40), { pusi: true, adaptation: Buffer.alloc(PACKET - 5 - 40, 0xff).fill(0x00, 0, 1) });
+    const second = packet(SCTE35_PID, 1, payload.subarray(40));
+    return Buffer.concat([stream(5), first, second]);
+  },
+};
+
+if (require.main === module) {
+  for (const [name, build] of Object.entries(FIXTURES)) fs.writeFileSync(path.join(__dirname, name), build());
+}
+
+module.exports = { PACKET, PMT_PID, VIDEO_PID, SCTE35_PID, TIME_SIGNAL };
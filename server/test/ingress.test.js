@@ -0,0 +1,98 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const dgram = require('dgram');
+const http = require('http');
+const { PassThrough } = require('stream');
+const { EventEmitter } = require('events');
+
+process.env.INPUT_SAMPLE_SEC = '0.2';
+const { createIngressMeter } = require('../ingress');
+
+const until = async (check, ms = 5000) => {
+  const end = Date.now() + ms;
+  while (!check()) {
+    if (Date.now() > end) throw new Error('timed out');
+    await new Promise((r) => setTimeout(r, 20));
+  }
+};
+
+// What attach() needs of a spawned ffmpeg
+const fakeFfmpeg = () => Object.assign(new EventEmitter(), { stdin: new PassThrough() });
+
+test('a unicast UDP input is relayed to ffmpeg, counted and handed to the analyzer', async () => {
+  const samples = [];
+  const data = [];
+  const meter = createIngressMeter({
+    onSample: (id, mbps) => samples.push({ id, mbps }),
+    onData: (id, chunk) => data.push({ id, bytes: chunk.length }),
+  });
+  // a free port for the relay to bind
+  const probe = dgram.createSocket('udp4');
+  await new Promise((resolve) => probe.bind(0, '127.0.0.1', resolve));
+  const { port } = probe.address();
+  probe.close();
+
+  const ingest = meter.open('udp-stream', `udp://127.0.0.1:${port}`);
+  assert.deepStrictEqual(ingest.inputArgs, ['-f', 'mpegts', '-i', 'pipe:0']);
+  const ffmpeg = fakeFfmpeg();
+  let piped = 0;
+  ffmpeg.stdin.on('data', (chunk) => { piped += chunk.length; });
+  ingest.attach(ffmpeg);
+
+  const sender = dgram.createSocket('udp4');
+  const packet = Buffer.alloc(7 * 188, 0x47);
+  // the relay binds asynchronously: keep sending until it has received something
+  await until(() => {
+    sender.send(packet, port, '127.0.0.1');
+    return data.length >= 3;
+  });
+  await until(() => samples.some((s) => s.mbps > 0));
+  sender.close();
+  ffmpeg.emit('close');
+
+  assert.ok(data.every((d) => d.id === 'udp-stream' && d.bytes === packet.length));
+  assert.strictEqual(piped % packet.length, 0);
+  assert.ok(piped >= 3 * packet.length);
+});
+
+test('UDP inputs are measured without opting in, RTSP is left to ffmpeg', () => {
+  const meter = createIngressMeter({ onSample: () => {} });
+  const udp = meter.open('a', 'udp://127.0.0.1:0');
+  assert.ok(udp);
+  udp.close();
+  assert.strictEqual(meter.open('b', 'rtsp://camera/stream'), null);
+});
+
+test('an HLS input is sampled from its playlist and the playlists are handed on', async () => {
+  let mediaSequence = 0;
+  const server = http.createServer((req, res) => {
+    if (req.url === '/master.m3u8') {
+      res.end('#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=800000\nlow.m3u8\n#EXT-X-STREAM-INF:BANDWIDTH=3000000\nhigh.m3u8\n');
+    } else if (req.url === '/high.m3u8') {
+      const n = mediaSequence++;
+      // 1 s segments of 500000 bytes: 4 Mbps
+      res.end(`#EXTM3U\n#EXT-X-TARGETDURATION:1\n#EXT-X-MEDIA-SEQUENCE:${n}\n#EXTINF:1.0,\n#EXT-X-BYTERANGE:500000@0\nseg${n}.ts\n#EXTINF:1.0,\n#EXT-X-BYTERANGE:500000@0\nseg${n + 1}.ts\n`);
+    } else {
+      res.statusCode = 404;
+      res.end();
+    }
+  });
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const samples = [];
+  const playlists = [];
+  const meter = createIngressMeter({
+    onSample: (id, mbps) => samples.push(mbps),
+    onPlaylist: (id, text, first) => playlists.push({ id, first }),
+  });
+  const ingest = meter.open('hls', `http://127.0.0.1:${server.address().port}/master.m3u8`);
+  assert.strictEqual(ingest.inputArgs, null);
+  try {
+    await until(() => samples.length >= 2);
+  } finally {
+    ingest.close();
+    server.close();
+  }
+  assert.ok(samples.every((mbps) => mbps === 4));
+  assert.strictEqual(playlists[0].first, true);
+  assert.ok(playlists.slice(1).every((p) => p.id === 'hls' && !p.first));
+});
@@ -0,0 +1,42 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'monitors-'));
+process.env.MONITORS_FILE = path.join(dir, 'monitors.json');
+const { createMonitors } = require('../monitors');
+
+test.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const URL_A = 'https://cdn.example.com/live/a/index.m3u8';
+
+test('monitoring runs while any owner has the tile and resumes after a restart', () => {
+  const started = [];
+  const stopped = [];
+  const hooks = { onStart: (e) => started.push(e.streamId), onStop: (e) => stopped.push(e.streamId) };
+  const monitors = createMonitors(hooks);
+
+  const entry = monitors.add(URL_A, { streamName: 'A', owner: 'alice' });
+  monitors.add(URL_A, { owner: 'bob' });
+  assert.deepStrictEqual(started, [entry.streamId]);
+  assert.deepStrictEqual(monitors.get(entry.streamId).owners, ['alice', 'bob']);
+  assert.strictEqual(monitors.get(entry.streamId).streamName, 'A');
+
+  // a server restart: registrations come back from the file
+  monitors.stopAll();
+  assert.deepStrictEqual(stopped, [entry.streamId]);
+  const restarted = createMonitors(hooks);
+  assert.strictEqual(restarted.has(entry.streamId), false);
+  restarted.resume();
+  assert.deepStrictEqual(restarted.ids(), [entry.streamId]);
+  assert.deepStrictEqual(restarted.get(entry.streamId).owners, ['alice', 'bob']);
+
+  assert.deepStrictEqual(restarted.release(entry.streamId, 'alice'), { stopped: false, owners: 1 });
+  assert.strictEqual(restarted.has(entry.streamId), true);
+  assert.deepStrictEqual(restarted.release(entry.streamId, 'bob'), { stopped: true, owners: 0 });
+  assert.strictEqual(restarted.has(entry.streamId), false);
+  assert.strictEqual(restarted.release(entry.streamId, 'bob'), null);
+  assert.deepStrictEqual(createMonitors(hooks).list(), []);
+});
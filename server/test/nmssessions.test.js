@@ -0,0 +1,33 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const EventEmitter = require('events');
+const { createSessionTracker } = require('../nmssessions');
+
+// node-media-server's public surface: on() and getSession()
+function fakeNms() {
+  const events = new EventEmitter();
+  const sessions = new Map();
+  return { sessions, emit: events.emit.bind(events), on: events.on.bind(events), getSession: (id) => sessions.get(id) };
+}
+
+test('sessions are counted from connect events', () => {
+  const nms = fakeNms();
+  const tracker = createSessionTracker(nms);
+  nms.sessions.set('pub', { TAG: 'rtmp', isPublishing: true });
+  nms.sessions.set('play', { TAG: 'flv', isPlaying: true });
+  nms.emit('preConnect', 'pub');
+  nms.emit('preConnect', 'play');
+  nms.emit('preConnect', 'rejected'); // closed without a doneConnect
+
+  const stats = tracker.stats();
+  assert.strictEqual(stats.sessions, 2);
+  assert.strictEqual(stats.publishers, 1);
+  assert.strictEqual(stats.players, 1);
+  assert.deepStrictEqual(stats.byType, { rtmp: 1, flv: 1 });
+  assert.strictEqual(stats.accepted, 3);
+
+  nms.sessions.delete('play');
+  nms.emit('doneConnect', 'play');
+  assert.strictEqual(tracker.stats().sessions, 1);
+  assert.strictEqual(tracker.stats().players, 0);
+});
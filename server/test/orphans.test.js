@@ -0,0 +1,56 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { spawn } = require('child_process');
+
+// `ffmpeg` here is node under another name: idles until killed, its output URL the last argument
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'orphans-'));
+const FFMPEG = path.join(dir, 'ffmpeg');
+fs.symlinkSync(process.execPath, FFMPEG);
+const ffmpegArgs = (output) => ['-e', 'setInterval(() => {}, 1000)', output];
+const running = (pid) => {
+  try { process.kill(pid, 0); return true; } catch (_) { return false; }
+};
+const exited = (proc) => new Promise((resolve) => (proc.exitCode !== null || proc.signalCode ? resolve() : proc.once('exit', resolve)));
+
+const procs = [];
+const start = (output) => {
+  const proc = spawn(FFMPEG, ffmpegArgs(output), { stdio: 'ignore' });
+  procs.push(proc);
+  return proc;
+};
+test.after(() => {
+  for (const proc of procs) try { proc.kill('SIGKILL'); } catch (_) {}
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('only the previous run\'s ffmpegs are reaped', { skip: process.platform === 'win32' }, async () => {
+  const stale = start('rtmp://127.0.0.1/live/a');
+  const foreign = start('rtmp://127.0.0.1/live/b'); // same RTMP server, not ours
+  const reused = start('rtmp://127.0.0.1/live/c'); // a pid the OS handed to something else since
+  process.env.FFMPEG_PIDS_FILE = path.join(dir, 'ffmpeg-pids.json');
+  fs.writeFileSync(process.env.FFMPEG_PIDS_FILE, JSON.stringify([
+    { pid: stale.pid, output: 'rtmp://127.0.0.1/live/a' },
+    { pid: reused.pid, output: 'rtmp://127.0.0.1/live/old' },
+  ]));
+  const orphans = require('../orphans');
+
+  const current = orphans.spawnFfmpeg(FFMPEG, ffmpegArgs('rtmp://127.0.0.1/live/a'), { stdio: 'ignore', role: 'transcoder', streamId: 'a' });
+  procs.push(current);
+  assert.deepStrictEqual(JSON.parse(fs.readFileSync(orphans.PIDS_FILE, 'utf8')), [{ pid: current.pid, output: 'rtmp://127.0.0.1/live/a' }]);
+  assert.deepStrictEqual(orphans.listFfmpegs(), [{ pid: current.pid, role: 'transcoder', streamId: 'a' }]);
+
+  const reaped = orphans.reapOrphans([]);
+  assert.deepStrictEqual(reaped.map((p) => p.pid), [stale.pid]);
+  await exited(stale);
+  assert.ok(running(foreign.pid));
+  assert.ok(running(reused.pid));
+  assert.ok(running(current.pid));
+
+  await orphans.killFfmpeg(current);
+  assert.ok(!running(current.pid));
+  assert.deepStrictEqual(orphans.listFfmpegs(), []);
+  assert.deepStrictEqual(JSON.parse(fs.readFileSync(orphans.PIDS_FILE, 'utf8')), []);
+});
@@ -0,0 +1,43 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'profiles-'));
+process.env.PROFILES_FILE = path.join(dir, 'profiles.json');
+const profiles = require('../profiles');
+
+test.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+test('custom profiles are saved and removed next to the read-only built-ins', () => {
+  assert.deepStrictEqual(profiles.list().map((p) => p.name), ['720p', '480p', 'copy']);
+  assert.strictEqual(profiles.get(profiles.DEFAULT_PROFILE).builtin, true);
+
+  const saved = profiles.save({ name: 'radio', description: 'Audio only', videoCodec: 'copy', audioCodec: 'aac', audioBitrate: '64k', builtin: true });
+  assert.strictEqual(saved.builtin, false);
+  assert.deepStrictEqual(profiles.get('radio'), saved);
+  // replaced, not duplicated
+  profiles.save({ ...saved, audioBitrate: '96k' });
+  assert.deepStrictEqual(profiles.list().map((p) => p.name), ['720p', '480p', 'copy', 'radio']);
+  assert.strictEqual(profiles.get('radio').audioBitrate, '96k');
+
+  // a custom entry can't shadow a built-in, even when written to the file by hand
+  fs.writeFileSync(profiles.PROFILES_FILE, JSON.stringify([...JSON.parse(fs.readFileSync(profiles.PROFILES_FILE, 'utf8')), { name: 'copy', videoCodec: 'libx264' }]));
+  assert.strictEqual(profiles.get('copy').videoCodec, 'copy');
+  assert.strictEqual(profiles.isBuiltin('copy'), true);
+  assert.strictEqual(profiles.remove('copy'), false);
+
+  assert.strictEqual(profiles.remove('radio'), true);
+  assert.strictEqual(profiles.remove('radio'), false);
+  assert.strictEqual(profiles.get('radio'), null);
+});
+
+test('copy profiles remux, encoding profiles get their codec options', () => {
+  assert.deepStrictEqual(profiles.outputArgs(profiles.get('copy')), ['-c:v', 'copy', '-c:a', 'copy']);
+  assert.deepStrictEqual(profiles.outputArgs(profiles.get('480p')), [
+    '-c:v', 'libx264', '-preset', 'ultrafast', '-vf', 'scale=-2:480', '-b:v', '1200k', '-maxrate', '1500k', '-bufsize', '2000k', '-g', '60', '-pix_fmt', 'yuv420p',
+    '-c:a', 'aac', '-b:a', '96k', '-ar', '44100',
+  ]);
+  assert.deepStrictEqual(profiles.outputArgs({ name: 'mute', videoCodec: 'libx264', audioCodec: 'none' }), ['-c:v', 'libx264', '-pix_fmt', 'yuv420p', '-an']);
+});
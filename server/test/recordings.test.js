@@ -0,0 +1,97 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recordings-'));
+process.env.RECORDINGS_DIR = path.join(dir, 'recordings');
+process.env.RECORDING_RETENTION_DAYS = '30';
+// 1000 bytes
+process.env.RECORDING_MAX_GB = String(1000 / 1024 ** 3);
+process.env.FFMPEG_PIDS_FILE = path.join(dir, 'ffmpeg-pids.json');
+const { createRecorder, RECORDINGS_DIR } = require('../recordings');
+
+// `ffmpeg` here notes its arguments and runs until it reads the 'q' that ends a recording
+const FFMPEG = path.join(dir, 'ffmpeg');
+fs.writeFileSync(FFMPEG, `#!/bin/sh\necho "$@" > "${path.join(dir, 'args')}"\nexec head -c 1 > /dev/null\n`, { mode: 0o755 });
+
+test.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const until = async (check, ms = 5000) => {
+  const end = Date.now() + ms;
+  while (!check()) {
+    if (Date.now() > end) throw new Error('timed out');
+    await new Promise((r) => setTimeout(r, 20));
+  }
+};
+
+test('an on-demand recording copies the live output into segments until stopped', { skip: process.platform === 'win32' }, async () => {
+  let live = false;
+  const recorder = createRecorder({ ffmpegPath: FFMPEG, inputFor: () => (live ? 'rtmp://127.0.0.1/live/s1' : null) });
+
+  // no output yet: waits for it
+  const rec = recorder.start('s1', { format: 'mp4', segmentMinutes: 5, by: 'alice' });
+  assert.strictEqual(rec.state, 'waiting');
+  assert.strictEqual(recorder.start('s1'), null);
+  assert.strictEqual(recorder.isRecording('s1'), true);
+  recorder.stop('s1');
+
+  live = true;
+  assert.strictEqual(recorder.start('s1', { format: 'ts', segmentMinutes: 5 }).state, 'recording');
+  await until(() => fs.existsSync(path.join(dir, 'args')));
+  const args = fs.readFileSync(path.join(dir, 'args'), 'utf8');
+  assert.match(args, /-i rtmp:\/\/127\.0\.0\.1\/live\/s1 .*-c copy -f segment -segment_time 300 /);
+  assert.match(args, /-segment_format mpegts /);
+  assert.ok(args.trim().endsWith(path.join(RECORDINGS_DIR, 's1', '%Y%m%d-%H%M%S.ts')));
+
+  assert.strictEqual(recorder.stop('s1'), true);
+  assert.strictEqual(recorder.isRecording('s1'), false);
+  assert.strictEqual(recorder.stop('s1'), false);
+});
+
+test('schedules start when due, end with their window and survive a restart', (t) => {
+  t.mock.timers.enable({ apis: ['setInterval', 'Date'], now: 1_000_000 });
+  const recorder = createRecorder({ ffmpegPath: FFMPEG, inputFor: () => null });
+  const schedule = recorder.addSchedule({ streamId: 's2', startAt: 1_060_000, endAt: 1_120_000, format: 'ts', by: 'bob' });
+  assert.deepStrictEqual(recorder.active(), []);
+
+  // recordings.js is loaded again after a restart: the schedule comes back from schedules.json
+  const restarted = createRecorder({ ffmpegPath: FFMPEG, inputFor: () => null });
+  assert.deepStrictEqual(restarted.schedules(), [schedule]);
+
+  t.mock.timers.tick(60_000);
+  assert.deepStrictEqual(restarted.active().map((r) => [r.streamId, r.scheduleId, r.format, r.endAt, r.state]), [['s2', schedule.id, 'ts', 1_120_000, 'waiting']]);
+
+  t.mock.timers.tick(60_000);
+  assert.deepStrictEqual(restarted.active(), []);
+  assert.deepStrictEqual(restarted.schedules(), []);
+  recorder.stopAll();
+});
+
+test('files are listed with their segment list durations and pruned by age, then by total size', () => {
+  const recorder = createRecorder({ ffmpegPath: FFMPEG, inputFor: () => null });
+  const streamDir = path.join(RECORDINGS_DIR, 's3');
+  fs.mkdirSync(streamDir, { recursive: true });
+  const day = 24 * 60 * 60;
+  const now = Date.now() / 1000;
+  const write = (name, ageSec) => {
+    fs.writeFileSync(path.join(streamDir, name), Buffer.alloc(600));
+    fs.utimesSync(path.join(streamDir, name), now - ageSec, now - ageSec);
+  };
+  write('20240101-000000.mp4', 40 * day);
+  write('20240201-000000.ts', 2 * day);
+  write('20240202-000000.mp4', 60);
+  fs.writeFileSync(path.join(streamDir, '1706745600000.csv'), '20240201-000000.ts,0.000000,900.500000\n');
+
+  const files = recorder.listFiles().filter((f) => f.streamId === 's3');
+  assert.deepStrictEqual(files.map((f) => [f.filename, f.format, f.size, f.duration, f.inProgress]), [
+    ['20240202-000000.mp4', 'mp4', 600, null, false],
+    ['20240201-000000.ts', 'ts', 600, 900.5, false],
+    ['20240101-000000.mp4', 'mp4', 600, null, false],
+  ]);
+
+  // over 30 days old goes first; the remaining 1200 bytes are above the 1000 byte cap: the oldest goes too
+  recorder.sweepRetention();
+  assert.deepStrictEqual(recorder.listFiles().filter((f) => f.streamId === 's3').map((f) => f.filename), ['20240202-000000.mp4']);
+});
@@ -0,0 +1,134 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'resolvers-'));
+process.env.RESOLVERS_FILE = path.join(dir, 'resolvers.json');
+process.env.RESOLVE_TTL_SEC = '600';
+process.env.RESOLVE_REFRESH_SEC = '300';
+fs.writeFileSync(process.env.RESOLVERS_FILE, JSON.stringify([
+  { name: 'cams', pattern: '^https://cams\\.example\\.com/view/(\\d+)$', template: 'https://cdn.example.com/cam$1/index.m3u8' },
+  { pattern: '^https://tv\\.example\\.com/(?<channel>\\w+)$', template: 'https://edge.example.com/<channel>.m3u8?c=$<channel>', ttlSec: 120 },
+]));
+const { createResolver } = require('../resolvers');
+
+test.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+// Stands in for youtube-dl-exec: hands out the given outputs in turn, or fails once they run out
+const fakeYoutubedl = (...outputs) => {
+  const calls = [];
+  const youtubedl = async (url) => {
+    calls.push(url);
+    if (!outputs.length) throw new Error('ERROR: Unsupported URL');
+    return outputs.shift();
+  };
+  return Object.assign(youtubedl, { calls });
+};
+
+// lets the resolver's tick run its awaits after the clock moved
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+test('direct inputs are used as is and resolvers.json rules rewrite matching page URLs', async () => {
+  const youtubedl = fakeYoutubedl();
+  const resolver = createResolver({ youtubedl });
+
+  for (const url of ['udp://239.0.0.1:1234', 'https://cdn.example.com/live/index.m3u8', 'https://cdn.example.com/live/index.m3u8?token=x']) {
+    const direct = await resolver.resolve(url);
+    assert.strictEqual(direct.resolver, 'direct');
+    assert.strictEqual(direct.url, url);
+    assert.strictEqual(direct.expiresAt, null);
+  }
+
+  const cam = await resolver.resolve('https://cams.example.com/view/42');
+  assert.strictEqual(cam.resolver, 'custom');
+  assert.strictEqual(cam.rule, 'cams');
+  assert.strictEqual(cam.url, 'https://cdn.example.com/cam42/index.m3u8');
+  // no expiry in the URL or the rule: the default lifetime
+  assert.strictEqual(cam.expiresAt, cam.resolvedAt + 600_000);
+
+  const tv = await resolver.resolve('https://tv.example.com/news');
+  assert.strictEqual(tv.rule, '^https://tv\\.example\\.com/(?<channel>\\w+)$');
+  assert.strictEqual(tv.url, 'https://edge.example.com/<channel>.m3u8?c=news');
+  assert.ok(Math.abs(tv.expiresAt - (Date.now() + 120_000)) < 1000);
+
+  assert.deepStrictEqual(youtubedl.calls, []);
+});
+
+test('other page URLs go to yt-dlp, which may fail without the stream losing its URL', async (t) => {
+  const page = 'https://www.youtube.com/watch?v=abc';
+  const youtubedl = fakeYoutubedl('https://rr1.googlevideo.com/videoplayback/expire/1900000000/itag/96/index.m3u8\nhttps://second.example.com/\n');
+  const resolver = createResolver({ youtubedl });
+
+  const resolved = await resolver.resolve(page);
+  assert.strictEqual(resolved.resolver, 'yt-dlp');
+  assert.strictEqual(resolved.url, 'https://rr1.googlevideo.com/videoplayback/expire/1900000000/itag/96/index.m3u8');
+  assert.strictEqual(resolved.expiresAt, 1900000000 * 1000);
+  // cached: concurrent and later callers don't run yt-dlp again
+  await Promise.all([resolver.resolve(page), resolver.resolve(page)]);
+  assert.deepStrictEqual(youtubedl.calls, [page]);
+
+  t.mock.method(console, 'error', () => {});
+  const broken = 'https://example.com/not-a-video';
+  const fallback = await resolver.resolve(broken);
+  assert.strictEqual(fallback.resolver, 'none');
+  assert.strictEqual(fallback.url, broken);
+  assert.strictEqual(fallback.expiresAt, null);
+  // not cached: the next start tries yt-dlp again
+  assert.strictEqual(resolver.peek(broken), null);
+  await resolver.resolve(broken);
+  assert.deepStrictEqual(youtubedl.calls, [page, broken, broken]);
+});
+
+test('a URL the source refused is resolved again past the cache', async () => {
+  const page = 'https://www.youtube.com/watch?v=refused';
+  const youtubedl = fakeYoutubedl('https://media.example.com/a.m3u8', 'https://media.example.com/b.m3u8');
+  const resolver = createResolver({ youtubedl });
+
+  assert.strictEqual((await resolver.resolve(page)).url, 'https://media.example.com/a.m3u8');
+  assert.strictEqual((await resolver.resolve(page)).url, 'https://media.example.com/a.m3u8');
+  // what index.js does when ffmpeg logs a 403 for the resolved URL
+  assert.strictEqual((await resolver.resolve(page, { force: true })).url, 'https://media.example.com/b.m3u8');
+  assert.strictEqual(resolver.peek(page).url, 'https://media.example.com/b.m3u8');
+  assert.strictEqual(youtubedl.calls.length, 2);
+});
+
+test('URLs in use are refreshed ahead of their expiry, unused expired ones are forgotten', async (t) => {
+  t.mock.timers.enable({ apis: ['setInterval', 'Date'], now: 1_000_000 });
+  const used = 'https://www.youtube.com/watch?v=used';
+  const unused = 'https://www.youtube.com/watch?v=unused';
+  const youtubedl = fakeYoutubedl(
+    'https://media.example.com/used-1.m3u8',
+    'https://media.example.com/unused.m3u8',
+    'https://media.example.com/used-2.m3u8',
+    'https://media.example.com/used-3.m3u8',
+  );
+  const refreshed = [];
+  const resolver = createResolver({
+    youtubedl,
+    inUse: (url) => url === used,
+    onRefresh: (url, source) => refreshed.push([url, source.url]),
+  });
+  await resolver.resolve(used);
+  await resolver.resolve(unused);
+
+  // 600 s lifetime, refreshed 300 s ahead: nothing to do before 300 s
+  t.mock.timers.tick(270_000);
+  await settle();
+  assert.deepStrictEqual(refreshed, []);
+  assert.strictEqual(youtubedl.calls.length, 2);
+
+  t.mock.timers.tick(60_000);
+  await settle();
+  assert.deepStrictEqual(refreshed, [[used, 'https://media.example.com/used-2.m3u8']]);
+  assert.strictEqual(resolver.peek(used).url, 'https://media.example.com/used-2.m3u8');
+  // not in use: kept until it actually expires, never re-resolved
+  assert.strictEqual(resolver.peek(unused).url, 'https://media.example.com/unused.m3u8');
+
+  t.mock.timers.tick(300_000);
+  await settle();
+  assert.strictEqual(resolver.peek(unused), null);
+  assert.deepStrictEqual(youtubedl.calls.filter((url) => url === unused), [unused]);
+  assert.strictEqual(resolver.peek(used).url, 'https://media.example.com/used-3.m3u8');
+});
@@ -0,0 +1,41 @@
+const test = require('node:test');
+const assert = require('node:assert');
+
+process.env.RESTART_POLICY = 'bogus';
+process.env.RESTART_JITTER = '0.3';
+const { mergePolicy, nextRestart, halfOpenAttempts, RESTART_DEFAULTS } = require('../restarts');
+
+const policy = mergePolicy({ mode: 'always', maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 5000, cooldownMs: 60_000 });
+
+test('policies fill in the defaults; an unknown RESTART_POLICY leaves restarts off', () => {
+  assert.strictEqual(RESTART_DEFAULTS.mode, 'off');
+  assert.deepStrictEqual(mergePolicy({ mode: 'on-signal-loss', maxAttempts: undefined }), { ...RESTART_DEFAULTS, mode: 'on-signal-loss' });
+  // the cap is never below the first delay
+  assert.strictEqual(mergePolicy({ baseDelayMs: 90_000, maxDelayMs: 1000 }).maxDelayMs, 90_000);
+});
+
+test('restart delays double up to the cap, with up to 30% jitter on top', () => {
+  const delays = [0, 1, 2, 3].map((attempts) => nextRestart(policy, attempts, 0, () => 0).delayMs);
+  assert.deepStrictEqual(delays, [1000, 2000, 4000, 5000]);
+
+  const jittered = nextRestart(policy, 1, 10_000, () => 1);
+  assert.deepStrictEqual(jittered, { circuitOpen: false, attempt: 2, delayMs: 2600, restartAt: 12_600 });
+});
+
+test('the circuit opens once the attempts are used up and half-opens for one trial after the cool-down', () => {
+  let attempts = 0;
+  const steps = [];
+  for (let i = 0; i < 5; i++) {
+    const next = nextRestart(policy, attempts, 0, () => 0);
+    steps.push(next.circuitOpen ? 'open' : next.attempt);
+    if (!next.circuitOpen) attempts = next.attempt;
+  }
+  assert.deepStrictEqual(steps, [1, 2, 3, 4, 'open']);
+  assert.strictEqual(nextRestart(policy, attempts, 1000).retryAt, 61_000);
+
+  // after the cool-down: one trial restart, and its failure re-opens the circuit
+  attempts = halfOpenAttempts(policy);
+  const trial = nextRestart(policy, attempts, 0, () => 0);
+  assert.strictEqual(trial.circuitOpen, false);
+  assert.strictEqual(nextRestart(policy, trial.attempt, 0).circuitOpen, true);
+});
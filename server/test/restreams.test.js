@@ -0,0 +1,68 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const net = require('net');
+const os = require('os');
+const path = require('path');
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'restreams-'));
+process.env.RESTREAMS_FILE = path.join(dir, 'restreams.json');
+process.env.FFMPEG_PIDS_FILE = path.join(dir, 'ffmpeg-pids.json');
+const { createRestreamer } = require('../restreams');
+
+const FAKE_FFMPEG = path.join(__dirname, 'fixtures', 'fake-ffmpeg.js');
+const until = async (check, ms = 5000) => {
+  const end = Date.now() + ms;
+  while (!check()) {
+    if (Date.now() > end) throw new Error('timed out');
+    await new Promise((r) => setTimeout(r, 20));
+  }
+};
+
+// A local RTMP sink: counts publishers connected at the same time
+let sink;
+let publishers = 0;
+let maxPublishers = 0;
+let connections = 0;
+test.before(async () => {
+  sink = net.createServer((socket) => {
+    connections++;
+    maxPublishers = Math.max(maxPublishers, ++publishers);
+    socket.on('data', () => {});
+    socket.on('close', () => publishers--);
+  });
+  await new Promise((resolve) => sink.listen(0, '127.0.0.1', resolve));
+});
+test.after(() => {
+  sink.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('re-enabling an output while its ffmpeg is ending starts one publisher, after the old one', async () => {
+  const events = [];
+  const restreamer = createRestreamer({
+    ffmpegPath: FAKE_FFMPEG,
+    inputFor: () => 'rtmp://127.0.0.1/live/stream',
+    encodeArgs: () => ['-c', 'copy'],
+    onEvent: (type) => events.push(type),
+  });
+  const output = restreamer.add({ streamId: 's', name: 'partner', url: `rtmp://127.0.0.1:${sink.address().port}/live/key` });
+  await until(() => publishers === 1);
+  assert.strictEqual(restreamer.get(output.id).state, 'starting');
+
+  restreamer.stop(output.id);
+  assert.strictEqual(restreamer.get(output.id).state, 'stopped');
+  // back on before the old process has exited
+  restreamer.start(output.id);
+  assert.strictEqual(restreamer.get(output.id).state, 'starting');
+
+  await until(() => connections === 2 && publishers === 1);
+  assert.strictEqual(maxPublishers, 1);
+  assert.deepStrictEqual(events, ['started', 'stopped', 'started']);
+
+  restreamer.stopAll();
+  await until(() => publishers === 0);
+  await new Promise((r) => setTimeout(r, 100));
+  assert.strictEqual(connections, 2);
+  assert.deepStrictEqual(JSON.parse(fs.readFileSync(process.env.RESTREAMS_FILE, 'utf8')).map((o) => o.enabled), [true]);
+});
@@ -0,0 +1,85 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createCueReader, parseSpliceInfo } = require('../scte35');
+
+// SCTE 35 sample sections: a splice_insert (out of network, 60.3s break) and a time_signal with a
+// Provider Placement Opportunity Start segmentation_descriptor
+const SPLICE_INSERT = Buffer.from('/DAvAAAAAAAA///wFAVIAACPf+/+c2nALv4AUsz1AAAAAAAKAAhDVUVJAAABNWLbowo=', 'base64');
+const TIME_SIGNAL = Buffer.from('/DA0AAAAAAAA///wBQb+cr0AUAAeAhxDVUVJSAAAjn/PAAEUrEoICAAAAAAs5BbBNAAAPo8qKA==', 'base64');
+
+const near = (actual, expected) => assert.ok(Math.abs(actual - expected) < 1e-3, `${actual} != ${expected}`);
+
+test('splice_insert spec vector', () => {
+  const cue = parseSpliceInfo(SPLICE_INSERT);
+  assert.strictEqual(cue.command, 'splice_insert');
+  assert.strictEqual(cue.kind, 'OUT');
+  assert.strictEqual(cue.eventId, 0x4800008f);
+  near(cue.durationSec, 60.293567);
+  near(cue.ptsSec, 21514.559089);
+  assert.strictEqual(cue.segmentationTypeId, null);
+});
+
+test('time_signal spec vector', () => {
+  const cue = parseSpliceInfo(TIME_SIGNAL);
+  assert.strictEqual(cue.command, 'time_signal');
+  assert.strictEqual(cue.kind, 'OUT');
+  assert.strictEqual(cue.eventId, 0x4800008e);
+  assert.strictEqual(cue.segmentationTypeId, 0x34);
+  near(cue.durationSec, 201.467133);
+  near(cue.ptsSec, 21388.766756);
+});
+
+test('truncated and malformed sections decode to null', () => {
+  for (const length of [17, 20, 25, SPLICE_INSERT.length - 1]) assert.strictEqual(parseSpliceInfo(SPLICE_INSERT.subarray(0, length)), null, `cut to ${length}`);
+  assert.strictEqual(parseSpliceInfo(TIME_SIGNAL.subarray(0, 30)), null);
+  // a 17-byte splice_insert whose section_length matches: the command runs past the end
+  const short = Buffer.from(SPLICE_INSERT.subarray(0, 17));
+  short[2] = 14;
+  assert.strictEqual(parseSpliceInfo(short), null);
+  // splice_command_length pointing past the section
+  const long = Buffer.from(SPLICE_INSERT);
+  long[12] = 0xf0;
+  assert.strictEqual(parseSpliceInfo(long), null);
+  assert.strictEqual(parseSpliceInfo(Buffer.from('not a section')), null);
+});
+
+const playlist = (first, tags) => ['#EXTM3U', '#EXT-X-TARGETDURATION:6', '#EXTINF:6,', `seg${first}.ts`, ...tags, '#EXTINF:6,', `seg${first + 1}.ts`, ''].join('\n');
+
+test('HLS cue tags after the first poll', () => {
+  const cues = [];
+  const reader = createCueReader({ onCue: (streamId, cue) => cues.push(cue) });
+  reader.playlist('s', playlist(1, ['#EXT-X-CUE-OUT:DURATION=30']), true);
+  assert.strictEqual(cues.length, 0);
+  reader.playlist('s', playlist(1, ['#EXT-X-CUE-OUT:DURATION=30']), false);
+  assert.strictEqual(cues.length, 0);
+  reader.playlist('s', playlist(2, ['#EXT-X-CUE-IN', `#EXT-X-DATERANGE:ID="ad1",START-DATE="2026-01-01T00:00:00Z",SCTE35-OUT=0x${SPLICE_INSERT.toString('hex')}`]), false);
+  assert.deepStrictEqual(cues.map((c) => [c.origin, c.command, c.kind]), [
+    ['hls', 'splice_insert', 'OUT'],
+    ['hls', 'cue-in', 'IN'],
+  ]);
+  assert.strictEqual(cues[0].eventId, 0x4800008f);
+});
+
+test('a malformed SCTE35 attribute does not lose the playlist\'s other cues', () => {
+  const cues = [];
+  const reader = createCueReader({ onCue: (streamId, cue) => cues.push(cue) });
+  reader.playlist('s', playlist(1, []), true);
+  const truncated = SPLICE_INSERT.subarray(0, 20).toString('hex');
+  reader.playlist('s', playlist(2, [
+    `#EXT-X-DATERANGE:ID="bad",START-DATE="2026-01-01T00:00:00Z",SCTE35-OUT=0x${truncated}`,
+    '#EXT-X-CUE-OUT:30',
+  ]), false);
+  assert.deepStrictEqual(cues.map((c) => c.command).sort(), ['cue-out', 'daterange']);
+  assert.strictEqual(cues.find((c) => c.command === 'cue-out').durationSec, 30);
+});
+
+test('splice_null keep-alives are not cues', () => {
+  const cues = [];
+  const reader = createCueReader({ onCue: (streamId, cue) => cues.push(cue) });
+  // section_length 17: header, an empty splice_null, no descriptors, CRC
+  const splice = Buffer.from('fc301100000000000000fff00000000000000000', 'hex');
+  assert.strictEqual(parseSpliceInfo(splice).command, 'splice_null');
+  reader.section('s', splice);
+  reader.section('s', TIME_SIGNAL);
+  assert.deepStrictEqual(cues.map((c) => c.command), ['time_signal']);
+});
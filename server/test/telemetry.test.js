@@ -0,0 +1,63 @@
+const test = require('node:test');
+const assert = require('node:assert');
+
+const { createProgressMonitor } = require('../telemetry');
+
+// One -progress block per second for `seconds`, output advancing `speed` seconds per second
+function feed(monitor, streamId, clock, seconds, { speed = 1, dropsPerSec = 0 } = {}) {
+  for (let i = 0; i < seconds; i++) {
+    clock.now += 1000;
+    clock.out += speed;
+    clock.drops += dropsPerSec;
+    monitor.update(streamId, { outTimeSec: clock.out, dropFrames: clock.drops, ended: false }, clock.now);
+  }
+}
+
+test('a transcoder below real time is SLOW after the hold time and RECOVERED back at 1.0x', () => {
+  const events = [];
+  const monitor = createProgressMonitor({ onEvent: (e) => events.push(e) });
+  const clock = { now: 0, out: 0, drops: 0 };
+
+  feed(monitor, 's', clock, 8, { speed: 1 });
+  feed(monitor, 's', clock, 8, { speed: 0.5 });
+  assert.deepStrictEqual(events, []);
+  feed(monitor, 's', clock, 10, { speed: 0.5 });
+  assert.deepStrictEqual(events.map((e) => [e.event, e.fault]), [['SLOW', 'SLOW']]);
+
+  feed(monitor, 's', clock, 10, { speed: 1 });
+  assert.deepStrictEqual(events.map((e) => [e.event, e.fault]), [['SLOW', 'SLOW'], ['RECOVERED', 'SLOW']]);
+  assert.strictEqual(events[1].start, events[0].start);
+  assert.ok(events[1].duration > 10_000);
+});
+
+test('a frame drop spike over the baseline raises DROPPED_FRAMES', () => {
+  const events = [];
+  const monitor = createProgressMonitor({ onEvent: (e) => events.push(e) });
+  const clock = { now: 0, out: 0, drops: 0 };
+
+  feed(monitor, 's', clock, 30, { dropsPerSec: 0.2 });
+  assert.deepStrictEqual(events, []);
+  feed(monitor, 's', clock, 11, { dropsPerSec: 10 });
+  assert.deepStrictEqual(events.map((e) => e.event), ['DROPPED_FRAMES']);
+  feed(monitor, 's', clock, 21, { dropsPerSec: 0.2 });
+  assert.deepStrictEqual(events.map((e) => e.event), ['DROPPED_FRAMES', 'RECOVERED']);
+});
+
+test('forgetting a stream ends its raised faults', () => {
+  const events = [];
+  const monitor = createProgressMonitor({ onEvent: (e) => events.push(e) });
+  const clock = { now: 0, out: 0, drops: 0 };
+
+  feed(monitor, 's', clock, 30, { dropsPerSec: 0.2 });
+  feed(monitor, 's', clock, 15, { speed: 0.5, dropsPerSec: 10 });
+  assert.deepStrictEqual(events.map((e) => e.event).sort(), ['DROPPED_FRAMES', 'SLOW']);
+
+  monitor.forget('s', clock.now + 1000);
+  const recovered = events.filter((e) => e.event === 'RECOVERED');
+  assert.deepStrictEqual(recovered.map((e) => e.fault).sort(), ['DROPPED_FRAMES', 'SLOW']);
+  assert.ok(recovered.every((e) => e.end === clock.now + 1000));
+
+  // nothing left to end
+  monitor.forget('s');
+  assert.strictEqual(events.length, 4);
+});
@@ -0,0 +1,113 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const path = require('path');
+const { createTsAnalyzer } = require('../tsanalyzer');
+const { PACKET, PMT_PID, VIDEO_PID, TIME_SIGNAL } = require('./fixtures/make-ts');
+
+const fixture = (name) => fs.readFileSync(path.join(__dirname, 'fixtures', name));
+const packetsOf = (buf, keep) => {
+  const out = [];
+  for (let pos = 0; pos + PACKET <= buf.length; pos += PACKET) {
+    const pkt = buf.subarray(pos, pos + PACKET);
+    if (keep(((pkt[1] & 0x1f) << 8) | pkt[2])) out.push(pkt);
+  }
+  return Buffer.concat(out);
+};
+
+// counters after feeding the whole file at once
+function analyse(name, options = {}) {
+  const analyzer = createTsAnalyzer({ onReport: () => {}, ...options });
+  analyzer.feed('s', fixture(name), 0);
+  return analyzer.report('s');
+}
+
+test('clean stream has no errors and lists its PIDs', () => {
+  const r = analyse('clean.ts');
+  assert.strictEqual(r.synced, true);
+  assert.deepStrictEqual(r.counters, { tsSyncLoss: 0, syncByteError: 0, patError: 0, continuityCountError: 0, pmtError: 0, pidError: 0 });
+  // the first packets only acquire sync
+  assert.strictEqual(r.packets, 50 - 4);
+  const kinds = Object.fromEntries(r.pids.map((p) => [p.pid, p.kind]));
+  assert.deepStrictEqual(kinds, { 0: 'PAT', [PMT_PID]: 'PMT', [VIDEO_PID]: 'ES' });
+});
+
+test('chunk boundaries inside packets change nothing', () => {
+  const analyzer = createTsAnalyzer({ onReport: () => {} });
+  const buf = fixture('clean.ts');
+  for (let pos = 0; pos < buf.length; pos += 100) analyzer.feed('s', buf.subarray(pos, pos + 100), 0);
+  const r = analyzer.report('s');
+  assert.strictEqual(r.packets, 50 - 4);
+  assert.strictEqual(r.counters.continuityCountError, 0);
+});
+
+test('1.1 sync is lost after two bad sync bytes and reacquired', () => {
+  const r = analyse('sync-loss.ts');
+  assert.strictEqual(r.counters.tsSyncLoss, 1);
+  assert.strictEqual(r.counters.syncByteError, 2);
+  assert.strictEqual(r.synced, true);
+});
+
+test('1.2 a single bad sync byte keeps sync', () => {
+  const r = analyse('sync-byte-error.ts');
+  assert.strictEqual(r.counters.syncByteError, 1);
+  assert.strictEqual(r.counters.tsSyncLoss, 0);
+});
+
+test('1.3 PAT with the wrong table_id', () => {
+  const r = analyse('pat-error.ts');
+  assert.strictEqual(r.counters.patError, 1);
+  assert.strictEqual(r.counters.pmtError, 0);
+});
+
+test('1.3 / 1.5 PAT and PMT missing for more than 0.5s', () => {
+  const analyzer = createTsAnalyzer({ onReport: () => {} });
+  const clean = fixture('clean.ts');
+  analyzer.feed('s', clean, 0);
+  const videoOnly = packetsOf(clean, (pid) => pid === VIDEO_PID);
+  for (let t = 200; t <= 1000; t += 200) analyzer.feed('s', videoOnly, t);
+  const r = analyzer.report('s');
+  // one error per missed 0.5s interval
+  assert.strictEqual(r.counters.patError, 1);
+  assert.strictEqual(r.counters.pmtError, 1);
+});
+
+test('an input gap resets the repetition timers', () => {
+  const analyzer = createTsAnalyzer({ onReport: () => {} });
+  const clean = fixture('clean.ts');
+  analyzer.feed('s', clean, 0);
+  analyzer.feed('s', packetsOf(clean, (pid) => pid === VIDEO_PID), 3000);
+  assert.strictEqual(analyzer.report('s').counters.patError, 0);
+});
+
+test('1.4 continuity: one repeat and a flagged discontinuity pass, a jump counts', () => {
+  const r = analyse('cc-error.ts');
+  assert.strictEqual(r.counters.continuityCountError, 1);
+  assert.strictEqual(r.pids.find((p) => p.pid === VIDEO_PID).ccErrors, 1);
+});
+
+test('1.5 PMT with the wrong table_id', () => {
+  const r = analyse('pmt-error.ts');
+  assert.strictEqual(r.counters.pmtError, 1);
+  assert.strictEqual(r.counters.patError, 0);
+});
+
+test('1.6 an elementary stream missing for PID_TIMEOUT, SCTE-35 PIDs exempt', () => {
+  const analyzer = createTsAnalyzer({ onReport: () => {} });
+  const clean = fixture('clean.ts');
+  analyzer.feed('s', clean, 0);
+  const tables = packetsOf(clean, (pid) => pid === 0 || pid === PMT_PID).subarray(0, 2 * PACKET);
+  for (let t = 400; t <= 6000; t += 400) analyzer.feed('s', tables, t);
+  const r = analyzer.report('s');
+  // video only; the PMT's SCTE-35 PID never sent anything
+  assert.strictEqual(r.counters.pidError, 1);
+});
+
+test('SCTE-35 sections are reassembled across packets', () => {
+  const sections = [];
+  const r = analyse('scte35.ts', { onScte35: (streamId, section) => sections.push({ streamId, section }) });
+  assert.strictEqual(sections.length, 1);
+  assert.strictEqual(sections[0].streamId, 's');
+  assert.ok(sections[0].section.equals(TIME_SIGNAL));
+  assert.strictEqual(r.pids.find((p) => p.kind === 'SCTE35').packets, 2);
+});
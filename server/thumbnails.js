@@ -0,0 +1,81 @@
+// server/thumbnails.js
+// JPEG stills of every running stream for the low-bandwidth thumbnail wall. Every interval a short
+// ffmpeg per stream grabs one frame of the transcoded output (NMS' GOP cache hands it a keyframe
+// right away); the last THUMBNAIL_HISTORY stills per stream are kept in memory, nothing on disk.
+const { spawnFfmpeg, killFfmpeg } = require('./orphans');
+
+// THUMBNAIL_INTERVAL_SEC=0 turns the grabber off
+const INTERVAL_SEC = Number(process.env.THUMBNAIL_INTERVAL_SEC ?? 10);
+const HISTORY = Math.max(1, Number(process.env.THUMBNAIL_HISTORY || 12));
+const HEIGHT = Number(process.env.THUMBNAIL_HEIGHT || 180);
+const GRAB_TIMEOUT_MS = 8000;
+// spread the grabs of one round instead of starting a dozen ffmpegs at once
+const GRAB_STAGGER_MS = 250;
+
+// inputFor(streamId) is where stills are grabbed from (localOutputUrl in index.js);
+// streamIds() lists the streams to keep stills for
+function createThumbnailer({ ffmpegPath, inputFor, streamIds }) {
+  const stills = new Map(); // streamId -> [{ time, jpeg }], oldest first
+  const grabbing = new Map(); // streamId -> ffmpeg grabbing its still
+  let closed = false;         // stopAll() ran: the server is shutting down
+
+  function grab(streamId) {
+    const input = inputFor(streamId);
+    if (closed || !input || grabbing.has(streamId)) return;
+
+    const chunks = [];
+    const proc = spawnFfmpeg(ffmpegPath, [
+      '-hide_banner', '-loglevel', 'error',
+      '-i', input,
+      '-frames:v', '1',
+      '-vf', `scale=-2:${HEIGHT}`,
+      '-q:v', '5',
+      '-f', 'image2pipe', '-c:v', 'mjpeg',
+      'pipe:1',
+    ], { role: 'thumbnail', streamId });
+    grabbing.set(streamId, proc);
+    const timer = setTimeout(() => { try { proc.kill('SIGKILL'); } catch (_) {} }, GRAB_TIMEOUT_MS);
+    proc.stdout.on('data', (chunk) => chunks.push(chunk));
+    proc.stderr.on('data', () => { /* noisy */ });
+    proc.on('error', () => { /* reported by the close handler as a missing still */ });
+    proc.on('close', (code) => {
+      clearTimeout(timer);
+      grabbing.delete(streamId);
+      if (code !== 0 || chunks.length === 0) return;
+      const list = stills.get(streamId) || [];
+      list.push({ time: Date.now(), jpeg: Buffer.concat(chunks) });
+      stills.set(streamId, list.slice(-HISTORY));
+    });
+  }
+
+  function tick() {
+    const ids = streamIds();
+    ids.forEach((id, i) => setTimeout(() => grab(id), i * GRAB_STAGGER_MS).unref());
+    // streams that went away since the last round
+    for (const id of stills.keys()) if (!ids.includes(id)) stills.delete(id);
+  }
+
+  if (INTERVAL_SEC > 0) setInterval(tick, INTERVAL_SEC * 1000).unref();
+
+  return {
+    // newest first
+    list: () => Array.from(stills, ([streamId, list]) => ({
+      streamId,
+      time: list[list.length - 1].time,
+      history: list.map((s) => s.time).reverse(),
+    })),
+    // the still taken at `time`, or the latest one
+    get: (streamId, time) => {
+      const list = stills.get(streamId) || [];
+      return time ? list.find((s) => s.time === time) || null : list[list.length - 1] || null;
+    },
+    forget: (streamId) => stills.delete(streamId),
+    // no more grabs; resolves once the running ones have exited
+    stopAll: () => {
+      closed = true;
+      return Promise.all(Array.from(grabbing.values(), killFfmpeg));
+    },
+  };
+}
+
+module.exports = { createThumbnailer, THUMBNAIL_INTERVAL_SEC: INTERVAL_SEC };
@@ -0,0 +1,273 @@
+// server/tsanalyzer.js
+// ETSI TR 101 290 priority-1 checks on MPEG-TS inputs, run on the bytes the ingress relays already
+// see (UDP datagrams, the SRT relay's output). Counters run from the stream's start; every
+// WINDOW_SEC a report goes out with the window's deltas, and a window whose deltas reach a
+// threshold raises the stream's TS alarm until a window comes back clean. Sections on the PMTs'
+// SCTE-35 PIDs (stream_type 0x86) are reassembled and handed to onScte35.
+const PACKET = 188;
+const SYNC = 0x47;
+const NULL_PID = 0x1fff;
+// Sync is acquired after 5 good sync bytes in a row and lost after 2 bad ones (TR 101 290 1.1)
+const SYNC_ACQUIRE = 5;
+const SYNC_LOSE = 2;
+// PAT and PMTs have to repeat within 0.5s (1.3 / 1.5), elementary streams within PID_TIMEOUT (1.6)
+const TABLE_INTERVAL_MS = 500;
+const PID_TIMEOUT_MS = Number(process.env.TS_PID_TIMEOUT_SEC || 5) * 1000;
+// A longer pause in the input is a lost signal, reported elsewhere, not a burst of table errors
+const INPUT_GAP_MS = 1000;
+const WINDOW_SEC = Number(process.env.TS_ALARM_WINDOW_SEC || 10);
+const MAX_PIDS_REPORTED = 64;
+const SCTE35_STREAM_TYPE = 0x86;
+// splice_info_sections are at most 4096 bytes
+const MAX_SECTION = 4096;
+
+// Errors per window that raise the alarm; TS_ALARM_<CHECK>=n overrides, 0 never alarms
+const THRESHOLD_DEFAULTS = { tsSyncLoss: 1, syncByteError: 1, patError: 1, continuityCountError: 10, pmtError: 1, pidError: 1 };
+const THRESHOLDS = Object.fromEntries(Object.entries(THRESHOLD_DEFAULTS).map(([key, def]) => {
+  const env = process.env[`TS_ALARM_${key.replace(/[A-Z]/g, (c) => `_${c}`).toUpperCase()}`];
+  return [key, env === undefined ? def : Number(env)];
+}));
+
+const LABELS = {
+  tsSyncLoss: 'TS sync loss',
+  syncByteError: 'sync byte errors',
+  patError: 'PAT errors',
+  continuityCountError: 'continuity counter errors',
+  pmtError: 'PMT errors',
+  pidError: 'PID errors',
+};
+
+const zeroCounters = () => ({ tsSyncLoss: 0, syncByteError: 0, patError: 0, continuityCountError: 0, pmtError: 0, pidError: 0 });
+
+// PSI section of a packet that starts one (payload_unit_start_indicator): table_id and the body
+function psiSection(pkt, payloadStart) {
+  const pointer = pkt[payloadStart];
+  const start = payloadStart + 1 + pointer;
+  if (start + 3 > PACKET) return null;
+  const tableId = pkt[start];
+  const length = ((pkt[start + 1] & 0x0f) << 8) | pkt[start + 2];
+  // entries that don't fit this packet are skipped (tables this large are rare on PID 0 / PMTs)
+  const end = Math.min(start + 3 + length - 4, PACKET);
+  return { tableId, start, end };
+}
+
+// onReport(streamId, report, transition) every WINDOW_SEC; transition is 'raised' / 'cleared'
+// when the window turned the alarm on or off, null otherwise. onScte35(streamId, section) gets
+// every complete section of a SCTE-35 PID
+function createTsAnalyzer({ onReport, onScte35 = () => {} }) {
+  const streams = new Map();
+
+  const stateFor = (streamId, now) => {
+    let s = streams.get(streamId);
+    if (!s) {
+      s = {
+        since: now,
+        rest: null,
+        synced: false,
+        goodRun: 0,
+        badRun: 0,
+        packets: 0,
+        lastFeedAt: now,
+        counters: zeroCounters(),
+        windowStart: zeroCounters(),
+        alarm: null,
+        patSeenAt: now,
+        pmts: new Map(),  // PMT PID -> last seen
+        es: new Map(),    // elementary stream PID (from the PMTs) -> last seen
+        scte35: new Map(), // SCTE-35 PID -> section being reassembled (null between sections)
+        pids: new Map(),  // PID -> { cc, dup, packets, ccErrors }
+      };
+      streams.set(streamId, s);
+    }
+    return s;
+  };
+
+  function parsePat(s, pkt, payloadStart, now) {
+    const sec = psiSection(pkt, payloadStart);
+    if (!sec) return;
+    if (sec.tableId !== 0x00) { s.counters.patError++; return; }
+    s.patSeenAt = now;
+    // program loop after the 5 header bytes: program_number (16), reserved (3) + PID (13)
+    for (let i = sec.start + 8; i + 4 <= sec.end; i += 4) {
+      const program = (pkt[i] << 8) | pkt[i + 1];
+      const pid = ((pkt[i + 2] & 0x1f) << 8) | pkt[i + 3];
+      if (program !== 0 && !s.pmts.has(pid)) s.pmts.set(pid, now);
+    }
+  }
+
+  function parsePmt(s, pkt, payloadStart, now, pid) {
+    const sec = psiSection(pkt, payloadStart);
+    if (!sec) return;
+    if (sec.tableId !== 0x02) { s.counters.pmtError++; return; }
+    s.pmts.set(pid, now);
+    const infoLength = ((pkt[sec.start + 10] & 0x0f) << 8) | pkt[sec.start + 11];
+    for (let i = sec.start + 12 + infoLength; i + 5 <= sec.end;) {
+      const esPid = ((pkt[i + 1] & 0x1f) << 8) | pkt[i + 2];
+      const esInfo = ((pkt[i + 3] & 0x0f) << 8) | pkt[i + 4];
+      // cues are sparse by design, so SCTE-35 PIDs stay out of the PID_error timeout
+      if (pkt[i] === SCTE35_STREAM_TYPE) {
+        if (!s.scte35.has(esPid)) s.scte35.set(esPid, null);
+      } else if (!s.es.has(esPid)) {
+        s.es.set(esPid, now);
+      }
+      i += 5 + esInfo;
+    }
+  }
+
+  // Sections may span packets; a new payload_unit_start drops an unfinished one
+  function collectSection(streamId, s, pkt, pid, pusi, afc) {
+    let payload = afc & 0x2 ? 5 + pkt[4] : 4;
+    if (payload >= PACKET) return;
+    let pending = s.scte35.get(pid);
+    if (pusi) {
+      const pointer = pkt[payload];
+      const start = payload + 1 + pointer;
+      if (start + 3 > PACKET) { s.scte35.set(pid, null); return; }
+      const length = ((pkt[start + 1] & 0x0f) << 8) | pkt[start + 2];
+      if (pkt[start] === 0xff || length + 3 > MAX_SECTION) { s.scte35.set(pid, null); return; }
+      pending = { need: length + 3, parts: [], have: 0 };
+      payload = start;
+    } else if (!pending) {
+      return;
+    }
+    const part = pkt.subarray(payload, Math.min(PACKET, payload + pending.need - pending.have));
+    pending.parts.push(Buffer.from(part));
+    pending.have += part.length;
+    if (pending.have < pending.need) { s.scte35.set(pid, pending); return; }
+    s.scte35.set(pid, null);
+    try { onScte35(streamId, Buffer.concat(pending.parts)); } catch (e) { console.error('SCTE-35 handler failed', e); }
+  }
+
+  // Continuity counter per PID (1.4): +1 per packet with payload, one repeat allowed, reset by
+  // the discontinuity indicator
+  function checkContinuity(s, pkt, pid, afc) {
+    let p = s.pids.get(pid);
+    if (!p) {
+      if (s.pids.size >= MAX_PIDS_REPORTED * 4) return;
+      p = { cc: null, dup: 0, packets: 0, ccErrors: 0 };
+      s.pids.set(pid, p);
+    }
+    p.packets++;
+    const cc = pkt[3] & 0x0f;
+    const hasPayload = afc & 0x1;
+    const discontinuity = afc & 0x2 && pkt[4] > 0 && pkt[5] & 0x80;
+    if (p.cc === null || discontinuity || !hasPayload) {
+      if (hasPayload || p.cc === null) p.cc = cc;
+      p.dup = 0;
+      return;
+    }
+    if (cc === p.cc) {
+      p.dup++;
+      if (p.dup < 2) return;
+    } else if (cc === ((p.cc + 1) & 0x0f)) {
+      p.dup = 0;
+      p.cc = cc;
+      return;
+    }
+    p.ccErrors++;
+    s.counters.continuityCountError++;
+    p.dup = 0;
+    p.cc = cc;
+  }
+
+  function packet(streamId, s, pkt, now) {
+    s.packets++;
+    const pid = ((pkt[1] & 0x1f) << 8) | pkt[2];
+    if (pid === NULL_PID) return;
+    const pusi = pkt[1] & 0x40;
+    const scrambled = pkt[3] & 0xc0;
+    const afc = (pkt[3] >> 4) & 0x3;
+    checkContinuity(s, pkt, pid, afc);
+    if (s.es.has(pid)) s.es.set(pid, now);
+    if (s.scte35.has(pid) && afc & 0x1 && !scrambled) collectSection(streamId, s, pkt, pid, pusi, afc);
+    if (!pusi || !(afc & 0x1)) return;
+    const payloadStart = afc & 0x2 ? 5 + pkt[4] : 4;
+    if (payloadStart >= PACKET) return;
+    if (pid === 0) {
+      if (scrambled) s.counters.patError++;
+      else parsePat(s, pkt, payloadStart, now);
+    } else if (s.pmts.has(pid)) {
+      if (scrambled) s.counters.pmtError++;
+      else parsePmt(s, pkt, payloadStart, now, pid);
+    }
+  }
+
+  // Repetition checks; each missed interval counts once
+  function checkIntervals(s, now) {
+    if (now - s.patSeenAt > TABLE_INTERVAL_MS) { s.counters.patError++; s.patSeenAt = now; }
+    for (const [pid, seen] of s.pmts) if (now - seen > TABLE_INTERVAL_MS) { s.counters.pmtError++; s.pmts.set(pid, now); }
+    for (const [pid, seen] of s.es) if (now - seen > PID_TIMEOUT_MS) { s.counters.pidError++; s.es.set(pid, now); }
+  }
+
+  function feed(streamId, chunk, now = Date.now()) {
+    const s = stateFor(streamId, now);
+    if (now - s.lastFeedAt > INPUT_GAP_MS) {
+      s.patSeenAt = now;
+      s.pmts.forEach((_, pid) => s.pmts.set(pid, now));
+      s.es.forEach((_, pid) => s.es.set(pid, now));
+    }
+    s.lastFeedAt = now;
+    const buf = s.rest ? Buffer.concat([s.rest, chunk]) : chunk;
+    let pos = 0;
+    while (pos + PACKET <= buf.length) {
+      if (buf[pos] !== SYNC) {
+        s.goodRun = 0;
+        if (s.synced) {
+          s.counters.syncByteError++;
+          // still in sync: a corrupted sync byte, the packet boundary stays where it was
+          if (++s.badRun < SYNC_LOSE) { pos += PACKET; continue; }
+          s.synced = false;
+          s.counters.tsSyncLoss++;
+        }
+        // out of sync: realign on the next sync byte
+        const next = buf.indexOf(SYNC, pos + 1);
+        if (next === -1) { pos = buf.length; break; }
+        pos = next;
+        continue;
+      }
+      s.badRun = 0;
+      if (!s.synced && ++s.goodRun >= SYNC_ACQUIRE) s.synced = true;
+      if (s.synced) packet(streamId, s, buf.subarray(pos, pos + PACKET), now);
+      pos += PACKET;
+    }
+    s.rest = pos < buf.length ? Buffer.from(buf.subarray(pos)) : null;
+    if (s.synced) checkIntervals(s, now);
+  }
+
+  function report(streamId) {
+    const s = streams.get(streamId);
+    if (!s) return null;
+    const window = {};
+    for (const key of Object.keys(s.counters)) window[key] = s.counters[key] - s.windowStart[key];
+    const pids = Array.from(s.pids.entries())
+      .sort((a, b) => b[1].packets - a[1].packets)
+      .slice(0, MAX_PIDS_REPORTED)
+      .map(([pid, p]) => ({ pid, kind: pid === 0 ? 'PAT' : s.pmts.has(pid) ? 'PMT' : s.es.has(pid) ? 'ES' : s.scte35.has(pid) ? 'SCTE35' : 'OTHER', packets: p.packets, ccErrors: p.ccErrors }));
+    return { since: s.since, packets: s.packets, synced: s.synced, counters: { ...s.counters }, window, windowSec: WINDOW_SEC, alarm: s.alarm, pids };
+  }
+
+  setInterval(() => {
+    for (const [streamId, s] of streams.entries()) {
+      const r = report(streamId);
+      const crossed = Object.keys(THRESHOLDS).filter((key) => THRESHOLDS[key] > 0 && r.window[key] >= THRESHOLDS[key]);
+      let transition = null;
+      if (crossed.length) {
+        transition = s.alarm ? null : 'raised';
+        s.alarm = crossed.map((key) => `${r.window[key]} ${LABELS[key]}`).join(', ') + ` in ${WINDOW_SEC}s`;
+      } else if (s.alarm) {
+        transition = 'cleared';
+        s.alarm = null;
+      }
+      s.windowStart = { ...s.counters };
+      try { onReport(streamId, { ...r, alarm: s.alarm }, transition); } catch (e) { console.error('TS health handler failed', e); }
+    }
+  }, WINDOW_SEC * 1000).unref();
+
+  return {
+    feed,
+    report,
+    forget: (streamId) => streams.delete(streamId),
+  };
+}
+
+module.exports = { createTsAnalyzer };
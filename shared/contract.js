@@ -0,0 +1,661 @@
+// shared/contract.js
+// Request/response and SSE payload schemas shared by the Node API (server/index.js loads this
+// ESM module with import()) and the frontend (imported as "@shared/contract").
+import { z } from "zod";
+
+// ---------- Common ----------
+export const resolution = z.enum(["480p", "720p"]);
+
+const streamUrl = z.string().trim().min(1, "streamUrl is required").max(4096);
+const streamName = z.string().trim().max(200).nullish();
+
+// Automatic restart: "always" also restarts as soon as ffmpeg exits, "on-signal-loss" only once
+// no data arrived for the stale threshold (crashed, exited or hung ffmpeg). Unset numbers use server defaults.
+export const restartMode = z.enum(["off", "always", "on-signal-loss"]);
+
+export const restartPolicy = z.object({
+  mode: restartMode,
+  maxAttempts: z.number().int().min(1).max(100).optional(),
+  baseDelayMs: z.number().int().min(100).max(10 * 60 * 1000).optional(),
+  maxDelayMs: z.number().int().min(100).max(60 * 60 * 1000).optional(),
+  cooldownMs: z.number().int().min(1000).max(24 * 60 * 60 * 1000).optional(),
+});
+
+// Program / elementary streams of a multi-program TS to transcode, as listed by /probe.
+// PIDs win over the program; unset parts fall back to the program's (or input's) first stream.
+const pid = z.number().int().min(0).max(8191);
+export const inputSelection = z.object({
+  programId: z.number().int().min(0).max(65535).nullish(),
+  videoPid: pid.nullish(),
+  audioPid: pid.nullish(),
+});
+
+// Rolling DVR (timeshift) window kept on the server, in minutes; 0 = live edge only
+export const dvrMinutes = z.number().int().min(0).max(12 * 60);
+
+// Named output profile (server/profiles.js); "copy" codecs remux the source without re-encoding
+const ffmpegBitrate = z.string().trim().regex(/^\d+(\.\d+)?[kM]?$/, "bitrate like 2500k or 2.5M");
+export const profileName = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z0-9][A-Za-z0-9_.-]{0,39}$/, "letters, digits, '.', '_' or '-' (max 40)")
+  .refine((n) => n !== "abr", "'abr' is reserved for the ABR ladder");
+
+export const transcodeProfile = z.object({
+  name: profileName,
+  description: z.string().trim().max(200).optional(),
+  videoCodec: z.enum(["libx264", "h264_nvenc", "h264_qsv", "copy"]),
+  preset: z.string().trim().regex(/^[a-z0-9]{1,20}$/, "ffmpeg preset name").optional(),
+  // output height, width follows the aspect ratio; unset keeps the source size
+  height: z.number().int().min(144).max(2160).optional(),
+  videoBitrate: ffmpegBitrate.optional(),
+  maxrate: ffmpegBitrate.optional(),
+  bufsize: ffmpegBitrate.optional(),
+  gop: z.number().int().min(1).max(600).optional(),
+  audioCodec: z.enum(["aac", "copy", "none"]),
+  audioBitrate: ffmpegBitrate.optional(),
+  audioChannels: z.number().int().min(1).max(8).optional(),
+  audioSampleRate: z.union([z.literal(22050), z.literal(32000), z.literal(44100), z.literal(48000)]).optional(),
+  // set by the server: built-in profiles can't be changed or deleted
+  builtin: z.boolean().optional(),
+});
+
+// SRT link statistics since the previous sample (srt:// sources relayed through srt-live-transmit)
+export const srtStats = z.object({
+  rttMs: z.number(),
+  lostPkts: z.number(),
+  retransPkts: z.number(),
+  droppedPkts: z.number(),
+  recvMbps: z.number().optional(),
+});
+
+// Transcoder -progress fields; null while ffmpeg reports N/A. speed is ffmpeg's own (averaged since
+// the process started), realtimeSpeed the last few seconds' output time per wall-clock second.
+// ended = ffmpeg reported progress=end (input finished)
+export const transcoderProgress = z.object({
+  frame: z.number().nullable(),
+  fps: z.number().nullable(),
+  speed: z.number().nullable(),
+  realtimeSpeed: z.number().nullable(),
+  dropFrames: z.number().nullable(),
+  dupFrames: z.number().nullable(),
+  outTimeSec: z.number().nullable(),
+  ended: z.boolean(),
+});
+
+export const bitrateSample = z.object({
+  time: z.number(),
+  bitrate: z.number(),
+  estimated: z.boolean().optional(),
+  srt: srtStats.optional(),
+  progress: transcoderProgress.optional(),
+});
+
+// ETSI TR 101 290 priority-1 error counts of an MPEG-TS input (server/tsanalyzer.js)
+export const tsCounters = z.object({
+  tsSyncLoss: z.number(),
+  syncByteError: z.number(),
+  patError: z.number(),
+  continuityCountError: z.number(),
+  pmtError: z.number(),
+  pidError: z.number(),
+});
+
+// counters run since `since` (ms); window = the last windowSec seconds; alarm describes the
+// window that crossed a threshold and stays set until a clean window
+export const tsHealth = z.object({
+  since: z.number(),
+  packets: z.number(),
+  synced: z.boolean(),
+  counters: tsCounters,
+  window: tsCounters,
+  windowSec: z.number(),
+  alarm: z.string().nullable(),
+  pids: z.array(
+    z.object({
+      pid: z.number(),
+      kind: z.enum(["PAT", "PMT", "ES", "SCTE35", "OTHER"]),
+      packets: z.number(),
+      ccErrors: z.number(),
+    })
+  ),
+});
+
+// health is null for inputs that aren't analysed (not UDP / SRT, or no data yet); reason says why
+export const tsHealthResponse = z.array(
+  z.object({
+    streamId: z.string(),
+    streamName: z.string().nullable(),
+    health: tsHealth.nullable(),
+    reason: z.string().nullable().optional(),
+  })
+);
+
+// SCTE-35 ad-insertion cue of an input (server/scte35.js): a splice_info_section from a TS input's
+// SCTE-35 PID (origin ts) or a cue tag of an HLS input playlist (origin hls). kind OUT starts a
+// break, IN ends it; time = when the server saw it (ms), ptsSec = the splice point in the input
+export const scte35Cue = z.object({
+  time: z.number(),
+  origin: z.enum(["ts", "hls"]),
+  command: z.string(),
+  kind: z.enum(["OUT", "IN", "SIGNAL"]),
+  eventId: z.number().nullable(),
+  durationSec: z.number().nullable(),
+  ptsSec: z.number().nullable(),
+  segmentationTypeId: z.number().nullable(),
+  detail: z.string(),
+});
+
+// What the source delivers before the transcoder (bitrateSample is the transcoded output):
+// bytes relayed for UDP / SRT / RTMP inputs, segment size over duration for HLS inputs
+export const inputBitrateSample = z.object({
+  time: z.number(),
+  bitrate: z.number(),
+});
+// EBU R128 loudness measured on the server (ebur128): momentary (400 ms), short-term (3 s) and
+// integrated LUFS plus the highest true peak (dBTP) since the previous sample. null = silence.
+export const loudnessSample = z.object({
+  time: z.number(),
+  momentary: z.number().nullable(),
+  shortTerm: z.number().nullable(),
+  integrated: z.number().nullable(),
+  truePeak: z.number().nullable(),
+});
+
+// Short-term loudness is expected within integratedLufs ± toleranceLu, true peak at or below maxTruePeak
+export const loudnessTarget = z.object({
+  integratedLufs: z.number().min(-70).max(0),
+  toleranceLu: z.number().min(0.1).max(20),
+  maxTruePeak: z.number().min(-20).max(3),
+});
+
+// Routes that address a stream accept either the server id (md5 of the URL) or the URL itself
+const streamSelectorFields = {
+  streamId: z.string().trim().min(1).optional(),
+  streamUrl: streamUrl.optional(),
+};
+const hasSelector = (v) => Boolean(v.streamId || v.streamUrl);
+const selectorMessage = { message: "streamId or streamUrl required", path: ["streamId"] };
+
+// ---------- REST ----------
+export const startStreamRequest = z.object({
+  streamUrl,
+  streamName,
+  // legacy alias of profile for the built-in 480p/720p profiles
+  resolution: resolution.optional(),
+  profile: profileName.optional(),
+  input: inputSelection.optional(),
+  // one ingest -> ABR ladder with a master playlist instead of a single rendition
+  abr: z.boolean().optional(),
+  // unset uses the server default (DVR_DEFAULT_MINUTES) for new streams
+  dvrMinutes: dvrMinutes.optional(),
+  restartPolicy: restartPolicy.optional(),
+  // unset keeps the stream's current target (server default LOUDNESS_TARGET_* for new streams)
+  loudnessTarget: loudnessTarget.optional(),
+});
+
+// What a page URL resolved to (server/resolvers.js); null for inputs ffmpeg opens as they are
+// and when resolution failed (ffmpeg then gets the original URL)
+export const sourceInfo = z.object({
+  resolver: z.enum(["custom", "yt-dlp"]),
+  // custom rule that matched
+  rule: z.string().nullable(),
+  url: z.string(),
+  resolvedAt: z.number(),
+  // renewed REFRESH_SEC before this; null = doesn't expire
+  expiresAt: z.number().nullable(),
+});
+
+export const startStreamResponse = z.object({
+  streamId: z.string(),
+  hlsUrl: z.string(),
+  hlsAbsUrl: z.string(),
+  abr: z.boolean().optional(),
+  // the server watches this stream for black / frozen / silent output (fault events)
+  faultDetection: z.boolean().optional(),
+  source: sourceInfo.nullable().optional(),
+});
+
+export const stopStreamRequest = z.object(streamSelectorFields).refine(hasSelector, selectorMessage);
+
+export const stopStreamResponse = z.object({
+  ok: z.boolean(),
+  // false: other users or players still use the shared transcoder, so it kept running
+  stopped: z.boolean().optional(),
+  message: z.string().optional(),
+});
+
+// Direct HLS tiles are registered for server-side monitoring (server/monitors.js)
+export const startMonitorRequest = z.object({
+  streamUrl,
+  streamName,
+  // unset keeps the stream's current target (server default LOUDNESS_TARGET_* for new streams)
+  loudnessTarget: loudnessTarget.optional(),
+});
+
+export const startMonitorResponse = z.object({
+  streamId: z.string(),
+  // the server watches the source for black / frozen / silent video (fault events)
+  faultDetection: z.boolean().optional(),
+});
+
+export const stopMonitorRequest = z.object(streamSelectorFields).refine(hasSelector, selectorMessage);
+
+export const restartStreamRequest = z
+  .object({
+    ...streamSelectorFields,
+    streamName,
+    resolution: resolution.optional(),
+    profile: profileName.optional(),
+    // null clears a previous selection
+    input: inputSelection.nullable().optional(),
+    abr: z.boolean().optional(),
+    dvrMinutes: dvrMinutes.optional(),
+  })
+  .refine(hasSelector, selectorMessage);
+
+export const restartStreamResponse = z.object({
+  ok: z.boolean(),
+  streamId: z.string(),
+  hlsUrl: z.string(),
+  hlsAbsUrl: z.string(),
+  abr: z.boolean().optional(),
+});
+
+export const restartPolicyRequest = z
+  .object({ ...streamSelectorFields, restartPolicy })
+  .refine(hasSelector, selectorMessage);
+
+export const restartPolicyResponse = z.object({
+  ok: z.boolean(),
+  streamId: z.string(),
+  restartPolicy: restartPolicy.required(),
+});
+
+export const loudnessTargetRequest = z
+  .object({ ...streamSelectorFields, loudnessTarget })
+  .refine(hasSelector, selectorMessage);
+
+export const loudnessTargetResponse = z.object({
+  ok: z.boolean(),
+  streamId: z.string(),
+  loudnessTarget,
+});
+
+export const calculateBitrateRequest = z.object(streamSelectorFields).refine(hasSelector, selectorMessage);
+
+export const calculateBitrateResponse = z.object({
+  bitrate: z.number().nullable(),
+  history: z.array(bitrateSample),
+  input: z.array(inputBitrateSample).optional(),
+  hlsAbsUrl: z.string(),
+});
+
+export const bitrateHistoryRequest = z
+  .object({ ...streamSelectorFields, maxSamples: z.number().int().min(1).max(3600).default(300) })
+  .refine(hasSelector, selectorMessage);
+
+export const bitrateHistoryResponse = z.object({
+  history: z.array(bitrateSample),
+  input: z.array(inputBitrateSample).optional(),
+});
+
+export const activeStream = z.object({
+  streamId: z.string(),
+  sourceUrl: z.string().nullable(),
+  streamName: z.string().nullable(),
+  hlsUrl: z.string(),
+  hlsAbsUrl: z.string(),
+  bitrate: z.number().nullable(),
+  // input (source) bitrate; null where the input isn't measured (see server/ingress.js)
+  inputBitrate: z.number().nullable(),
+  viewers: z.number(),
+  abr: z.boolean().optional(),
+  profile: z.string().nullable(),
+  input: inputSelection.nullable(),
+  dvrMinutes,
+  loudness: loudnessSample.nullable(),
+  loudnessTarget,
+  source: sourceInfo.nullable(),
+  // desired = kept in the server's registry (respawned on boot); actual = what ffmpeg is doing now
+  desired: z.boolean(),
+  actual: z.enum(["starting", "running", "stalled", "stopped"]),
+  owner: z.string().nullable(),
+});
+
+export const activeStreamsResponse = z.array(activeStream);
+
+export const profilesResponse = z.array(transcodeProfile);
+
+export const probeRequest = z.object({ streamUrl });
+
+const probedTrack = z.object({
+  index: z.number(),
+  pid: z.number().nullable(),
+  codec: z.string().nullable(),
+  language: z.string().nullable(),
+  width: z.number().nullable().optional(),
+  height: z.number().nullable().optional(),
+  fps: z.number().nullable().optional(),
+  channels: z.number().nullable().optional(),
+  sampleRate: z.number().nullable().optional(),
+});
+
+// programId null = the input has no program table (single program or not a TS)
+export const probedProgram = z.object({
+  programId: z.number().nullable(),
+  serviceName: z.string().nullable(),
+  provider: z.string().nullable(),
+  pmtPid: z.number().nullable(),
+  pcrPid: z.number().nullable(),
+  video: z.array(probedTrack),
+  audio: z.array(probedTrack),
+});
+
+// data is the raw ffprobe JSON
+export const probeResponse = z.object({
+  ok: z.boolean(),
+  programs: z.array(probedProgram).optional(),
+  data: z.unknown().optional(),
+  error: z.string().optional(),
+});
+
+export const deleteProfileResponse = z.object({ ok: z.boolean() });
+
+// ---------- Recordings ----------
+export const recordingFormat = z.enum(["mp4", "ts"]);
+const segmentMinutes = z.number().int().min(1).max(24 * 60);
+
+export const startRecordingRequest = z
+  .object({
+    ...streamSelectorFields,
+    format: recordingFormat.default("mp4"),
+    segmentMinutes: segmentMinutes.default(15),
+    // stop by itself after this long; unset records until stopped
+    durationMinutes: z.number().int().min(1).max(7 * 24 * 60).optional(),
+  })
+  .refine(hasSelector, selectorMessage);
+
+export const stopRecordingRequest = z.object(streamSelectorFields).refine(hasSelector, selectorMessage);
+
+export const recordingScheduleRequest = z
+  .object({
+    ...streamSelectorFields,
+    startAt: z.number().int(),
+    endAt: z.number().int(),
+    format: recordingFormat.default("mp4"),
+    segmentMinutes: segmentMinutes.default(15),
+  })
+  .refine(hasSelector, selectorMessage)
+  .refine((v) => v.endAt > v.startAt, { message: "endAt must be after startAt", path: ["endAt"] })
+  .refine((v) => v.endAt > Date.now(), { message: "endAt is in the past", path: ["endAt"] });
+
+// waiting = the stream isn't producing output right now; ffmpeg is retried until it does
+export const activeRecording = z.object({
+  id: z.string(),
+  streamId: z.string(),
+  streamName: z.string().nullable(),
+  format: recordingFormat,
+  segmentMinutes: z.number(),
+  startedAt: z.number(),
+  endAt: z.number().nullable(),
+  scheduleId: z.string().nullable(),
+  by: z.string().nullable(),
+  state: z.enum(["recording", "waiting"]),
+});
+
+export const recordingSchedule = z.object({
+  id: z.string(),
+  streamId: z.string(),
+  streamName: z.string().nullable(),
+  startAt: z.number(),
+  endAt: z.number(),
+  format: recordingFormat,
+  segmentMinutes: z.number(),
+  by: z.string().nullable(),
+  createdAt: z.number(),
+});
+
+// duration (seconds) is unknown for the segment still being written
+export const recordingFile = z.object({
+  streamId: z.string(),
+  streamName: z.string().nullable(),
+  filename: z.string(),
+  format: recordingFormat,
+  size: z.number(),
+  modifiedAt: z.number(),
+  duration: z.number().nullable(),
+  inProgress: z.boolean(),
+});
+
+export const recordingsResponse = z.object({
+  active: z.array(activeRecording),
+  schedules: z.array(recordingSchedule),
+  files: z.array(recordingFile),
+  retention: z.object({ days: z.number(), maxBytes: z.number() }),
+});
+
+export const okResponse = z.object({ ok: z.boolean() });
+
+// ---------- Thumbnails ----------
+// times (ms) of the stills kept for a stream, newest first; fetch one with /api/thumbnails/:id?at=<time>
+export const thumbnailInfo = z.object({
+  streamId: z.string(),
+  streamName: z.string().nullable(),
+  time: z.number(),
+  history: z.array(z.number()),
+});
+
+export const thumbnailsResponse = z.array(thumbnailInfo);
+
+// ---------- Restream outputs ----------
+export const restreamUrl = z
+  .string()
+  .trim()
+  .max(4096)
+  .regex(/^(rtmps?|srt|udp):\/\//i, "Output URL must start with rtmp://, rtmps://, srt:// or udp://");
+
+// profile "copy" forwards the transcoded output as is
+export const restreamRequest = z
+  .object({
+    ...streamSelectorFields,
+    name: z.string().trim().min(1).max(100),
+    url: restreamUrl,
+    profile: profileName.default("copy"),
+    start: z.boolean().default(true),
+  })
+  .refine(hasSelector, selectorMessage);
+
+export const restreamOutput = z.object({
+  id: z.string(),
+  streamId: z.string(),
+  streamName: z.string().nullable(),
+  name: z.string(),
+  url: z.string(),
+  profile: z.string(),
+  enabled: z.boolean(),
+  // waiting = enabled but the stream isn't producing output; error = last run failed, retrying
+  state: z.enum(["starting", "running", "waiting", "stopped", "error"]),
+  bitrate: z.number().nullable(),
+  startedAt: z.number().nullable(),
+  lastError: z.string().nullable(),
+  createdAt: z.number(),
+  by: z.string().nullable(),
+});
+
+export const restreamsResponse = z.array(restreamOutput);
+
+const dirUsage = z.object({ path: z.string(), bytes: z.number(), files: z.number() });
+
+// what an ffmpeg in the health report does
+export const ffmpegRole = z.enum(["transcoder", "srt-relay", "dvr", "detector", "recorder", "restream", "thumbnail"]);
+
+export const healthResponse = z.object({
+  time: z.number(),
+  uptimeSec: z.number(),
+  host: z.object({
+    hostname: z.string(),
+    platform: z.string(),
+    uptimeSec: z.number(),
+    cpus: z.number(),
+    loadavg: z.array(z.number()),
+    totalMem: z.number(),
+    freeMem: z.number(),
+  }),
+  process: z.object({ pid: z.number(), cpu: z.number().nullable(), rss: z.number(), heapUsed: z.number() }),
+  eventLoopLagMs: z.object({ mean: z.number(), p99: z.number(), max: z.number() }),
+  sseClients: z.number(),
+  ffmpeg: z.array(
+    z.object({
+      role: ffmpegRole.nullable(),
+      streamId: z.string().nullable(),
+      streamName: z.string().nullable(),
+      sourceUrl: z.string().nullable(),
+      pid: z.number(),
+      cpu: z.number().nullable(),
+      rss: z.number().nullable(),
+      uptimeSec: z.number().nullable(),
+      actual: z.string().nullable(),
+    })
+  ),
+  nms: z.object({
+    sessions: z.number(),
+    publishers: z.number(),
+    players: z.number(),
+    byType: z.record(z.number()),
+    inBytes: z.number().nullable(),
+    outBytes: z.number().nullable(),
+    accepted: z.number(),
+  }),
+  disk: z.object({ media: dirUsage, logs: dirUsage, free: z.number().nullable(), total: z.number().nullable() }),
+  // limits (0 = off), host CPU % they are checked against, running transcoders and queue length
+  admission: z.object({
+    maxTranscodes: z.number(),
+    userMaxTranscodes: z.number(),
+    maxCpu: z.number(),
+    hostCpu: z.number(),
+    transcodes: z.number(),
+    queued: z.number(),
+  }),
+});
+
+// Body of the 429 from /start-stream and /restart-stream when no new transcoder may start.
+// reason: global limit, the user's quota (not queued), host CPU, or queued behind earlier streams
+export const admissionRejection = z.object({
+  error: z.string(),
+  reason: z.enum(["global", "user", "cpu", "queue"]),
+  limit: z.number().nullable(),
+  // 1-based; null when not queued
+  queuePosition: z.number().nullable(),
+  queueLength: z.number(),
+  retryAfterSec: z.number(),
+});
+
+// Body of every 400 produced by a failed schema check
+export const validationErrorBody = (error) => ({
+  error: "Invalid request",
+  issues: error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+});
+
+// ---------- SSE (/events) ----------
+const streamRef = {
+  streamId: z.string(),
+  sourceUrl: z.string().nullish(),
+  streamUrl: z.string().nullish(),
+  hlsUrl: z.string().optional(),
+  hlsAbsUrl: z.string().optional(),
+};
+
+// Set on bitrate / started / stopped / error events of a restream output instead of the stream's
+// own transcoder
+const outputRef = { outputId: z.string().optional() };
+
+export const restartScheduledEvent = z.object({
+  type: z.literal("restart-scheduled"),
+  ...streamRef,
+  attempt: z.number(),
+  maxAttempts: z.number(),
+  delayMs: z.number(),
+  restartAt: z.number(),
+  reason: z.string(),
+});
+
+export const circuitOpenEvent = z.object({
+  type: z.literal("circuit-open"),
+  ...streamRef,
+  attempts: z.number(),
+  retryAt: z.number(),
+  reason: z.string(),
+});
+
+// Black / frozen / silent output found by the server's ffmpeg detectors, loudness that stayed out
+// of the stream's target for LOUDNESS_HOLD_SEC, a transcoder slower than real time or a spike in
+// its dropped frames (server/telemetry.js). `event` is the fault itself when it starts and
+// RECOVERED when it ends (with end and duration, ms)
+export const detectedFault = z.enum(["BLACK", "FROZEN", "SILENT", "LOUDNESS", "SLOW", "DROPPED_FRAMES"]);
+
+export const faultEvent = z.object({
+  type: z.literal("fault"),
+  ...streamRef,
+  event: z.enum(["BLACK", "FROZEN", "SILENT", "LOUDNESS", "SLOW", "DROPPED_FRAMES", "RECOVERED"]),
+  fault: detectedFault,
+  start: z.number(),
+  end: z.number().nullable(),
+  duration: z.number().nullable(),
+  message: z.string(),
+});
+
+export const backendEvent = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("bitrate"),
+    ...streamRef,
+    ...outputRef,
+    bitrate: z.number().nullable(),
+    estimated: z.boolean().optional(),
+    srt: srtStats.optional(),
+    progress: transcoderProgress.optional(),
+  }),
+  z.object({
+    type: z.literal("bitrate-history"),
+    ...streamRef,
+    history: z.array(bitrateSample),
+    input: z.array(inputBitrateSample).optional(),
+  }),
+  z.object({ type: z.literal("input-bitrate"), ...streamRef, bitrate: z.number() }),
+  // transition: this report raised or cleared the stream's TS alarm
+  z.object({ type: z.literal("ts-health"), ...streamRef, health: tsHealth, transition: z.enum(["raised", "cleared"]).nullable() }),
+  z.object({ type: z.literal("scte35"), ...streamRef, cue: scte35Cue }),
+  z.object({ type: z.literal("scte35-history"), ...streamRef, cues: z.array(scte35Cue) }),
+  z.object({ type: z.literal("viewers"), streamId: z.string(), viewers: z.number() }),
+  z.object({ type: z.literal("starting"), ...streamRef }),
+  z.object({ type: z.literal("started"), ...streamRef, ...outputRef, source: sourceInfo.nullable().optional() }),
+  z.object({ type: z.literal("stopped"), ...streamRef, ...outputRef }),
+  z.object({ type: z.literal("cleaned"), ...streamRef }),
+  z.object({ type: z.literal("ffmpeg-log"), streamId: z.string(), log: z.string() }),
+  z.object({ type: z.literal("error"), ...streamRef, ...outputRef, error: z.string() }),
+  restartScheduledEvent,
+  circuitOpenEvent,
+  faultEvent,
+  z.object({ type: z.literal("loudness"), ...streamRef, sample: loudnessSample, outOfTolerance: z.boolean() }),
+  z.object({ type: z.literal("loudness-history"), ...streamRef, history: z.array(loudnessSample) }),
+  // last event before the server exits (SIGINT / SIGTERM); its streams come back when it restarts
+  z.object({ type: z.literal("shutdown"), reason: z.string() }),
+]);
+
+export const BACKEND_EVENT_TYPES = backendEvent.options.map((o) => o.shape.type.value);
+
+// ---------- Traffic events (tile diagnostics) ----------
+export const trafficEventType = z.enum([
+  "NO_SIGNAL",
+  "FROZEN",
+  "BLACK",
+  "SILENT",
+  "LOUDNESS",
+  "SLOW",
+  "DROPPED_FRAMES",
+  "SCTE35",
+  "BUFFERING",
+  "RECOVERED",
+  "ERROR",
+]);
+export const trafficSeverity = z.enum(["info", "warn", "critical"]);
@@ -0,0 +1,205 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { getHealth, type FfmpegRole, type Health } from "@/lib/api";
+
+interface HealthDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const POLL_MS = 5000;
+
+const formatBytes = (n: number | null | undefined) => {
+  if (n === null || n === undefined) return "—";
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let v = n;
+  let i = 0;
+  while (v >= 1024 && i < units.length - 1) {
+    v /= 1024;
+    i++;
+  }
+  return `${v.toFixed(i === 0 ? 0 : 1)} ${units[i]}`;
+};
+
+const formatUptime = (sec: number | null | undefined) => {
+  if (sec === null || sec === undefined) return "—";
+  const d = Math.floor(sec / 86400);
+  const h = Math.floor((sec % 86400) / 3600);
+  const m = Math.floor((sec % 3600) / 60);
+  if (d > 0) return `${d}d ${h}h`;
+  if (h > 0) return `${h}h ${m}m`;
+  return `${m}m ${sec % 60}s`;
+};
+
+const ROLE_LABELS: Record<FfmpegRole, string> = {
+  transcoder: "Transcoder",
+  "srt-relay": "SRT relay",
+  dvr: "DVR recorder",
+  detector: "Detector",
+  recorder: "Recorder",
+  restream: "Restream",
+  thumbnail: "Thumbnail",
+};
+
+const Stat: React.FC<{ label: string; value: React.ReactNode; hint?: string; warn?: boolean }> = ({ label, value, hint, warn }) => (
+  <div className={cn("rounded-lg border p-3", warn && "border-destructive")}>
+    <div className="text-xs text-muted-foreground">{label}</div>
+    <div className={cn("text-lg font-semibold", warn && "text-destructive")}>{value}</div>
+    {hint && <div className="text-xs text-muted-foreground truncate">{hint}</div>}
+  </div>
+);
+
+/**
+ * Admin view of the transcoder host (/api/health): tells a source fault apart from an overloaded server.
+ */
+const HealthDialog: React.FC<HealthDialogProps> = ({ isOpen, onClose }) => {
+  const [health, setHealth] = useState<Health | null>(null);
+  const [error, setError] = useState<string>("");
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setHealth(await getHealth());
+      setError("");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    void refresh();
+    const id = setInterval(() => void refresh(), POLL_MS);
+    return () => clearInterval(id);
+  }, [isOpen, refresh]);
+
+  const memUsed = health ? health.host.totalMem - health.host.freeMem : 0;
+  const memPct = health ? Math.round((memUsed / health.host.totalMem) * 100) : 0;
+  const load1 = health?.host.loadavg[0] ?? 0;
+  const diskPct = health?.disk.total ? Math.round(((health.disk.total - (health.disk.free ?? 0)) / health.disk.total) * 100) : null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[980px] max-h-[88vh] overflow-y-auto">
+        <DialogHeader className="sticky top-0 bg-background z-10 pb-2">
+          <div className="flex items-center justify-between gap-3">
+            <DialogTitle>Server Health</DialogTitle>
+            <Button variant="outline" size="sm" onClick={() => void refresh()} disabled={loading} className="mr-6">
+              {loading ? "Refreshing…" : "Refresh"}
+            </Button>
+          </div>
+        </DialogHeader>
+
+        {error && <div className="text-sm text-destructive">Failed to load health: {error}</div>}
+
+        {health && (
+          <div className="grid gap-6 py-2">
+            {/* ✅ Host */}
+            <section className="rounded-xl border p-4">
+              <h3 className="text-lg font-semibold mb-3">Host</h3>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <Stat label="API uptime" value={formatUptime(health.uptimeSec)} hint={`host up ${formatUptime(health.host.uptimeSec)}`} />
+                <Stat
+                  label="Load (1m)"
+                  value={load1.toFixed(2)}
+                  hint={`${health.host.cpus} CPUs · ${health.host.platform}`}
+                  warn={health.host.platform !== "win32" && load1 > health.host.cpus}
+                />
+                <Stat label="Memory" value={`${memPct}%`} hint={`${formatBytes(memUsed)} / ${formatBytes(health.host.totalMem)}`} warn={memPct > 90} />
+                <Stat
+                  label="Event-loop lag"
+                  value={`${health.eventLoopLagMs.p99} ms`}
+                  hint={`p99 · mean ${health.eventLoopLagMs.mean} · max ${health.eventLoopLagMs.max}`}
+                  warn={health.eventLoopLagMs.p99 > 100}
+                />
+                <Stat label="API process" value={health.process.cpu !== null ? `${health.process.cpu}% CPU` : "—"} hint={`RSS ${formatBytes(health.process.rss)}`} />
+                <Stat label="SSE clients" value={health.sseClients} />
+                <Stat
+                  label="Media server sessions"
+                  value={health.nms.sessions}
+                  hint={`${health.nms.publishers} publishing · ${health.nms.players} playing`}
+                />
+                <Stat label="RTMP traffic" value={formatBytes(health.nms.inBytes)} hint={`in · out ${formatBytes(health.nms.outBytes)}`} />
+                <Stat
+                  label="Transcoder slots"
+                  value={health.admission.maxTranscodes > 0 ? `${health.admission.transcodes} / ${health.admission.maxTranscodes}` : health.admission.transcodes}
+                  hint={`${health.admission.queued} queued · per user ${health.admission.userMaxTranscodes || "∞"}`}
+                  warn={health.admission.queued > 0}
+                />
+                <Stat
+                  label="Host CPU"
+                  value={`${health.admission.hostCpu}%`}
+                  hint={health.admission.maxCpu > 0 ? `admits new streams below ${health.admission.maxCpu}%` : "no CPU admission limit"}
+                  warn={health.admission.maxCpu > 0 && health.admission.hostCpu >= health.admission.maxCpu}
+                />
+              </div>
+            </section>
+
+            {/* ✅ Disk */}
+            <section className="rounded-xl border p-4">
+              <h3 className="text-lg font-semibold mb-3">Disk</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <Stat label="media/" value={formatBytes(health.disk.media.bytes)} hint={`${health.disk.media.files} files`} />
+                <Stat label="server/logs" value={formatBytes(health.disk.logs.bytes)} hint={`${health.disk.logs.files} files`} />
+                <Stat
+                  label="Volume free"
+                  value={formatBytes(health.disk.free)}
+                  hint={diskPct !== null ? `${diskPct}% used of ${formatBytes(health.disk.total)}` : "not reported"}
+                  warn={diskPct !== null && diskPct > 90}
+                />
+              </div>
+            </section>
+
+            {/* ✅ ffmpeg processes */}
+            <section className="rounded-xl border p-4">
+              <h3 className="text-lg font-semibold mb-3">ffmpeg processes ({health.ffmpeg.length})</h3>
+              {health.ffmpeg.length === 0 ? (
+                <div className="text-sm text-muted-foreground">No ffmpeg processes running.</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Stream</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>PID</TableHead>
+                      <TableHead>CPU</TableHead>
+                      <TableHead>RSS</TableHead>
+                      <TableHead>Uptime</TableHead>
+                      <TableHead>State</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {health.ffmpeg.map((p) => (
+                      <TableRow key={p.pid}>
+                        <TableCell className="max-w-[320px]">
+                          <div className="font-semibold truncate">{p.streamName || p.streamId}</div>
+                          <div className="text-xs text-muted-foreground font-mono truncate">{p.sourceUrl}</div>
+                        </TableCell>
+                        <TableCell>{p.role ? ROLE_LABELS[p.role] : "—"}</TableCell>
+                        <TableCell className="font-mono">{p.pid}</TableCell>
+                        <TableCell className={cn(p.cpu !== null && p.cpu > 90 && "text-destructive font-semibold")}>
+                          {p.cpu !== null ? `${p.cpu}%` : "—"}
+                        </TableCell>
+                        <TableCell>{formatBytes(p.rss)}</TableCell>
+                        <TableCell>{formatUptime(p.uptimeSec)}</TableCell>
+                        <TableCell className={cn(p.actual && p.actual !== "running" && "text-destructive")}>{p.actual ?? "—"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </section>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HealthDialog;
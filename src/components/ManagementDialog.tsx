@@ -15,11 +15,15 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { supabase } from "@/integrations/supabase/client";
+import { releaseStream } from "@/lib/api";
+import TranscodeProfilesSection from "./TranscodeProfilesSection";
 
 interface ManagementDialogProps {
   isOpen: boolean;
   onClose: () => void;
   onStreamsChanged?: () => void;
+  canManageProfiles?: boolean;
+  onProfilesChanged?: () => void;
 }
 
 type DbStreamRow = {
@@ -32,7 +36,7 @@ type DbStreamRow = {
 
 const safeTrim = (v: string) => v.trim().replace(/\s+/g, " ");
 
-const ManagementDialog: React.FC<ManagementDialogProps> = ({ isOpen, onClose, onStreamsChanged }) => {
+const ManagementDialog: React.FC<ManagementDialogProps> = ({ isOpen, onClose, onStreamsChanged, canManageProfiles, onProfilesChanged }) => {
   const { toast } = useToast();
 
   // --- Streams (edit) ---
@@ -65,7 +69,8 @@ const ManagementDialog: React.FC<ManagementDialogProps> = ({ isOpen, onClose, on
       u.includes(".m3u8") ||
       u.startsWith("rtmp://") ||
       u.startsWith("rtsp://") ||
-      u.startsWith("udp://")
+      u.startsWith("udp://") ||
+      u.startsWith("srt://")
     );
   };
 
@@ -175,6 +180,13 @@ const ManagementDialog: React.FC<ManagementDialogProps> = ({ isOpen, onClose, on
       return;
     }
 
+    // the old source no longer has a tile: free its transcoder
+    if (existing && existing.url !== url) {
+      void releaseStream(existing.url).catch((e) =>
+        toast({ title: "Failed to stop the stream on the server", description: e instanceof Error ? e.message : String(e), variant: "destructive" })
+      );
+    }
+
     await insertActivity("edit_stream", "stream", name, `Updated stream: ${before} -> ${name} — ${url}`);
 
     toast({ title: "Stream updated" });
@@ -194,6 +206,12 @@ const ManagementDialog: React.FC<ManagementDialogProps> = ({ isOpen, onClose, on
       return;
     }
 
+    if (target) {
+      void releaseStream(target.url).catch((e) =>
+        toast({ title: "Failed to stop the stream on the server", description: e instanceof Error ? e.message : String(e), variant: "destructive" })
+      );
+    }
+
     await insertActivity("delete_stream", "stream", targetName, `Deleted stream: ${targetName}`);
     toast({ title: "Stream deleted" });
 
@@ -357,7 +375,7 @@ const ManagementDialog: React.FC<ManagementDialogProps> = ({ isOpen, onClose, on
                           </div>
 
                           <p className="text-xs text-muted-foreground">
-                            Tip: For best results without backend, use HLS (.m3u8) streams.
+                            Tip: HLS (.m3u8) plays directly; RTMP / RTSP / UDP / SRT go through the transcoder.
                           </p>
                         </div>
                       )}
@@ -367,6 +385,9 @@ const ManagementDialog: React.FC<ManagementDialogProps> = ({ isOpen, onClose, on
               )}
             </div>
           </section>
+
+          {/* ✅ Transcoding profiles (admin) */}
+          {canManageProfiles && <TranscodeProfilesSection onChanged={onProfilesChanged} />}
         </div>
 
         {/* Delete stream confirmation */}
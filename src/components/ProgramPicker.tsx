@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { probeStream, type InputSelection, type ProbedProgram } from "@/lib/api";
+
+interface ProgramPickerProps {
+  // effective source URL (transport options already applied)
+  streamUrl: string;
+  value: InputSelection | null;
+  onChange: (value: InputSelection | null) => void;
+}
+
+type Track = ProbedProgram["video"][number];
+
+const AUTO = "auto";
+// Radix Select needs string values; programs without a program table use NO_PROGRAM
+const NO_PROGRAM = "none";
+
+const programKey = (p: ProbedProgram) => (p.programId === null ? NO_PROGRAM : String(p.programId));
+
+const programLabel = (p: ProbedProgram) => {
+  if (p.programId === null) return "Single program";
+  const name = [p.serviceName, p.provider && `(${p.provider})`].filter(Boolean).join(" ");
+  return `${p.programId}${name ? ` · ${name}` : ""}`;
+};
+
+const pidLabel = (t: Track) => (t.pid !== null ? `PID ${t.pid}` : `#${t.index}`);
+
+const videoLabel = (t: Track) =>
+  [pidLabel(t), t.codec, t.width && t.height ? `${t.width}x${t.height}` : null, t.fps ? `${t.fps} fps` : null].filter(Boolean).join(" · ");
+
+const audioLabel = (t: Track) =>
+  [pidLabel(t), t.language?.toUpperCase(), t.codec, t.channels ? `${t.channels} ch` : null].filter(Boolean).join(" · ");
+
+/**
+ * Probes a transport stream and lets the user pick the program, video PID and audio track to transcode.
+ * Tracks without a PID (non-TS inputs) can't be addressed and are listed for information only.
+ */
+const ProgramPicker: React.FC<ProgramPickerProps> = ({ streamUrl, value, onChange }) => {
+  const [programs, setPrograms] = useState<ProbedProgram[] | null>(null);
+  const [probing, setProbing] = useState(false);
+  const [error, setError] = useState("");
+
+  // a different source invalidates the probe; the parent drops the selection with the URL
+  useEffect(() => {
+    setPrograms(null);
+    setError("");
+  }, [streamUrl]);
+
+  const probe = async () => {
+    setProbing(true);
+    setError("");
+    try {
+      const found = await probeStream(streamUrl);
+      setPrograms(found);
+      // default to the first program so the choice is explicit
+      const first = found[0];
+      onChange(first && first.programId !== null ? { programId: first.programId } : null);
+    } catch (e) {
+      setPrograms(null);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setProbing(false);
+    }
+  };
+
+  const program = programs?.find((p) => programKey(p) === (value?.programId != null ? String(value.programId) : NO_PROGRAM)) ?? programs?.[0];
+
+  const selectProgram = (key: string) => {
+    const p = programs?.find((x) => programKey(x) === key);
+    onChange(p && p.programId !== null ? { programId: p.programId } : null);
+  };
+
+  const selectPid = (field: "videoPid" | "audioPid", v: string) => {
+    const next: InputSelection = { ...(value ?? {}), [field]: v === AUTO ? null : Number(v) };
+    onChange(next.programId == null && !next.videoPid && !next.audioPid ? null : next);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Button variant="outline" onClick={() => void probe()} disabled={probing || !streamUrl} title="List the programs and tracks of this source">
+        {probing ? "Probing…" : "Probe"}
+      </Button>
+
+      {programs && program && (
+        <>
+          <Select value={programKey(program)} onValueChange={selectProgram}>
+            <SelectTrigger className="w-[220px] bg-input border-stream-border" title="Program (service)">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {programs.map((p) => (
+                <SelectItem key={programKey(p)} value={programKey(p)}>
+                  {programLabel(p)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={value?.videoPid ? String(value.videoPid) : AUTO} onValueChange={(v) => selectPid("videoPid", v)}>
+            <SelectTrigger className="w-[240px] bg-input border-stream-border" title="Video">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO}>Video: first in program</SelectItem>
+              {program.video.map((t) => (
+                <SelectItem key={t.index} value={String(t.pid ?? `idx-${t.index}`)} disabled={t.pid === null}>
+                  {videoLabel(t)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={value?.audioPid ? String(value.audioPid) : AUTO} onValueChange={(v) => selectPid("audioPid", v)}>
+            <SelectTrigger className="w-[240px] bg-input border-stream-border" title="Audio track">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO}>Audio: first in program</SelectItem>
+              {program.audio.map((t) => (
+                <SelectItem key={t.index} value={String(t.pid ?? `idx-${t.index}`)} disabled={t.pid === null}>
+                  {audioLabel(t)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </>
+      )}
+
+      {error && <span className="text-xs text-destructive">Probe failed: {error}</span>}
+    </div>
+  );
+};
+
+export default ProgramPicker;
@@ -0,0 +1,409 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Circle, Download, RefreshCcw, Square, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getUser, type UserPayload } from "@/lib/auth";
+import {
+  deleteRecordingFile,
+  deleteRecordingSchedule,
+  downloadRecording,
+  getActiveStreams,
+  listRecordings,
+  scheduleRecording,
+  startRecording,
+  stopRecording,
+  type ActiveStream,
+  type RecordingFile,
+  type RecordingFormat,
+  type Recordings,
+} from "@/lib/api";
+
+const POLL_MS = 10_000;
+
+const formatBytes = (n: number) => {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let v = n;
+  let i = 0;
+  while (v >= 1024 && i < units.length - 1) {
+    v /= 1024;
+    i++;
+  }
+  return `${v.toFixed(i === 0 ? 0 : 1)} ${units[i]}`;
+};
+
+const formatDuration = (sec: number | null) => {
+  if (sec === null) return "—";
+  const total = Math.round(sec);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+};
+
+const formatTime = (ms: number | null) => (ms ? new Date(ms).toLocaleString() : "—");
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (ms: number) => {
+  const d = new Date(ms - new Date(ms).getTimezoneOffset() * 60_000);
+  return d.toISOString().slice(0, 16);
+};
+
+const streamLabel = (item: { streamId?: string; streamName?: string | null }) => item.streamName || item.streamId || "";
+
+/**
+ * Recordings page: start/stop and schedule recordings of running streams, list and download the files.
+ */
+const RecordingsManager: React.FC = () => {
+  const { toast } = useToast();
+  const [user, setUser] = useState<UserPayload | null>(null);
+  const [data, setData] = useState<Recordings | null>(null);
+  const [streams, setStreams] = useState<ActiveStream[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  // form shared by "Record now" and "Schedule"
+  const [streamId, setStreamId] = useState("");
+  const [format, setFormat] = useState<RecordingFormat>("mp4");
+  const [segmentMinutes, setSegmentMinutes] = useState("15");
+  const [durationMinutes, setDurationMinutes] = useState("");
+  const [startAt, setStartAt] = useState(() => toLocalInput(Date.now() + 60 * 60_000));
+  const [endAt, setEndAt] = useState(() => toLocalInput(Date.now() + 2 * 60 * 60_000));
+
+  const canRecord = user?.role === "admin" || Boolean(user?.roles?.record_streams);
+
+  const showError = useCallback(
+    (title: string, e: unknown) => toast({ title, description: e instanceof Error ? e.message : String(e), variant: "destructive" }),
+    [toast]
+  );
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [recordings, active] = await Promise.all([listRecordings(), getActiveStreams()]);
+      setData(recordings);
+      setStreams(active);
+    } catch (e) {
+      showError("Failed to load recordings", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    void getUser().then(setUser);
+    void refresh();
+    const t = setInterval(() => void refresh(), POLL_MS);
+    return () => clearInterval(t);
+  }, [refresh]);
+
+  const recordingIds = useMemo(() => new Set((data?.active ?? []).map((r) => r.streamId)), [data]);
+
+  const run = async (action: () => Promise<unknown>, success: string, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast({ title: success });
+      await refresh();
+    } catch (e) {
+      showError(failure, e);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRecordNow = () =>
+    run(
+      () =>
+        startRecording({
+          streamId,
+          format,
+          segmentMinutes: Number(segmentMinutes) || 15,
+          ...(durationMinutes.trim() ? { durationMinutes: Number(durationMinutes) } : {}),
+        }),
+      "Recording started",
+      "Failed to start recording"
+    );
+
+  const handleSchedule = () =>
+    run(
+      () =>
+        scheduleRecording({
+          streamId,
+          format,
+          segmentMinutes: Number(segmentMinutes) || 15,
+          startAt: new Date(startAt).getTime(),
+          endAt: new Date(endAt).getTime(),
+        }),
+      "Recording scheduled",
+      "Failed to schedule recording"
+    );
+
+  const handleDownload = async (file: RecordingFile) => {
+    try {
+      const blob = await downloadRecording(file);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${streamLabel(file)}-${file.filename}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      showError("Download failed", e);
+    }
+  };
+
+  const handleDeleteFile = (file: RecordingFile) => {
+    if (!confirm(`Delete ${file.filename}?`)) return;
+    void run(() => deleteRecordingFile(file), "Recording deleted", "Failed to delete recording");
+  };
+
+  const totalBytes = (data?.files ?? []).reduce((sum, f) => sum + f.size, 0);
+
+  return (
+    <div className="space-y-6 p-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Button asChild variant="outline" size="icon" title="Back to the wall">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h2 className="text-2xl font-bold">Recordings</h2>
+            {data && (
+              <p className="text-xs text-muted-foreground">
+                {data.files.length} files · {formatBytes(totalBytes)} · kept {data.retention.days > 0 ? `${data.retention.days} days` : "forever"}
+                {data.retention.maxBytes > 0 ? `, up to ${formatBytes(data.retention.maxBytes)}` : ""}
+              </p>
+            )}
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => void refresh()} disabled={loading}>
+          <RefreshCcw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {canRecord && (
+        <section className="rounded-xl border p-4 space-y-3">
+          <h3 className="text-lg font-semibold">New recording</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+            <div className="sm:col-span-2">
+              <Label>Stream</Label>
+              <Select value={streamId} onValueChange={setStreamId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Pick a transcoded stream" />
+                </SelectTrigger>
+                <SelectContent>
+                  {streams.map((s) => (
+                    <SelectItem key={s.streamId} value={s.streamId}>
+                      {s.streamName || s.sourceUrl || s.streamId} {s.actual !== "running" ? `(${s.actual})` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Format</Label>
+              <Select value={format} onValueChange={(v) => setFormat(v as RecordingFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="mp4">MP4 (fragmented)</SelectItem>
+                  <SelectItem value="ts">MPEG-TS</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Segment length (min)</Label>
+              <Input type="number" min={1} value={segmentMinutes} onChange={(e) => setSegmentMinutes(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <Label>Stop after (min)</Label>
+              <Input className="w-[140px]" type="number" min={1} placeholder="until stopped" value={durationMinutes} onChange={(e) => setDurationMinutes(e.target.value)} />
+            </div>
+            <Button onClick={() => void handleRecordNow()} disabled={busy || !streamId || recordingIds.has(streamId)}>
+              <Circle className="h-4 w-4 mr-2 fill-red-500 text-red-500" />
+              Record now
+            </Button>
+
+            <div className="ml-0 sm:ml-6">
+              <Label>From</Label>
+              <Input type="datetime-local" value={startAt} onChange={(e) => setStartAt(e.target.value)} />
+            </div>
+            <div>
+              <Label>To</Label>
+              <Input type="datetime-local" value={endAt} onChange={(e) => setEndAt(e.target.value)} />
+            </div>
+            <Button variant="outline" onClick={() => void handleSchedule()} disabled={busy || !streamId}>
+              Schedule
+            </Button>
+          </div>
+        </section>
+      )}
+
+      <section className="rounded-xl border p-4">
+        <h3 className="text-lg font-semibold">Active</h3>
+        <Table className="mt-2">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Stream</TableHead>
+              <TableHead>State</TableHead>
+              <TableHead>Format</TableHead>
+              <TableHead>Started</TableHead>
+              <TableHead>Ends</TableHead>
+              <TableHead>By</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {(data?.active ?? []).length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-sm text-muted-foreground text-center py-4">
+                  Nothing is being recorded.
+                </TableCell>
+              </TableRow>
+            ) : (
+              data!.active.map((r) => (
+                <TableRow key={r.id}>
+                  <TableCell className="font-semibold">{streamLabel(r)}</TableCell>
+                  <TableCell className={r.state === "recording" ? "text-red-500 font-semibold" : "text-yellow-600"} title={r.state === "waiting" ? "Waiting for the stream to produce output" : undefined}>
+                    {r.state}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {r.format.toUpperCase()} · {r.segmentMinutes} min segments
+                  </TableCell>
+                  <TableCell className="text-xs">{formatTime(r.startedAt)}</TableCell>
+                  <TableCell className="text-xs">{r.endAt ? formatTime(r.endAt) : "when stopped"}</TableCell>
+                  <TableCell className="text-xs">{r.by ?? "—"}</TableCell>
+                  <TableCell className="text-right">
+                    {canRecord && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={busy}
+                        onClick={() => void run(() => (r.scheduleId ? deleteRecordingSchedule(r.scheduleId) : stopRecording(r.streamId)), "Recording stopped", "Failed to stop recording")}
+                      >
+                        <Square className="h-3 w-3 mr-1" />
+                        Stop
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </section>
+
+      <section className="rounded-xl border p-4">
+        <h3 className="text-lg font-semibold">Schedules</h3>
+        <Table className="mt-2">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Stream</TableHead>
+              <TableHead>From</TableHead>
+              <TableHead>To</TableHead>
+              <TableHead>Format</TableHead>
+              <TableHead>By</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {(data?.schedules ?? []).length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-sm text-muted-foreground text-center py-4">
+                  No scheduled recordings.
+                </TableCell>
+              </TableRow>
+            ) : (
+              data!.schedules.map((s) => (
+                <TableRow key={s.id}>
+                  <TableCell className="font-semibold">{streamLabel(s)}</TableCell>
+                  <TableCell className="text-xs">{formatTime(s.startAt)}</TableCell>
+                  <TableCell className="text-xs">{formatTime(s.endAt)}</TableCell>
+                  <TableCell className="text-xs">
+                    {s.format.toUpperCase()} · {s.segmentMinutes} min segments
+                  </TableCell>
+                  <TableCell className="text-xs">{s.by ?? "—"}</TableCell>
+                  <TableCell className="text-right">
+                    {canRecord && (
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        disabled={busy}
+                        onClick={() => void run(() => deleteRecordingSchedule(s.id), "Schedule removed", "Failed to remove schedule")}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </section>
+
+      <section className="rounded-xl border p-4">
+        <h3 className="text-lg font-semibold">Files</h3>
+        <Table className="mt-2">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Stream</TableHead>
+              <TableHead>File</TableHead>
+              <TableHead>Last written</TableHead>
+              <TableHead>Duration</TableHead>
+              <TableHead>Size</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {(data?.files ?? []).length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-sm text-muted-foreground text-center py-4">
+                  No recordings on disk.
+                </TableCell>
+              </TableRow>
+            ) : (
+              data!.files.map((f) => (
+                <TableRow key={`${f.streamId}/${f.filename}`}>
+                  <TableCell className="font-semibold">{streamLabel(f)}</TableCell>
+                  <TableCell className="text-xs font-mono">{f.filename}</TableCell>
+                  <TableCell className="text-xs">{formatTime(f.modifiedAt)}</TableCell>
+                  <TableCell className="text-xs">{f.inProgress ? <span className="text-red-500">recording…</span> : formatDuration(f.duration)}</TableCell>
+                  <TableCell className="text-xs">{formatBytes(f.size)}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => void handleDownload(f)} disabled={f.inProgress} title="Download">
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      {canRecord && (
+                        <Button variant="destructive" size="sm" onClick={() => handleDeleteFile(f)} disabled={busy || f.inProgress} title="Delete">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </section>
+    </div>
+  );
+};
+
+export default RecordingsManager;
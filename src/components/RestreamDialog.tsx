@@ -0,0 +1,216 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Play, Square, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { useBackendEvents } from "@/hooks/use-backend-events";
+import {
+  addRestream,
+  deleteRestream,
+  listRestreams,
+  startRestream,
+  stopRestream,
+  type BackendEvent,
+  type RestreamOutput,
+  type TranscodeProfile,
+} from "@/lib/api";
+
+interface RestreamDialogProps {
+  // the tile whose outputs are shown; null keeps the dialog closed
+  stream: { name: string; url: string } | null;
+  profiles: TranscodeProfile[];
+  onClose: () => void;
+}
+
+const STATE_STYLES: Record<RestreamOutput["state"], string> = {
+  running: "bg-green-700",
+  starting: "bg-yellow-600",
+  waiting: "bg-slate-600",
+  stopped: "bg-slate-800",
+  error: "bg-red-700",
+};
+
+/**
+ * Restream outputs of one stream: forward it to RTMP / SRT / UDP destinations, copied or
+ * re-encoded with a profile, each with its own status, bitrate and start/stop.
+ */
+const RestreamDialog: React.FC<RestreamDialogProps> = ({ stream, profiles, onClose }) => {
+  const { toast } = useToast();
+  const [outputs, setOutputs] = useState<RestreamOutput[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [profile, setProfile] = useState("copy");
+
+  const streamUrl = stream?.url ?? null;
+
+  const showError = useCallback(
+    (title: string, e: unknown) => toast({ title, description: e instanceof Error ? e.message : String(e), variant: "destructive" }),
+    [toast]
+  );
+
+  const refresh = useCallback(async () => {
+    if (!streamUrl) return;
+    try {
+      setOutputs(await listRestreams(streamUrl));
+    } catch (e) {
+      showError("Failed to load restream outputs", e);
+    }
+  }, [streamUrl, showError]);
+
+  useEffect(() => {
+    setOutputs([]);
+    void refresh();
+  }, [refresh]);
+
+  // started / stopped / error change an output's state: reload; bitrate only updates the row
+  const handleEvent = useCallback(
+    (evt: BackendEvent) => {
+      if (!("outputId" in evt) || !evt.outputId) return;
+      const { outputId } = evt;
+      if (evt.type === "bitrate") {
+        if (typeof evt.bitrate !== "number") return;
+        const bitrate = evt.bitrate;
+        setOutputs((prev) => prev.map((o) => (o.id === outputId ? { ...o, bitrate, state: "running" } : o)));
+        return;
+      }
+      void refresh();
+    },
+    [refresh]
+  );
+
+  useBackendEvents(handleEvent, Boolean(stream));
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      await refresh();
+    } catch (e) {
+      showError(failure, e);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = () =>
+    run(async () => {
+      await addRestream({ streamUrl: streamUrl!, name: name.trim(), url: url.trim(), profile });
+      setName("");
+      setUrl("");
+    }, "Failed to add output");
+
+  return (
+    <Dialog open={Boolean(stream)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[900px] max-h-[88vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Restream outputs{stream ? ` · ${stream.name}` : ""}</DialogTitle>
+        </DialogHeader>
+
+        <section className="rounded-xl border p-4 space-y-3">
+          <h3 className="text-lg font-semibold">New output</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+            <div>
+              <Label>Name</Label>
+              <Input placeholder="YouTube" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="sm:col-span-2">
+              <Label>Destination</Label>
+              <Input
+                className="font-mono"
+                placeholder="rtmp://a.rtmp.youtube.com/live2/KEY, srt://host:port or udp://239.0.0.1:1234"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Profile</Label>
+              <Select value={profile} onValueChange={setProfile}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {!profiles.some((p) => p.name === "copy") && <SelectItem value="copy">copy</SelectItem>}
+                  {profiles.map((p) => (
+                    <SelectItem key={p.name} value={p.name}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button onClick={() => void handleAdd()} disabled={busy || !name.trim() || !url.trim()}>
+            Add and start
+          </Button>
+        </section>
+
+        <section className="rounded-xl border p-4">
+          <h3 className="text-lg font-semibold mb-3">Outputs ({outputs.length})</h3>
+          {outputs.length === 0 ? (
+            <div className="text-sm text-muted-foreground">No outputs for this stream.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Output</TableHead>
+                  <TableHead>Profile</TableHead>
+                  <TableHead>State</TableHead>
+                  <TableHead>Bitrate</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {outputs.map((o) => (
+                  <TableRow key={o.id}>
+                    <TableCell className="max-w-[320px]">
+                      <div className="font-semibold truncate">{o.name}</div>
+                      <div className="text-xs text-muted-foreground font-mono truncate" title={o.url}>
+                        {o.url}
+                      </div>
+                      {o.lastError && o.state === "error" && <div className="text-xs text-destructive truncate" title={o.lastError}>{o.lastError}</div>}
+                    </TableCell>
+                    <TableCell>{o.profile}</TableCell>
+                    <TableCell>
+                      <span className={cn("px-2 py-0.5 rounded text-xs text-white", STATE_STYLES[o.state])}>{o.state}</span>
+                    </TableCell>
+                    <TableCell className="font-mono">{typeof o.bitrate === "number" ? `${o.bitrate.toFixed(2)} Mbps` : "—"}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {o.enabled ? (
+                        <Button variant="outline" size="sm" disabled={busy} onClick={() => void run(() => stopRestream(o.id), "Failed to stop output")} title="Stop this output">
+                          <Square className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                        <Button variant="outline" size="sm" disabled={busy} onClick={() => void run(() => startRestream(o.id), "Failed to start output")} title="Start this output">
+                          <Play className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        className="ml-2"
+                        disabled={busy}
+                        onClick={() => void run(() => deleteRestream(o.id), "Failed to delete output")}
+                        title="Delete this output"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </section>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RestreamDialog;
@@ -1,6 +1,9 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { VideoPlayer } from "./VideoPlayer";
-import { RotateCcw, Plus, Monitor, Save, LogOut, Settings, Download } from "lucide-react";
+import { ThumbnailTile } from "./ThumbnailTile";
+import type { BitrateMarker, BitrateSeries } from "./ui/AllBitrateGraph";
+import { Link } from "react-router-dom";
+import { RotateCcw, Plus, Monitor, Save, LogOut, Settings, Download, Trash2, Activity, Film, Share2, HeartPulse } from "lucide-react";
 
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -8,16 +11,63 @@ import { Button } from "@/components/ui/button";
 import { useToast } from "@/components/ui/use-toast";
 
 const AllBitrateGraph = React.lazy(() => import("./ui/AllBitrateGraph"));
+const LoudnessGraph = React.lazy(() => import("./ui/LoudnessGraph"));
 
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Label } from "@/components/ui/label";
-
-import { getUser, logout, UserPayload } from "@/lib/auth";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+import { getToken, getUser, logout, UserPayload } from "@/lib/auth";
 import ManagementDialog from "./ManagementDialog";
+import HealthDialog from "./HealthDialog";
+import RestreamDialog from "./RestreamDialog";
+import TsHealthDialog from "./TsHealthDialog";
+import ProgramPicker from "./ProgramPicker";
 import { supabase } from "@/integrations/supabase/client";
+import {
+  ApiError,
+  listProfiles,
+  listThumbnails,
+  monitorStream,
+  needsTranscoder,
+  releaseStream,
+  setLoudnessTarget,
+  setRestartPolicy,
+  startStream,
+  thumbnailUrl,
+  type BackendEvent,
+  type BitrateSample,
+  type InputBitrateSample,
+  type InputSelection,
+  type LoudnessSample,
+  type SourceInfo,
+  type LoudnessTarget,
+  type SrtStats,
+  type TranscoderProgress,
+  type ThumbnailInfo,
+  type RestartEvent,
+  type RestartMode,
+  type Scte35Cue,
+  type TrafficEventType,
+  type TrafficSeverity,
+  type TranscodeProfile,
+} from "@/lib/api";
+import { useBackendEvents } from "@/hooks/use-backend-events";
+import { formatTelemetry, transcoderLagging } from "@/lib/telemetry";
+import { applySrtOptions, DEFAULT_SRT_OPTIONS, isSrtUrl, validateSrtOptions, type SrtOptions } from "@/lib/srt";
+import { applyUdpOptions, DEFAULT_UDP_OPTIONS, isUdpUrl, validateUdpOptions, type UdpOptions } from "@/lib/udp";
 
 type DbStreamRow = {
   id: string;
@@ -65,6 +115,33 @@ type BitrateLogRow = {
 
 type DownloadRange = "1h" | "24h" | "all";
 
+// transcoder output for RTMP/RTSP/UDP tiles: a named profile, or the ABR ladder
+const ABR_CHOICE = "abr";
+const DEFAULT_PROFILE = "480p";
+// ABR wall tiles pin the rendition closest to this height; the fullscreen tile goes back to auto
+const WALL_LEVEL = 360;
+
+// server-side DVR window for new transcoded tiles; "default" leaves it to the server (DVR_DEFAULT_MINUTES)
+const DVR_DEFAULT_CHOICE = "default";
+const DVR_CHOICES: { minutes: number; label: string }[] = [
+  { minutes: 0, label: "Off" },
+  { minutes: 5, label: "5 min" },
+  { minutes: 30, label: "30 min" },
+  { minutes: 60, label: "1 hour" },
+  { minutes: 120, label: "2 hours" },
+  { minutes: 360, label: "6 hours" },
+  { minutes: 720, label: "12 hours" },
+];
+
+// loudness target for every transcoded tile (server-side EBU R128 measurement)
+const LOUDNESS_PRESETS: { id: string; label: string; target: LoudnessTarget }[] = [
+  { id: "ebu-r128", label: "EBU R128 (-23 ±1)", target: { integratedLufs: -23, toleranceLu: 1, maxTruePeak: -1 } },
+  { id: "atsc-a85", label: "ATSC A/85 (-24 ±2)", target: { integratedLufs: -24, toleranceLu: 2, maxTruePeak: -2 } },
+  { id: "streaming-16", label: "Streaming (-16 ±1)", target: { integratedLufs: -16, toleranceLu: 1, maxTruePeak: -1 } },
+  { id: "streaming-14", label: "Streaming (-14 ±1)", target: { integratedLufs: -14, toleranceLu: 1, maxTruePeak: -1 } },
+];
+const LOUDNESS_HISTORY_MS = 60 * 60 * 1000;
+
 // --------- Activity Logs ----------
 type ActivityAction =
   | "login"
@@ -98,9 +175,6 @@ type DbActivityLog = {
 };
 
 // --------- Traffic Logs (Realtime Diagnostics) ----------
-type TrafficEventType = "NO_SIGNAL" | "FROZEN" | "BLACK" | "SILENT" | "BUFFERING" | "RECOVERED" | "ERROR";
-type TrafficSeverity = "info" | "warn" | "critical";
-
 type TrafficEvent = {
   ts: number;
   streamId: string;
@@ -124,6 +198,22 @@ type TrafficLogRow = {
 
 const safeTrim = (v: unknown) => String(v ?? "").trim();
 
+// tile id -> auto-restart mode, sent to the transcoder on every start
+const RESTART_POLICIES_KEY = "sm_restart_policies_v1";
+// tile id -> transcoding profile name (or ABR_CHOICE), picked when the stream is added
+const STREAM_PROFILES_KEY = "sm_stream_profiles_v1";
+// tile id -> MPTS program / PIDs picked from /probe when the stream was added
+const STREAM_INPUTS_KEY = "sm_stream_inputs_v1";
+// tile id -> DVR window in minutes, picked when the stream is added
+const STREAM_DVR_KEY = "sm_stream_dvr_v1";
+// LOUDNESS_PRESETS id
+const LOUDNESS_PRESET_KEY = "sm_loudness_preset_v1";
+// "video" (a player per tile) or "thumbnails" (server stills, no HLS traffic)
+const WALL_MODE_KEY = "sm_wall_mode_v1";
+const THUMBNAIL_POLL_MS = 10_000;
+
+type WallMode = "video" | "thumbnails";
+
 const formatDateTime = (isoOrMs: string | number) => {
   try {
     const d = typeof isoOrMs === "number" ? new Date(isoOrMs) : new Date(isoOrMs);
@@ -163,6 +253,14 @@ const trafficTypeLabel = (t: TrafficEventType) => {
       return "Black Video";
     case "SILENT":
       return "Silent Audio";
+    case "LOUDNESS":
+      return "Loudness";
+    case "SLOW":
+      return "Slow Transcode";
+    case "DROPPED_FRAMES":
+      return "Dropped Frames";
+    case "SCTE35":
+      return "SCTE-35 Cue";
     case "BUFFERING":
       return "Buffering";
     case "RECOVERED":
@@ -183,23 +281,79 @@ export const StreamManager: React.FC = () => {
   const [streams, setStreams] = useState<Stream[]>([]);
   const [streamName, setStreamName] = useState("");
   const [streamUrl, setStreamUrl] = useState("");
+  const [srtOptions, setSrtOptions] = useState<SrtOptions>(DEFAULT_SRT_OPTIONS);
+  const [udpOptions, setUdpOptions] = useState<UdpOptions>(DEFAULT_UDP_OPTIONS);
+  const [inputSelection, setInputSelection] = useState<InputSelection | null>(null);
+  const [streamInputs, setStreamInputs] = useState<Record<string, InputSelection>>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(STREAM_INPUTS_KEY) || "{}") || {};
+    } catch {
+      return {};
+    }
+  });
+  const [srtStats, setSrtStats] = useState<Record<string, SrtStats>>({});
+  const [progress, setProgress] = useState<Record<string, TranscoderProgress>>({});
 
   const [currentTime, setCurrentTime] = useState(new Date());
 
   // ✅ DEFAULT GRID = 6 columns
   const [gridLayout, setGridLayout] = useState<"3-2" | "4-2" | "6-2">("6-2");
+  const [focusedStreamId, setFocusedStreamId] = useState<string | null>(null);
+  const [wallMode, setWallMode] = useState<WallMode>(() => (localStorage.getItem(WALL_MODE_KEY) === "thumbnails" ? "thumbnails" : "video"));
+  const [newStreamProfile, setNewStreamProfile] = useState<string>(DEFAULT_PROFILE);
+  const [profileOptions, setProfileOptions] = useState<TranscodeProfile[]>([]);
+  const [streamProfiles, setStreamProfiles] = useState<Record<string, string>>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(STREAM_PROFILES_KEY) || "{}") || {};
+    } catch {
+      return {};
+    }
+  });
+  const [newStreamDvr, setNewStreamDvr] = useState<string>(DVR_DEFAULT_CHOICE);
+  const [streamDvr, setStreamDvr] = useState<Record<string, number>>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(STREAM_DVR_KEY) || "{}") || {};
+    } catch {
+      return {};
+    }
+  });
+  // tile id -> pending jump to a traffic event's moment
+  const [seekRequests, setSeekRequests] = useState<Record<string, { at: number; seq: number }>>({});
 
   const [allBitrateHistory, setAllBitrateHistory] = useState<AllBitrateDataPoint[]>([]);
+  // input (source) bitrate measured by the server; sparse, one point per sample and tile
+  const [inputBitrateHistory, setInputBitrateHistory] = useState<AllBitrateDataPoint[]>([]);
+  const [bitrateSeries, setBitrateSeries] = useState<BitrateSeries>("output");
+  // SCTE-35 cues of the inputs, drawn as markers on the bitrate graph
+  const [cueMarkers, setCueMarkers] = useState<BitrateMarker[]>([]);
   const [reloadSignals, setReloadSignals] = useState<Record<string, number>>({});
   const [failureCounts, setFailureCounts] = useState<Record<string, number>>({});
 
   const [selectedGraphStream, setSelectedGraphStream] = useState<string>("all");
+  const [loudnessPreset, setLoudnessPreset] = useState<string>(() => {
+    const saved = localStorage.getItem(LOUDNESS_PRESET_KEY);
+    return LOUDNESS_PRESETS.some((p) => p.id === saved) ? saved : LOUDNESS_PRESETS[0].id;
+  });
+  const loudnessTarget = useMemo(() => (LOUDNESS_PRESETS.find((p) => p.id === loudnessPreset) ?? LOUDNESS_PRESETS[0]).target, [loudnessPreset]);
+  // tile id -> latest server loudness sample; short-term LUFS per tile for the graph
+  const [loudness, setLoudness] = useState<Record<string, { sample: LoudnessSample; outOfTolerance: boolean }>>({});
+  const [loudnessHistory, setLoudnessHistory] = useState<AllBitrateDataPoint[]>([]);
+  // tile id -> what its page URL resolved to (server "started" events)
+  const [sources, setSources] = useState<Record<string, SourceInfo | null>>({});
   const [isManagementOpen, setManagementOpen] = useState(false);
+  const [isHealthOpen, setHealthOpen] = useState(false);
+  // tile whose restream outputs are being edited
+  const [restreamStream, setRestreamStream] = useState<Stream | null>(null);
+  // tile whose TS health is open, and the tiles whose input has a TS alarm raised
+  const [tsHealthStream, setTsHealthStream] = useState<Stream | null>(null);
+  const [tsAlarms, setTsAlarms] = useState<Record<string, string | null>>({});
+  // tile waiting for its delete confirmation
+  const [confirmDeleteStream, setConfirmDeleteStream] = useState<Stream | null>(null);
 
   const [downloadRange, setDownloadRange] = useState<DownloadRange>("24h");
 
   // ✅ Tabs
-  const [activeTab, setActiveTab] = useState<"bitrate" | "logs" | "traffic">("bitrate");
+  const [activeTab, setActiveTab] = useState<"bitrate" | "loudness" | "logs" | "traffic">("bitrate");
 
   // ✅ Activity logs
   const [logs, setLogs] = useState<DbActivityLog[]>([]);
@@ -324,6 +478,17 @@ export const StreamManager: React.FC = () => {
     return () => window.removeEventListener("beforeunload", handler);
   }, [flushBitrateBuffer]);
 
+  // --------- ✅ Focused tile ----------
+  // the tile whose player is fullscreen
+  useEffect(() => {
+    const handler = () => {
+      const tile = document.fullscreenElement?.closest("[id^='tile-']");
+      setFocusedStreamId(tile ? tile.id.slice("tile-".length) : null);
+    };
+    document.addEventListener("fullscreenchange", handler);
+    return () => document.removeEventListener("fullscreenchange", handler);
+  }, []);
+
   // --------- ✅ Traffic logs DB buffer ----------
   const trafficBufferRef = useRef<TrafficLogRow[]>([]);
   const lastTrafficWriteAtRef = useRef<number>(0);
@@ -372,6 +537,55 @@ export const StreamManager: React.FC = () => {
     void loadEmail();
   }, []);
 
+  // --------- Transcoding profiles ----------
+  const loadProfiles = useCallback(async () => {
+    try {
+      setProfileOptions(await listProfiles());
+    } catch (e) {
+      console.warn("Failed to load transcoding profiles:", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadProfiles();
+  }, [loadProfiles]);
+
+  const rememberStreamProfile = useCallback((tileId: string, profile: string) => {
+    setStreamProfiles((prev) => {
+      const next = { ...prev, [tileId]: profile };
+      try {
+        localStorage.setItem(STREAM_PROFILES_KEY, JSON.stringify(next));
+      } catch {
+        // ignore
+      }
+      return next;
+    });
+  }, []);
+
+  const rememberStreamInput = useCallback((tileId: string, input: InputSelection) => {
+    setStreamInputs((prev) => {
+      const next = { ...prev, [tileId]: input };
+      try {
+        localStorage.setItem(STREAM_INPUTS_KEY, JSON.stringify(next));
+      } catch {
+        // ignore
+      }
+      return next;
+    });
+  }, []);
+
+  const rememberStreamDvr = useCallback((tileId: string, minutes: number) => {
+    setStreamDvr((prev) => {
+      const next = { ...prev, [tileId]: minutes };
+      try {
+        localStorage.setItem(STREAM_DVR_KEY, JSON.stringify(next));
+      } catch {
+        // ignore
+      }
+      return next;
+    });
+  }, []);
+
   // --------- Clock ----------
   useEffect(() => {
     const t = setInterval(() => setCurrentTime(new Date()), 1000);
@@ -381,7 +595,7 @@ export const StreamManager: React.FC = () => {
   // --------- URL validation ----------
   const isValidStreamUrl = (url: string): boolean => {
     const lowerUrl = url.trim().toLowerCase();
-    return lowerUrl.startsWith("http://") || lowerUrl.startsWith("https://") || lowerUrl.includes(".m3u8") || lowerUrl.startsWith("rtmp://") || lowerUrl.startsWith("rtsp://") || lowerUrl.startsWith("udp://");
+    return lowerUrl.startsWith("http://") || lowerUrl.startsWith("https://") || lowerUrl.includes(".m3u8") || lowerUrl.startsWith("rtmp://") || lowerUrl.startsWith("rtsp://") || lowerUrl.startsWith("udp://") || lowerUrl.startsWith("srt://");
   };
 
   // --------- Load streams from DB ----------
@@ -590,18 +804,332 @@ export const StreamManager: React.FC = () => {
     [streams, trafficPaused, trafficLimit, flushTrafficBuffer]
   );
 
+  // =========================
+  // ✅ SERVER EVENTS (SSE): transcoder bitrate + status, also for off-screen tiles
+  // =========================
+  const [serverStatus, setServerStatus] = useState<Record<string, "starting" | "offline">>({});
+
+  // tiles whose bitrate comes from the transcoder (player fragment sizes are ignored for those)
+  const serverFedRef = useRef<Set<string>>(new Set());
+  // server streamId (md5 of the source URL) -> tile id, learned from events that carry a URL
+  const serverIdToTileRef = useRef<Map<string, string>>(new Map());
+
+  // latest restart-scheduled / circuit-open per tile, cleared once the transcoder delivers again
+  const [restartStates, setRestartStates] = useState<Record<string, RestartEvent>>({});
+
+  const setTileRestartState = useCallback((tileId: string, next: RestartEvent | null) => {
+    setRestartStates((prev) => {
+      if (!next && !prev[tileId]) return prev;
+      const copy = { ...prev };
+      if (next) copy[tileId] = next;
+      else delete copy[tileId];
+      return copy;
+    });
+  }, []);
+
+  const setTileServerStatus = useCallback((tileId: string, next: "starting" | "offline" | null) => {
+    setServerStatus((prev) => {
+      if ((prev[tileId] ?? null) === next) return prev;
+      const copy = { ...prev };
+      if (next) copy[tileId] = next;
+      else delete copy[tileId];
+      return copy;
+    });
+  }, []);
+
+  const tileForServerEvent = useCallback(
+    (evt: BackendEvent): Stream | undefined => {
+      if (!("streamId" in evt)) return undefined;
+      const url = "sourceUrl" in evt ? evt.sourceUrl || evt.streamUrl : null;
+      if (url) {
+        const n = normalizeUrl(url);
+        const hit = streams.find((s) => normalizeUrl(s.url) === n);
+        if (hit) {
+          serverIdToTileRef.current.set(evt.streamId, hit.id);
+          return hit;
+        }
+      }
+      const tileId = serverIdToTileRef.current.get(evt.streamId);
+      return tileId ? streams.find((s) => s.id === tileId) : undefined;
+    },
+    [streams]
+  );
+
+  // Backfill the graph with server history (sent on connect); older than what we already have
+  const mergeServerHistory = useCallback((tileId: string, history: BitrateSample[]) => {
+    const cutoff = Date.now() - 24 * 60 * 60 * 1000;
+    const estKey = `${tileId}__est`;
+
+    setAllBitrateHistory((prev) => {
+      const latest = prev.length ? prev[prev.length - 1].time : Infinity;
+      const known = new Set(prev.filter((p) => p[tileId] !== undefined).map((p) => p.time));
+
+      const points: AllBitrateDataPoint[] = history
+        .filter((h) => h.time >= cutoff && h.time < latest && !known.has(h.time))
+        .map((h) => ({ time: h.time, [tileId]: h.bitrate, [estKey]: h.estimated ? 1 : null }));
+
+      if (points.length === 0) return prev;
+      return [...prev, ...points].sort((a, b) => a.time - b.time);
+    });
+  }, []);
+
+  const mergeInputBitrate = useCallback((tileId: string, samples: InputBitrateSample[]) => {
+    const cutoff = Date.now() - 24 * 60 * 60 * 1000;
+    setInputBitrateHistory((prev) => {
+      const known = new Set(prev.filter((p) => p[tileId] !== undefined).map((p) => p.time));
+      const fresh = samples.filter((h) => h.time >= cutoff && !known.has(h.time)).map((h) => ({ time: h.time, [tileId]: h.bitrate }));
+      if (fresh.length === 0) return prev;
+      return [...prev.filter((p) => p.time >= cutoff), ...fresh].sort((a, b) => a.time - b.time);
+    });
+  }, []);
+
+  const mergeCues = useCallback((tileId: string, cues: Scte35Cue[]) => {
+    const cutoff = Date.now() - 24 * 60 * 60 * 1000;
+    setCueMarkers((prev) => {
+      const known = new Set(prev.filter((m) => m.streamId === tileId).map((m) => m.time));
+      const fresh = cues
+        .filter((c) => c.time >= cutoff && !known.has(c.time))
+        .map((c) => ({ time: c.time, streamId: tileId, label: c.kind, detail: `SCTE-35 ${c.kind} (${c.origin.toUpperCase()}): ${c.detail}` }));
+      if (fresh.length === 0) return prev;
+      return [...prev.filter((m) => m.time >= cutoff), ...fresh];
+    });
+  }, []);
+
+  const mergeLoudness = useCallback((tileId: string, samples: LoudnessSample[]) => {
+    const cutoff = Date.now() - LOUDNESS_HISTORY_MS;
+    const points: AllBitrateDataPoint[] = samples.filter((h) => h.shortTerm !== null).map((h) => ({ time: h.time, [tileId]: h.shortTerm }));
+    setLoudnessHistory((prev) => {
+      const known = new Set(prev.filter((p) => p[tileId] !== undefined).map((p) => p.time));
+      const fresh = points.filter((p) => p.time >= cutoff && !known.has(p.time));
+      if (fresh.length === 0) return prev;
+      return [...prev.filter((p) => p.time >= cutoff), ...fresh];
+    });
+  }, []);
+
+  const handleBackendEvent = useCallback(
+    (evt: BackendEvent) => {
+      // events of restream outputs belong to the Restream dialog, not to the tile's transcoder
+      if ("outputId" in evt && evt.outputId) return;
+      if (evt.type === "shutdown") {
+        toast({ title: "Server restarting", description: "Streams resume once the server is back up.", variant: "destructive" });
+        return;
+      }
+      const stream = tileForServerEvent(evt);
+      if (!stream) return;
+
+      switch (evt.type) {
+        case "bitrate":
+          serverFedRef.current.add(stream.id);
+          if (evt.srt) {
+            const stats = evt.srt;
+            setSrtStats((prev) => ({ ...prev, [stream.id]: stats }));
+          }
+          if (evt.progress) {
+            const sample = evt.progress;
+            setProgress((prev) => ({ ...prev, [stream.id]: sample }));
+          }
+          // null = process just started, no sample yet
+          if (typeof evt.bitrate !== "number") return;
+          if (evt.bitrate > 0) {
+            setTileServerStatus(stream.id, null);
+            setTileRestartState(stream.id, null);
+          }
+          void handleBitrateUpdate(stream.id, evt.bitrate);
+          break;
+        case "bitrate-history":
+          serverFedRef.current.add(stream.id);
+          mergeServerHistory(stream.id, evt.history);
+          if (evt.input) mergeInputBitrate(stream.id, evt.input);
+          break;
+        case "input-bitrate":
+          mergeInputBitrate(stream.id, [{ time: Date.now(), bitrate: evt.bitrate }]);
+          break;
+        case "starting":
+          setTileServerStatus(stream.id, "starting");
+          break;
+        case "started": {
+          setTileServerStatus(stream.id, "starting");
+          const source = evt.source ?? null;
+          setSources((prev) => ({ ...prev, [stream.id]: source }));
+          break;
+        }
+        case "stopped":
+          setTileServerStatus(stream.id, "offline");
+          break;
+        case "cleaned":
+          setTileServerStatus(stream.id, "offline");
+          setTileRestartState(stream.id, null);
+          break;
+        case "restart-scheduled":
+          setTileServerStatus(stream.id, "offline");
+          setTileRestartState(stream.id, evt);
+          break;
+        case "circuit-open":
+          setTileServerStatus(stream.id, "offline");
+          setTileRestartState(stream.id, evt);
+          void handleTrafficEvent({
+            streamId: stream.id,
+            streamName: stream.name,
+            type: "ERROR",
+            message: `Auto-restart gave up after ${evt.attempts} attempts; retrying at ${new Date(evt.retryAt).toLocaleTimeString()}`,
+            severity: "critical",
+          });
+          break;
+        case "error":
+          setTileServerStatus(stream.id, "offline");
+          void handleTrafficEvent({
+            streamId: stream.id,
+            streamName: stream.name,
+            type: "ERROR",
+            message: `Transcoder error: ${evt.error}`,
+            severity: "critical",
+          });
+          break;
+        case "loudness":
+          setLoudness((prev) => ({ ...prev, [stream.id]: { sample: evt.sample, outOfTolerance: evt.outOfTolerance } }));
+          mergeLoudness(stream.id, [evt.sample]);
+          break;
+        case "loudness-history":
+          mergeLoudness(stream.id, evt.history);
+          break;
+        case "scte35":
+          mergeCues(stream.id, [evt.cue]);
+          void handleTrafficEvent({
+            ts: evt.cue.time,
+            streamId: stream.id,
+            streamName: stream.name,
+            type: "SCTE35",
+            message: `SCTE-35 ${evt.cue.kind}: ${evt.cue.detail}`,
+            severity: "info",
+          });
+          break;
+        case "scte35-history":
+          mergeCues(stream.id, evt.cues);
+          break;
+        case "ts-health": {
+          const alarm = evt.health.alarm;
+          setTsAlarms((prev) => (prev[stream.id] === alarm ? prev : { ...prev, [stream.id]: alarm }));
+          if (evt.transition === "raised") {
+            void handleTrafficEvent({ streamId: stream.id, streamName: stream.name, type: "ERROR", message: `TS errors: ${alarm}`, severity: "critical" });
+          } else if (evt.transition === "cleared") {
+            void handleTrafficEvent({ streamId: stream.id, streamName: stream.name, type: "RECOVERED", message: "TS errors cleared", severity: "info" });
+          }
+          break;
+        }
+        case "fault":
+          void handleTrafficEvent({
+            ts: evt.end ?? evt.start,
+            streamId: stream.id,
+            streamName: stream.name,
+            type: evt.event,
+            message: evt.message,
+            severity: evt.event === "RECOVERED" ? "info" : evt.fault === "BLACK" ? "critical" : "warn",
+          });
+          break;
+        default:
+          break;
+      }
+    },
+    [
+      tileForServerEvent,
+      setTileServerStatus,
+      setTileRestartState,
+      mergeServerHistory,
+      mergeInputBitrate,
+      mergeCues,
+      mergeLoudness,
+      handleBitrateUpdate,
+      handleTrafficEvent,
+      toast,
+    ]
+  );
+
+  useBackendEvents(handleBackendEvent);
+
+  // --------- Auto-restart policy (per tile, kept in this browser) ----------
+  const [restartPolicies, setRestartPolicies] = useState<Record<string, RestartMode>>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(RESTART_POLICIES_KEY) || "{}") || {};
+    } catch {
+      return {};
+    }
+  });
+
+  const changeRestartPolicy = useCallback(
+    async (stream: Stream, mode: RestartMode) => {
+      setRestartPolicies((prev) => {
+        const next = { ...prev, [stream.id]: mode };
+        try {
+          localStorage.setItem(RESTART_POLICIES_KEY, JSON.stringify(next));
+        } catch {
+          // ignore
+        }
+        return next;
+      });
+      if (mode === "off") setTileRestartState(stream.id, null);
+
+      try {
+        await setRestartPolicy(stream.url, { mode });
+      } catch (e) {
+        toast({
+          title: "Failed to update auto-restart",
+          description: e instanceof Error ? e.message : String(e),
+          variant: "destructive",
+        });
+      }
+    },
+    [toast, setTileRestartState]
+  );
+
+  // --------- Loudness target (all tiles, kept in this browser) ----------
+  const changeLoudnessPreset = useCallback(
+    async (presetId: string) => {
+      const preset = LOUDNESS_PRESETS.find((p) => p.id === presetId);
+      if (!preset) return;
+      setLoudnessPreset(presetId);
+      try {
+        localStorage.setItem(LOUDNESS_PRESET_KEY, presetId);
+      } catch {
+        // ignore
+      }
+
+      const results = await Promise.allSettled(streams.map((s) => setLoudnessTarget(s.url, preset.target)));
+      const failed = results.filter((r) => r.status === "rejected").length;
+      if (failed) toast({ title: "Failed to update loudness target", description: `${failed} stream(s) kept their previous target.`, variant: "destructive" });
+    },
+    [streams, toast]
+  );
+
   // --------- Add stream ----------
   const addStream = useCallback(async () => {
-    const urlToAdd = safeTrim(streamUrl);
+    let urlToAdd = safeTrim(streamUrl);
     if (!urlToAdd || !isValidStreamUrl(urlToAdd)) {
       toast({
         title: "Invalid Stream URL",
-        description: "Enter a valid HLS (.m3u8) URL (RTMP/RTSP/UDP need backend).",
+        description: "Enter a valid HLS (.m3u8), RTMP, RTSP, UDP or SRT URL.",
         variant: "destructive",
       });
       return;
     }
 
+    if (isSrtUrl(urlToAdd)) {
+      const problem = validateSrtOptions(srtOptions);
+      if (problem) {
+        toast({ title: "Invalid SRT options", description: problem, variant: "destructive" });
+        return;
+      }
+      urlToAdd = applySrtOptions(urlToAdd, srtOptions);
+    }
+
+    if (isUdpUrl(urlToAdd)) {
+      const problem = validateUdpOptions(udpOptions);
+      if (problem) {
+        toast({ title: "Invalid UDP options", description: problem, variant: "destructive" });
+        return;
+      }
+      urlToAdd = applyUdpOptions(urlToAdd, udpOptions);
+    }
+
     if (streams.length >= 12) {
       toast({ title: "Limit Reached", description: "You can add up to 12 streams", variant: "destructive" });
       return;
@@ -636,9 +1164,15 @@ export const StreamManager: React.FC = () => {
 
     const inserted: Stream = { id: data.id, name: data.name, url: data.url, color: data.color || color };
 
+    if (needsTranscoder(inserted.url)) rememberStreamProfile(inserted.id, newStreamProfile);
+    if (inputSelection) rememberStreamInput(inserted.id, inputSelection);
+    if (needsTranscoder(inserted.url) && newStreamDvr !== DVR_DEFAULT_CHOICE) rememberStreamDvr(inserted.id, Number(newStreamDvr));
     setStreams((prev) => [...prev, inserted]);
     setStreamName("");
     setStreamUrl("");
+    setSrtOptions(DEFAULT_SRT_OPTIONS);
+    setUdpOptions(DEFAULT_UDP_OPTIONS);
+    setInputSelection(null);
 
     toast({ title: "Stream Added", description: `(${streams.length + 1}/12)` });
 
@@ -649,7 +1183,48 @@ export const StreamManager: React.FC = () => {
       target_name: inserted.name,
       description: "Stream added",
     });
-  }, [streamUrl, streams, streamName, toast, logActivity]);
+  }, [
+    streamUrl,
+    streams,
+    streamName,
+    srtOptions,
+    udpOptions,
+    inputSelection,
+    toast,
+    logActivity,
+    newStreamProfile,
+    rememberStreamProfile,
+    rememberStreamInput,
+    newStreamDvr,
+    rememberStreamDvr,
+  ]);
+
+  // --------- Delete stream (tile) ----------
+  const deleteStream = useCallback(
+    async (stream: Stream) => {
+      const { error } = await supabase.from("streams").delete().eq("id", stream.id);
+      if (error) {
+        toast({ title: "Failed to delete stream", description: error.message, variant: "destructive" });
+        return;
+      }
+
+      setStreams((prev) => prev.filter((s) => s.id !== stream.id));
+      void releaseStream(stream.url).catch((e) =>
+        toast({ title: "Failed to stop the stream on the server", description: e instanceof Error ? e.message : String(e), variant: "destructive" })
+      );
+
+      toast({ title: "Stream deleted" });
+
+      void logActivity({
+        action: "delete_stream",
+        target_type: "stream",
+        target_id: stream.id,
+        target_name: stream.name,
+        description: `Deleted stream: ${stream.name}`,
+      });
+    },
+    [toast, logActivity]
+  );
 
   // --------- Save list to file ----------
   const saveListToFile = useCallback(() => {
@@ -836,6 +1411,187 @@ export const StreamManager: React.FC = () => {
     return Math.round(total * 100) / 100;
   }, [allBitrateHistory, streams]);
 
+  // input points are sparse: sum each tile's latest sample
+  const latestTotalInputBitrate = useMemo(() => {
+    const seen = new Set<string>();
+    let total = 0;
+    for (let i = inputBitrateHistory.length - 1; i >= 0 && seen.size < streams.length; i--) {
+      streams.forEach((s) => {
+        const v = inputBitrateHistory[i][s.id];
+        if (seen.has(s.id) || typeof v !== "number" || !isFinite(v)) return;
+        seen.add(s.id);
+        total += v;
+      });
+    }
+    return Math.round(total * 100) / 100;
+  }, [inputBitrateHistory, streams]);
+
+  // --------- ✅ Thumbnail wall ----------
+  const changeWallMode = useCallback((mode: WallMode) => {
+    setWallMode(mode);
+    try {
+      localStorage.setItem(WALL_MODE_KEY, mode);
+    } catch {
+      // ignore
+    }
+  }, []);
+
+  // tile id -> server streamId, learned from start-stream (thumbnails are keyed by the server id)
+  const [thumbServerIds, setThumbServerIds] = useState<Record<string, string>>({});
+  // server streamId -> stills the server keeps
+  const [thumbnails, setThumbnails] = useState<Record<string, ThumbnailInfo>>({});
+  const [thumbToken, setThumbToken] = useState<string | null>(null);
+  // tile id -> start params (+ reload signal) last sent, so settings changes and reloads start again
+  const thumbStartsRef = useRef<Map<string, string>>(new Map());
+
+  // Without players nothing starts the transcoders: start them like VideoPlayer would
+  useEffect(() => {
+    if (wallMode !== "thumbnails") return;
+    streams.forEach((stream) => {
+      if (!needsTranscoder(stream.url)) return;
+      const abr = streamProfiles[stream.id] === ABR_CHOICE;
+      const dvrMinutes = streamDvr[stream.id];
+      const input = streamInputs[stream.id];
+      const mode = restartPolicies[stream.id];
+      const params = {
+        streamUrl: stream.url,
+        streamName: stream.name,
+        profile: abr ? undefined : streamProfiles[stream.id] ?? DEFAULT_PROFILE,
+        abr,
+        ...(dvrMinutes !== undefined ? { dvrMinutes } : {}),
+        ...(input ? { input } : {}),
+        ...(mode ? { restartPolicy: { mode } } : {}),
+        loudnessTarget,
+      };
+      const key = JSON.stringify([params, reloadSignals[stream.id] || 0]);
+      if (thumbStartsRef.current.get(stream.id) === key) return;
+      thumbStartsRef.current.set(stream.id, key);
+
+      startStream(params)
+        .then(({ streamId }) => {
+          serverIdToTileRef.current.set(streamId, stream.id);
+          setThumbServerIds((prev) => (prev[stream.id] === streamId ? prev : { ...prev, [stream.id]: streamId }));
+        })
+        .catch((e) => {
+          thumbStartsRef.current.delete(stream.id);
+          void handleTrafficEvent({
+            streamId: stream.id,
+            streamName: stream.name,
+            type: "ERROR",
+            message: `Transcoder start failed: ${e instanceof Error ? e.message : String(e)}`,
+            severity: "critical",
+          });
+        });
+    });
+  }, [wallMode, streams, streamProfiles, streamDvr, streamInputs, restartPolicies, loudnessTarget, reloadSignals, handleTrafficEvent]);
+
+  useEffect(() => {
+    // players may have changed the transcoders meanwhile: re-send everything on the next switch
+    if (wallMode !== "thumbnails") thumbStartsRef.current.clear();
+  }, [wallMode]);
+
+  // Direct HLS tiles have no transcoder to start: register them so the server monitors their
+  // source (input bitrate, cues, faults) in every wall mode. Released with the tile (releaseStream).
+  const monitoredUrlsRef = useRef<Set<string>>(new Set());
+  // direct tiles whose faults the server detects: their players skip their own checks
+  const [serverDetected, setServerDetected] = useState<Record<string, boolean>>({});
+  useEffect(() => {
+    const direct = streams.filter((s) => !needsTranscoder(s.url));
+    const urls = new Set(direct.map((s) => s.url));
+    monitoredUrlsRef.current.forEach((url) => {
+      if (!urls.has(url)) monitoredUrlsRef.current.delete(url);
+    });
+    direct.forEach((stream) => {
+      if (monitoredUrlsRef.current.has(stream.url)) return;
+      monitoredUrlsRef.current.add(stream.url);
+      monitorStream({ streamUrl: stream.url, streamName: stream.name, loudnessTarget })
+        .then(({ streamId, faultDetection }) => {
+          serverIdToTileRef.current.set(streamId, stream.id);
+          setServerDetected((prev) => ({ ...prev, [stream.id]: Boolean(faultDetection) }));
+        })
+        .catch((e) => {
+          monitoredUrlsRef.current.delete(stream.url);
+          // users who can't add streams play the tile without server monitoring
+          if (e instanceof ApiError && e.status === 403) return;
+          void handleTrafficEvent({
+            streamId: stream.id,
+            streamName: stream.name,
+            type: "ERROR",
+            message: `Server monitoring unavailable: ${e instanceof Error ? e.message : String(e)}`,
+            severity: "warn",
+          });
+        });
+    });
+  }, [streams, loudnessTarget, handleTrafficEvent]);
+
+  useEffect(() => {
+    if (wallMode !== "thumbnails") return;
+    let cancelled = false;
+
+    const poll = async () => {
+      try {
+        const [list, token] = await Promise.all([listThumbnails(), getToken()]);
+        if (cancelled) return;
+        setThumbnails(Object.fromEntries(list.map((t) => [t.streamId, t])));
+        setThumbToken(token);
+      } catch (e) {
+        console.warn("thumbnail poll failed:", e);
+      }
+    };
+
+    void poll();
+    const t = setInterval(() => void poll(), THUMBNAIL_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(t);
+    };
+  }, [wallMode]);
+
+  // latest bitrate per tile; the newest graph point only carries the tiles that just reported
+  const latestBitrates = useMemo(() => {
+    const out: Record<string, number> = {};
+    for (let i = allBitrateHistory.length - 1; i >= 0 && Object.keys(out).length < streams.length; i--) {
+      const point = allBitrateHistory[i];
+      streams.forEach((s) => {
+        const v = point[s.id];
+        if (out[s.id] === undefined && typeof v === "number" && isFinite(v)) out[s.id] = v;
+      });
+    }
+    return out;
+  }, [allBitrateHistory, streams]);
+
+  // the still's time goes in the URL, so each new still is a new URL the browser can cache
+  const renderThumbnailTile = (stream: Stream) => {
+    const info = thumbnails[thumbServerIds[stream.id]];
+    return (
+      <ThumbnailTile
+        streamName={stream.name}
+        streamUrl={stream.url}
+        status={serverStatus[stream.id] ?? ((failureCounts[stream.id] || 0) === 0 ? "online" : "offline")}
+        bitrate={latestBitrates[stream.id] ?? null}
+        src={info ? thumbnailUrl(info.streamId, thumbToken, info.time) : null}
+        history={(info?.history ?? []).map((time) => ({ time, src: thumbnailUrl(info.streamId, thumbToken, time) }))}
+        time={info?.time ?? null}
+        transcoded={needsTranscoder(stream.url)}
+      />
+    );
+  };
+
+  // --------- ✅ Jump a tile to a traffic event ----------
+  const jumpToTrafficEvent = useCallback(
+    (t: TrafficEvent) => {
+      if (!streams.some((s) => s.id === t.streamId)) {
+        toast({ title: "Stream not on the wall", description: `${t.streamName} was removed.`, variant: "destructive" });
+        return;
+      }
+      setSeekRequests((prev) => ({ ...prev, [t.streamId]: { at: t.ts, seq: (prev[t.streamId]?.seq ?? 0) + 1 } }));
+      // stills can't seek: bring the players back, they pick the request up once loaded
+      if (wallMode === "thumbnails") changeWallMode("video");
+      document.getElementById(`tile-${t.streamId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    },
+    [streams, toast, wallMode, changeWallMode]
+  );
+
   const filteredTraffic = useMemo(() => {
     return traffic.filter((t) => {
       if (trafficTypeFilter !== "ALL" && t.type !== trafficTypeFilter) return false;
@@ -899,13 +1655,103 @@ export const StreamManager: React.FC = () => {
                   <Input
                     id="stream-url"
                     type="url"
-                    placeholder="Enter a stream URL : HTTP HLS (.m3u8)."
+                    placeholder="Enter a stream URL : HTTP HLS (.m3u8), RTMP, RTSP, UDP or SRT."
                     value={streamUrl}
-                    onChange={(e) => setStreamUrl(e.target.value)}
+                    onChange={(e) => {
+                      setStreamUrl(e.target.value);
+                      setInputSelection(null);
+                    }}
                     onKeyDown={handleKeyPress}
                     className="w-3/5 bg-input border-stream-border focus:ring-primary"
                   />
                 </div>
+
+                {/* UDP / multicast options (merged into the URL query on add) */}
+                {isUdpUrl(streamUrl) && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      placeholder="Interface address"
+                      value={udpOptions.localAddr}
+                      onChange={(e) => setUdpOptions((o) => ({ ...o, localAddr: e.target.value.trim() }))}
+                      className="w-[160px] bg-input border-stream-border"
+                      title="Local interface that joins the multicast group"
+                    />
+                    <Input
+                      placeholder="Buffer size (bytes)"
+                      value={udpOptions.bufferSize}
+                      onChange={(e) => setUdpOptions((o) => ({ ...o, bufferSize: e.target.value.trim() }))}
+                      className="w-[160px] bg-input border-stream-border"
+                      title="Socket receive buffer"
+                    />
+                    <Input
+                      placeholder="FIFO size (packets)"
+                      value={udpOptions.fifoSize}
+                      onChange={(e) => setUdpOptions((o) => ({ ...o, fifoSize: e.target.value.trim() }))}
+                      className="w-[160px] bg-input border-stream-border"
+                      title="ffmpeg receive FIFO; overruns drop packets instead of stopping the stream"
+                    />
+                  </div>
+                )}
+
+                {/* MPTS program / track selection (probe is admin-only on the server) */}
+                {user?.role === "admin" && (isUdpUrl(streamUrl) || isSrtUrl(streamUrl)) && (
+                  <ProgramPicker
+                    streamUrl={isUdpUrl(streamUrl) ? applyUdpOptions(streamUrl, udpOptions) : applySrtOptions(streamUrl, srtOptions)}
+                    value={inputSelection}
+                    onChange={setInputSelection}
+                  />
+                )}
+
+                {/* SRT options (merged into the URL query on add) */}
+                {isSrtUrl(streamUrl) && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Select value={srtOptions.mode} onValueChange={(v) => setSrtOptions((o) => ({ ...o, mode: v as SrtOptions["mode"] }))}>
+                      <SelectTrigger className="w-[130px] bg-input border-stream-border" title="Caller connects to the sender, listener waits for it">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="caller">Caller</SelectItem>
+                        <SelectItem value="listener">Listener</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      placeholder="Latency (ms)"
+                      value={srtOptions.latencyMs}
+                      onChange={(e) => setSrtOptions((o) => ({ ...o, latencyMs: e.target.value.trim() }))}
+                      className="w-[120px] bg-input border-stream-border"
+                      title="SRT latency in milliseconds"
+                    />
+                    <Input
+                      type="password"
+                      placeholder="Passphrase"
+                      value={srtOptions.passphrase}
+                      onChange={(e) => setSrtOptions((o) => ({ ...o, passphrase: e.target.value }))}
+                      className="w-[160px] bg-input border-stream-border"
+                      autoComplete="off"
+                    />
+                    <Select
+                      value={srtOptions.pbkeylen || "default"}
+                      onValueChange={(v) => setSrtOptions((o) => ({ ...o, pbkeylen: v === "default" ? "" : (v as SrtOptions["pbkeylen"]) }))}
+                      disabled={!srtOptions.passphrase}
+                    >
+                      <SelectTrigger className="w-[130px] bg-input border-stream-border" title="Encryption key length">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">Key: default</SelectItem>
+                        <SelectItem value="16">AES-128</SelectItem>
+                        <SelectItem value="24">AES-192</SelectItem>
+                        <SelectItem value="32">AES-256</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      placeholder="Stream ID"
+                      value={srtOptions.streamId}
+                      onChange={(e) => setSrtOptions((o) => ({ ...o, streamId: e.target.value }))}
+                      className="w-[180px] bg-input border-stream-border"
+                    />
+                  </div>
+                )}
               </div>
 
               {/* MENU */}
@@ -958,6 +1804,84 @@ export const StreamManager: React.FC = () => {
                   </Select>
                 </div>
 
+                <div className="flex items-center gap-2">
+                  <label className="mr-2 text-sm text-muted-foreground">View:</label>
+                  <Select value={wallMode} onValueChange={(v) => changeWallMode(v as WallMode)}>
+                    <SelectTrigger className="w-[140px] bg-input border-stream-border" title="Thumbnails show refreshing server stills instead of live players">
+                      <SelectValue placeholder="View" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="video">Live video</SelectItem>
+                      <SelectItem value="thumbnails">Thumbnails</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <label className="mr-2 text-sm text-muted-foreground">Loudness:</label>
+                  <Select value={loudnessPreset} onValueChange={(v) => void changeLoudnessPreset(v)}>
+                    <SelectTrigger className="w-[180px] bg-input border-stream-border" title="Target LUFS ± tolerance checked by the server for transcoded streams">
+                      <SelectValue placeholder="Loudness" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LOUDNESS_PRESETS.map((p) => (
+                        <SelectItem key={p.id} value={p.id}>
+                          {p.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <label className="mr-2 text-sm text-muted-foreground">DVR:</label>
+                  <Select value={newStreamDvr} onValueChange={setNewStreamDvr}>
+                    <SelectTrigger className="w-[130px] bg-input border-stream-border" title="Timeshift window kept on the server for new RTMP/RTSP/UDP streams">
+                      <SelectValue placeholder="DVR" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DVR_DEFAULT_CHOICE}>Server default</SelectItem>
+                      {DVR_CHOICES.map((c) => (
+                        <SelectItem key={c.minutes} value={String(c.minutes)}>
+                          {c.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <label className="mr-2 text-sm text-muted-foreground">Profile:</label>
+                  <Select value={newStreamProfile} onValueChange={setNewStreamProfile}>
+                    <SelectTrigger className="w-[160px] bg-input border-stream-border" title="Transcoding profile for new RTMP/RTSP/UDP streams">
+                      <SelectValue placeholder="Profile" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {profileOptions.length === 0 && <SelectItem value={DEFAULT_PROFILE}>{DEFAULT_PROFILE}</SelectItem>}
+                      {profileOptions.map((p) => (
+                        <SelectItem key={p.name} value={p.name} title={p.description}>
+                          {p.name}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value={ABR_CHOICE}>ABR ladder</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {(user?.role === "admin" || user?.roles?.view_health) && (
+                  <Button variant="outline" size="icon" onClick={() => setHealthOpen(true)} title="Server Health">
+                    <Activity className="h-4 w-4" />
+                  </Button>
+                )}
+
+                {(user?.role === "admin" || user?.roles?.view_recordings) && (
+                  <Button asChild variant="outline" size="icon" title="Recordings">
+                    <Link to="/recordings">
+                      <Film className="h-4 w-4" />
+                    </Link>
+                  </Button>
+                )}
+
                 <Button variant="outline" size="icon" onClick={() => setManagementOpen(true)} title="User Management">
                   <Settings className="h-4 w-4" />
                 </Button>
@@ -980,7 +1904,32 @@ export const StreamManager: React.FC = () => {
         </div>
       </div>
 
-      <ManagementDialog isOpen={isManagementOpen} onClose={() => setManagementOpen(false)} onStreamsChanged={() => void loadStreamsFromDb()} />
+      <ManagementDialog
+        isOpen={isManagementOpen}
+        onClose={() => setManagementOpen(false)}
+        onStreamsChanged={() => void loadStreamsFromDb()}
+        canManageProfiles={user?.role === "admin" || Boolean(user?.roles?.manage_profiles)}
+        onProfilesChanged={() => void loadProfiles()}
+      />
+      <HealthDialog isOpen={isHealthOpen} onClose={() => setHealthOpen(false)} />
+      <RestreamDialog stream={restreamStream} profiles={profileOptions} onClose={() => setRestreamStream(null)} />
+      <TsHealthDialog stream={tsHealthStream} onClose={() => setTsHealthStream(null)} />
+
+      {/* ✅ Delete stream confirmation */}
+      <AlertDialog open={!!confirmDeleteStream} onOpenChange={(open) => !open && setConfirmDeleteStream(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete stream '{confirmDeleteStream?.name}'?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The tile is removed from your wall. Its transcoder keeps running while other users still watch the stream.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => confirmDeleteStream && void deleteStream(confirmDeleteStream)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
 
       {/* Stream Grid */}
       <div className="lg:col-span-3">
@@ -989,13 +1938,13 @@ export const StreamManager: React.FC = () => {
             <CardContent className="flex flex-col items-center justify-center py-16 text-center">
               <Monitor className="h-12 w-12 text-muted-foreground mb-4" />
               <h3 className="text-xl font-semibold mb-2">No streams active</h3>
-              <p className="text-muted-foreground max-w-md">Add your first HLS (.m3u8) URL above to start monitoring. Supports up to 12 concurrent streams.</p>
+              <p className="text-muted-foreground max-w-md">Add your first HLS (.m3u8), RTMP, RTSP, UDP or SRT URL above to start monitoring. Supports up to 12 concurrent streams.</p>
             </CardContent>
           </Card>
         ) : (
           <div className={`grid ${gridClass} gap-2`}>
             {streams.map((stream) => (
-              <div key={stream.id} className="relative">
+              <div key={stream.id} id={`tile-${stream.id}`} className="relative">
                 <div className="absolute bottom-2 right-2 z-20 flex items-center gap-2">
                   <Button
                     variant="destructive"
@@ -1005,17 +1954,67 @@ export const StreamManager: React.FC = () => {
                   >
                     <RotateCcw className="h-4 w-4" />
                   </Button>
+                  {needsTranscoder(stream.url) && (user?.role === "admin" || user?.roles?.manage_restreams) && (
+                    <Button variant="secondary" size="sm" onClick={() => setRestreamStream(stream)} title="Restream outputs">
+                      <Share2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {(isUdpUrl(stream.url) || isSrtUrl(stream.url)) && (
+                    <Button
+                      variant={tsAlarms[stream.id] ? "destructive" : "secondary"}
+                      size="sm"
+                      onClick={() => setTsHealthStream(stream)}
+                      title={tsAlarms[stream.id] ? `TS health: ${tsAlarms[stream.id]}` : "TS health (TR 101 290)"}
+                    >
+                      <HeartPulse className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {needsTranscoder(stream.url) && (
+                    <Select value={restartPolicies[stream.id] ?? "off"} onValueChange={(v) => void changeRestartPolicy(stream, v as RestartMode)}>
+                      <SelectTrigger className="h-9 w-[130px] text-xs" title="Automatic transcoder restart">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="off">Restart: off</SelectItem>
+                        <SelectItem value="on-signal-loss">On signal loss</SelectItem>
+                        <SelectItem value="always">Always</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Button variant="destructive" size="sm" onClick={() => setConfirmDeleteStream(stream)} title="Delete this stream">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
                 </div>
 
-                <VideoPlayer
-                  streamId={stream.id}
-                  streamName={stream.name}
-                  streamUrl={stream.url}
-                  reloadSignal={reloadSignals[stream.id] || 0}
-                  onBitrateUpdate={(id, br) => void handleBitrateUpdate(id, br)}
-                  onTrafficEvent={(evt) => void handleTrafficEvent(evt)}
-                  status={(failureCounts[stream.id] || 0) === 0 ? "online" : "offline"}
-                />
+                {wallMode === "thumbnails" ? (
+                  renderThumbnailTile(stream)
+                ) : (
+                  <VideoPlayer
+                    streamId={stream.id}
+                    streamName={stream.name}
+                    streamUrl={stream.url}
+                    profile={streamProfiles[stream.id] === ABR_CHOICE ? undefined : streamProfiles[stream.id] ?? DEFAULT_PROFILE}
+                    abr={streamProfiles[stream.id] === ABR_CHOICE}
+                    level={focusedStreamId === stream.id ? "auto" : WALL_LEVEL}
+                    input={streamInputs[stream.id] ?? null}
+                    dvrMinutes={streamDvr[stream.id]}
+                    seekRequest={seekRequests[stream.id] ?? null}
+                    reloadSignal={reloadSignals[stream.id] || 0}
+                    onBitrateUpdate={(id, br) => {
+                      if (!serverFedRef.current.has(id)) void handleBitrateUpdate(id, br);
+                    }}
+                    onTrafficEvent={(evt) => void handleTrafficEvent(evt)}
+                    status={serverStatus[stream.id] ?? ((failureCounts[stream.id] || 0) === 0 ? "online" : "offline")}
+                    restartMode={restartPolicies[stream.id]}
+                    restartState={restartStates[stream.id] ?? null}
+                    srtStats={srtStats[stream.id] ?? null}
+                    progress={progress[stream.id] ?? null}
+                    loudnessTarget={loudnessTarget}
+                    loudness={loudness[stream.id] ?? null}
+                    source={sources[stream.id] ?? null}
+                    serverDetects={Boolean(serverDetected[stream.id])}
+                  />
+                )}
               </div>
             ))}
           </div>
@@ -1027,6 +2026,7 @@ export const StreamManager: React.FC = () => {
         <div className="flex items-center justify-between gap-3">
           <TabsList>
             <TabsTrigger value="bitrate">Bitrate Real-time</TabsTrigger>
+            <TabsTrigger value="loudness">Loudness</TabsTrigger>
             <TabsTrigger value="traffic">Traffic Logs</TabsTrigger>
             <TabsTrigger value="logs">Activity Logs</TabsTrigger>
           </TabsList>
@@ -1077,9 +2077,21 @@ export const StreamManager: React.FC = () => {
               <div className="flex items-center justify-between mb-2">
                 <div className="flex items-baseline gap-3">
                   <h2 className="text-2xl font-bold text-white">Real-time Bitrate Monitor:</h2>
-                  <span className="text-lg font-semibold text-blue-500">{latestTotalBitrate.toFixed(2)} Mbps</span>
+                  <span className="text-lg font-semibold text-blue-500">
+                    {(bitrateSeries === "input" ? latestTotalInputBitrate : latestTotalBitrate).toFixed(2)} Mbps
+                  </span>
                 </div>
 
+                <Select value={bitrateSeries} onValueChange={(v) => setBitrateSeries(v as BitrateSeries)}>
+                  <SelectTrigger className="w-[200px] bg-input border-stream-border ml-auto mr-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="output">Output (transcoded)</SelectItem>
+                    <SelectItem value="input">Input (source)</SelectItem>
+                  </SelectContent>
+                </Select>
+
                 <Select value={selectedGraphStream} onValueChange={setSelectedGraphStream}>
                   <SelectTrigger className="w-[240px] bg-input border-stream-border">
                     <SelectValue placeholder="Select a stream to display" />
@@ -1108,7 +2120,10 @@ export const StreamManager: React.FC = () => {
                     }
                   >
                     <AllBitrateGraph
-                      data={allBitrateHistory}
+                      key={bitrateSeries}
+                      data={bitrateSeries === "input" ? inputBitrateHistory : allBitrateHistory}
+                      series={bitrateSeries}
+                      markers={cueMarkers}
                       streams={selectedGraphStream === "all" ? streams : streams.filter((s) => s.id === selectedGraphStream)}
                       timeDomain={[currentTime.getTime() - 24 * 60 * 60 * 1000, currentTime.getTime()]}
                       height={600}
@@ -1116,6 +2131,108 @@ export const StreamManager: React.FC = () => {
                   </React.Suspense>
                 </CardContent>
               </Card>
+
+              {/* ✅ Transcoder telemetry (latest -progress sample per stream) */}
+              <Card className="bg-gradient-card border-stream-border mt-4">
+                <CardContent className="pt-4">
+                  <h3 className="text-lg font-semibold text-white mb-2">Transcoder telemetry</h3>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Stream</TableHead>
+                        <TableHead className="text-right">FPS</TableHead>
+                        <TableHead className="text-right" title="Output time per wall-clock second over the last few seconds">
+                          Speed
+                        </TableHead>
+                        <TableHead className="text-right" title="ffmpeg's speed, averaged since the transcoder started">
+                          Avg speed
+                        </TableHead>
+                        <TableHead className="text-right">Frames</TableHead>
+                        <TableHead className="text-right">Dropped</TableHead>
+                        <TableHead className="text-right">Duplicated</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {(selectedGraphStream === "all" ? streams : streams.filter((s) => s.id === selectedGraphStream))
+                        .filter((s) => progress[s.id])
+                        .map((s) => {
+                          const p = progress[s.id];
+                          return (
+                            <TableRow key={s.id} className={transcoderLagging(p) ? "bg-yellow-900/40" : undefined}>
+                              <TableCell>
+                                <div className="flex items-center">
+                                  <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: s.color }} />
+                                  {s.name}
+                                  {p.ended && <span className="ml-2 text-xs text-muted-foreground">(input ended)</span>}
+                                </div>
+                              </TableCell>
+                              <TableCell className="text-right font-mono">{formatTelemetry(p.fps, 1)}</TableCell>
+                              <TableCell className="text-right font-mono">{p.realtimeSpeed === null ? "—" : `${p.realtimeSpeed.toFixed(2)}x`}</TableCell>
+                              <TableCell className="text-right font-mono">{p.speed === null ? "—" : `${p.speed.toFixed(2)}x`}</TableCell>
+                              <TableCell className="text-right font-mono">{p.frame ?? "—"}</TableCell>
+                              <TableCell className="text-right font-mono">{p.dropFrames ?? "—"}</TableCell>
+                              <TableCell className="text-right font-mono">{p.dupFrames ?? "—"}</TableCell>
+                            </TableRow>
+                          );
+                        })}
+                    </TableBody>
+                  </Table>
+                  {!streams.some((s) => progress[s.id]) && (
+                    <div className="text-sm text-muted-foreground mt-2">No transcoder samples yet. Direct HLS tiles have no server transcoder.</div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="loudness">
+          {streams.length > 0 && (
+            <div className="mt-4">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-baseline gap-3">
+                  <h2 className="text-2xl font-bold text-white">Short-term Loudness (EBU R128):</h2>
+                  <span className="text-lg font-semibold text-green-500">
+                    {loudnessTarget.integratedLufs} LUFS ±{loudnessTarget.toleranceLu} LU
+                  </span>
+                </div>
+
+                <Select value={selectedGraphStream} onValueChange={setSelectedGraphStream}>
+                  <SelectTrigger className="w-[240px] bg-input border-stream-border">
+                    <SelectValue placeholder="Select a stream to display" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Streams</SelectItem>
+                    {streams.map((stream) => (
+                      <SelectItem key={stream.id} value={stream.id}>
+                        <div className="flex items-center">
+                          <div className="w-4 h-4 rounded-full mr-2" style={{ backgroundColor: stream.color }} />
+                          {stream.name}
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <Card className="bg-gradient-card border-stream-border">
+                <CardContent className="pt-2">
+                  <React.Suspense
+                    fallback={
+                      <div style={{ height: 600, display: "flex", alignItems: "center", justifyContent: "center", color: "#aaa" }}>
+                        Loading chart…
+                      </div>
+                    }
+                  >
+                    <LoudnessGraph
+                      data={loudnessHistory}
+                      streams={selectedGraphStream === "all" ? streams : streams.filter((s) => s.id === selectedGraphStream)}
+                      target={loudnessTarget}
+                      height={600}
+                    />
+                  </React.Suspense>
+                </CardContent>
+              </Card>
             </div>
           )}
         </TabsContent>
@@ -1127,7 +2244,9 @@ export const StreamManager: React.FC = () => {
               <div className="flex items-center justify-between">
                 <div>
                   <h3 className="text-lg font-semibold">Traffic Logs (Real-time)</h3>
-                  <p className="text-xs text-muted-foreground">Issues: No Signal / Frozen / Black / Silent / Buffering / Error — newest first</p>
+                  <p className="text-xs text-muted-foreground">
+                    Issues: No Signal / Frozen / Black / Silent / Loudness / Buffering / Error — newest first. Click an event to replay that moment on its tile.
+                  </p>
                 </div>
                 <div className="text-xs text-muted-foreground">
                   Showing <span className="font-semibold">{filteredTraffic.length}</span> / {traffic.length}
@@ -1143,6 +2262,10 @@ export const StreamManager: React.FC = () => {
                   <option value="FROZEN">Frozen</option>
                   <option value="BLACK">Black</option>
                   <option value="SILENT">Silent</option>
+                  <option value="LOUDNESS">Loudness</option>
+                  <option value="SLOW">Slow Transcode</option>
+                  <option value="DROPPED_FRAMES">Dropped Frames</option>
+                  <option value="SCTE35">SCTE-35 Cue</option>
                   <option value="BUFFERING">Buffering</option>
                   <option value="RECOVERED">Recovered</option>
                   <option value="ERROR">Error</option>
@@ -1212,7 +2335,12 @@ export const StreamManager: React.FC = () => {
                     </TableRow>
                   ) : (
                     filteredTraffic.map((t, idx) => (
-                      <TableRow key={`${t.ts}-${t.streamId}-${idx}`}>
+                      <TableRow
+                        key={`${t.ts}-${t.streamId}-${idx}`}
+                        className="cursor-pointer"
+                        onClick={() => jumpToTrafficEvent(t)}
+                        title="Jump the tile to this moment"
+                      >
                         <TableCell className="text-xs font-mono">{formatDateTime(t.ts)}</TableCell>
                         <TableCell className="text-sm font-semibold">{t.severity}</TableCell>
                         <TableCell className="text-sm font-semibold">{trafficTypeLabel(t.type)}</TableCell>
@@ -0,0 +1,92 @@
+import React, { useState } from "react";
+import { ImageOff } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+
+interface ThumbnailTileProps {
+  streamName: string;
+  streamUrl: string;
+  status: "online" | "offline" | "starting";
+  // latest transcoder bitrate in Mbps
+  bitrate: number | null;
+  // latest still and older ones (newest first); empty while the server has none
+  src: string | null;
+  history?: { time: number; src: string }[];
+  // time of the latest still, shown as its age
+  time: number | null;
+  // direct HLS sources aren't transcoded, so the server has no stills for them
+  transcoded: boolean;
+  className?: string;
+}
+
+const formatAge = (time: number) => {
+  const sec = Math.max(0, Math.round((Date.now() - time) / 1000));
+  return sec < 60 ? `${sec}s ago` : `${Math.floor(sec / 60)}m ago`;
+};
+
+/**
+ * Still-image tile for the low-bandwidth wall: server thumbnail, status and bitrate, no player.
+ * Hovering shows the short history the server keeps.
+ */
+export const ThumbnailTile: React.FC<ThumbnailTileProps> = ({ streamName, streamUrl, status, bitrate, src, history = [], time, transcoded, className }) => {
+  const [hover, setHover] = useState(false);
+  const [preview, setPreview] = useState<string | null>(null);
+
+  return (
+    <Card
+      className={cn("relative overflow-hidden bg-gradient-card border-stream-border shadow-card", className)}
+      onMouseEnter={() => setHover(true)}
+      onMouseLeave={() => {
+        setHover(false);
+        setPreview(null);
+      }}
+    >
+      <div
+        className={cn(
+          "absolute top-1 left-2 z-10 px-2 py-0.2 rounded text-xs font-semibold",
+          status === "online" ? "bg-green-700" : status === "offline" ? "bg-red-700" : "bg-yellow-600"
+        )}
+      >
+        <span className="text-[10px] text-white">{status}</span>
+      </div>
+
+      <div className="absolute top-1 right-2 z-10 px-2 py-0.2 rounded text-[10px] font-mono text-white bg-black/60">
+        {typeof bitrate === "number" ? `${bitrate.toFixed(2)} Mbps` : "— Mbps"}
+        {time !== null && ` · ${formatAge(time)}`}
+      </div>
+
+      <div className="relative aspect-video bg-black">
+        {src ? (
+          <img src={preview ?? src} alt={streamName} className="w-full h-full object-cover" loading="lazy" />
+        ) : (
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-muted-foreground text-xs gap-2">
+            <ImageOff className="h-6 w-6" />
+            {transcoded ? "Waiting for the first thumbnail" : "No server thumbnails for direct HLS"}
+          </div>
+        )}
+
+        {hover && history.length > 1 && (
+          <div className="absolute bottom-0 inset-x-0 flex gap-1 p-1 bg-black/60 overflow-x-auto">
+            {history.map((h) => (
+              <img
+                key={h.time}
+                src={h.src}
+                alt={new Date(h.time).toLocaleTimeString()}
+                title={new Date(h.time).toLocaleTimeString()}
+                className="h-10 cursor-pointer opacity-80 hover:opacity-100"
+                onMouseEnter={() => setPreview(h.src)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="p-3 bg-stream-bg border-t border-stream-border">
+        <div className="min-w-0">
+          <p className="text-sm font-semibold truncate">{streamName}</p>
+          <p className="text-xs text-muted-foreground font-mono truncate">{streamUrl}</p>
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,291 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { deleteProfile, listProfiles, saveProfile, type TranscodeProfile } from "@/lib/api";
+
+interface TranscodeProfilesSectionProps {
+  onChanged?: () => void;
+}
+
+// Form fields are kept as text; empty means "not set" (server default / source value)
+type Draft = Record<
+  "name" | "description" | "preset" | "height" | "videoBitrate" | "maxrate" | "bufsize" | "gop" | "audioBitrate" | "audioChannels" | "audioSampleRate",
+  string
+> & {
+  videoCodec: TranscodeProfile["videoCodec"];
+  audioCodec: TranscodeProfile["audioCodec"];
+};
+
+const EMPTY_DRAFT: Draft = {
+  name: "",
+  description: "",
+  videoCodec: "libx264",
+  preset: "veryfast",
+  height: "",
+  videoBitrate: "",
+  maxrate: "",
+  bufsize: "",
+  gop: "60",
+  audioCodec: "aac",
+  audioBitrate: "128k",
+  audioChannels: "2",
+  audioSampleRate: "48000",
+};
+
+const toDraft = (p: TranscodeProfile): Draft => ({
+  name: p.name,
+  description: p.description ?? "",
+  videoCodec: p.videoCodec,
+  preset: p.preset ?? "",
+  height: p.height ? String(p.height) : "",
+  videoBitrate: p.videoBitrate ?? "",
+  maxrate: p.maxrate ?? "",
+  bufsize: p.bufsize ?? "",
+  gop: p.gop ? String(p.gop) : "",
+  audioCodec: p.audioCodec,
+  audioBitrate: p.audioBitrate ?? "",
+  audioChannels: p.audioChannels ? String(p.audioChannels) : "",
+  audioSampleRate: p.audioSampleRate ? String(p.audioSampleRate) : "",
+});
+
+const fromDraft = (d: Draft): TranscodeProfile => {
+  const text = (v: string) => v.trim() || undefined;
+  const num = (v: string) => (v.trim() ? Number(v) : undefined);
+  const encodeVideo = d.videoCodec !== "copy";
+  const encodeAudio = d.audioCodec === "aac";
+  return {
+    name: d.name.trim(),
+    description: text(d.description),
+    videoCodec: d.videoCodec,
+    ...(encodeVideo
+      ? {
+          preset: text(d.preset),
+          height: num(d.height),
+          videoBitrate: text(d.videoBitrate),
+          maxrate: text(d.maxrate),
+          bufsize: text(d.bufsize),
+          gop: num(d.gop),
+        }
+      : {}),
+    audioCodec: d.audioCodec,
+    ...(encodeAudio
+      ? {
+          audioBitrate: text(d.audioBitrate),
+          audioChannels: num(d.audioChannels),
+          audioSampleRate: num(d.audioSampleRate) as TranscodeProfile["audioSampleRate"],
+        }
+      : {}),
+  };
+};
+
+const describeVideo = (p: TranscodeProfile) =>
+  p.videoCodec === "copy"
+    ? "copy"
+    : [p.videoCodec, p.preset, p.height ? `${p.height}p` : "source size", p.videoBitrate, p.gop ? `GOP ${p.gop}` : null].filter(Boolean).join(" · ");
+
+const describeAudio = (p: TranscodeProfile) =>
+  p.audioCodec !== "aac"
+    ? p.audioCodec
+    : ["aac", p.audioBitrate, p.audioChannels ? `${p.audioChannels} ch` : null, p.audioSampleRate ? `${p.audioSampleRate / 1000} kHz` : null].filter(Boolean).join(" · ");
+
+/**
+ * Admin editor for the server's named transcoding profiles (/api/profiles). Built-in profiles are read-only.
+ */
+const TranscodeProfilesSection: React.FC<TranscodeProfilesSectionProps> = ({ onChanged }) => {
+  const { toast } = useToast();
+  const [profiles, setProfiles] = useState<TranscodeProfile[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setProfiles(await listProfiles());
+    } catch (e) {
+      toast({ title: "Failed to load profiles", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const setField = <K extends keyof Draft>(key: K, value: Draft[K]) => setDraft((d) => (d ? { ...d, [key]: value } : d));
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      await saveProfile(fromDraft(draft));
+      toast({ title: "Profile saved", description: "Running streams pick it up on their next restart." });
+      setDraft(null);
+      await refresh();
+      onChanged?.();
+    } catch (e) {
+      toast({ title: "Failed to save profile", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    if (!confirm(`Delete profile '${name}'?`)) return;
+    try {
+      await deleteProfile(name);
+      toast({ title: "Profile deleted" });
+      await refresh();
+      onChanged?.();
+    } catch (e) {
+      toast({ title: "Failed to delete profile", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+    }
+  };
+
+  const field = (key: keyof Draft, label: string, placeholder?: string, disabled?: boolean) => (
+    <div>
+      <Label>{label}</Label>
+      <Input value={draft ? String(draft[key]) : ""} placeholder={placeholder} disabled={disabled} onChange={(e) => setField(key, e.target.value)} />
+    </div>
+  );
+
+  return (
+    <section className="rounded-xl border p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Transcoding Profiles</h3>
+        <div className="flex items-center gap-2">
+          {loading && <span className="text-sm text-muted-foreground">Loading…</span>}
+          <Button variant="outline" size="sm" onClick={() => setDraft({ ...EMPTY_DRAFT })}>
+            New profile
+          </Button>
+        </div>
+      </div>
+
+      <Table className="mt-3">
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Video</TableHead>
+            <TableHead>Audio</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {profiles.map((p) => (
+            <TableRow key={p.name}>
+              <TableCell>
+                <div className="font-semibold">{p.name}</div>
+                {p.description && <div className="text-xs text-muted-foreground">{p.description}</div>}
+              </TableCell>
+              <TableCell className="text-xs">{describeVideo(p)}</TableCell>
+              <TableCell className="text-xs">{describeAudio(p)}</TableCell>
+              <TableCell className="text-right">
+                {p.builtin ? (
+                  <span className="text-xs text-muted-foreground">built-in</span>
+                ) : (
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setDraft(toDraft(p))}>
+                      Edit
+                    </Button>
+                    <Button variant="destructive" size="sm" onClick={() => void handleDelete(p.name)}>
+                      Delete
+                    </Button>
+                  </div>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {draft && (
+        <div className="mt-4 space-y-3 rounded-lg border p-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {field("name", "Name", "e.g. 1080p-nvenc")}
+            {field("description", "Description")}
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <div>
+              <Label>Video codec</Label>
+              <Select value={draft.videoCodec} onValueChange={(v) => setField("videoCodec", v as Draft["videoCodec"])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="libx264">H.264 (libx264)</SelectItem>
+                  <SelectItem value="h264_nvenc">H.264 (NVENC)</SelectItem>
+                  <SelectItem value="h264_qsv">H.264 (Quick Sync)</SelectItem>
+                  <SelectItem value="copy">Copy (passthrough)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {field("preset", "Preset", "veryfast", draft.videoCodec === "copy")}
+            {field("height", "Height", "source", draft.videoCodec === "copy")}
+            {field("gop", "GOP (frames)", "encoder default", draft.videoCodec === "copy")}
+            {field("videoBitrate", "Video bitrate", "2500k", draft.videoCodec === "copy")}
+            {field("maxrate", "Max rate", "3000k", draft.videoCodec === "copy")}
+            {field("bufsize", "Buffer size", "6000k", draft.videoCodec === "copy")}
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <div>
+              <Label>Audio codec</Label>
+              <Select value={draft.audioCodec} onValueChange={(v) => setField("audioCodec", v as Draft["audioCodec"])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="aac">AAC</SelectItem>
+                  <SelectItem value="copy">Copy (passthrough)</SelectItem>
+                  <SelectItem value="none">No audio</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {field("audioBitrate", "Audio bitrate", "128k", draft.audioCodec !== "aac")}
+            {field("audioChannels", "Channels", "source", draft.audioCodec !== "aac")}
+            <div>
+              <Label>Sample rate</Label>
+              <Select
+                value={draft.audioSampleRate || "source"}
+                onValueChange={(v) => setField("audioSampleRate", v === "source" ? "" : v)}
+                disabled={draft.audioCodec !== "aac"}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="source">Source</SelectItem>
+                  <SelectItem value="48000">48 kHz</SelectItem>
+                  <SelectItem value="44100">44.1 kHz</SelectItem>
+                  <SelectItem value="32000">32 kHz</SelectItem>
+                  <SelectItem value="22050">22.05 kHz</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button onClick={() => void handleSave()} disabled={saving || !draft.name.trim()}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Copy passes the source through without re-encoding; the source must already be H.264 video with AAC/MP3 audio.
+          </p>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default TranscodeProfilesSection;
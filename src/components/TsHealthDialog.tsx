@@ -0,0 +1,146 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { useBackendEvents } from "@/hooks/use-backend-events";
+import { getTsHealth, type BackendEvent, type TsCounters, type TsHealth } from "@/lib/api";
+
+interface TsHealthDialogProps {
+  // the tile whose input is shown; null keeps the dialog closed
+  stream: { name: string; url: string } | null;
+  onClose: () => void;
+}
+
+// TR 101 290 priority-1 indicators, in the document's order
+const CHECKS: { key: keyof TsCounters; id: string; label: string }[] = [
+  { key: "tsSyncLoss", id: "1.1", label: "TS sync loss" },
+  { key: "syncByteError", id: "1.2", label: "Sync byte error" },
+  { key: "patError", id: "1.3", label: "PAT error" },
+  { key: "continuityCountError", id: "1.4", label: "Continuity count error" },
+  { key: "pmtError", id: "1.5", label: "PMT error" },
+  { key: "pidError", id: "1.6", label: "PID error" },
+];
+
+/**
+ * TS health of one UDP / SRT input: the server's TR 101 290 priority-1 counters, refreshed with
+ * every report it broadcasts, and the PIDs it has seen.
+ */
+const TsHealthDialog: React.FC<TsHealthDialogProps> = ({ stream, onClose }) => {
+  const { toast } = useToast();
+  const [health, setHealth] = useState<TsHealth | null>(null);
+  // why the server has no report for this input
+  const [reason, setReason] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const streamUrl = stream?.url ?? null;
+
+  useEffect(() => {
+    setHealth(null);
+    setReason(null);
+    if (!streamUrl) return;
+    let cancelled = false;
+    setLoading(true);
+    getTsHealth(streamUrl)
+      .then((r) => {
+        if (cancelled) return;
+        setHealth(r.health);
+        setReason(r.reason);
+      })
+      .catch((e) => toast({ title: "Failed to load TS health", description: e instanceof Error ? e.message : String(e), variant: "destructive" }))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [streamUrl, toast]);
+
+  const handleEvent = useCallback(
+    (evt: BackendEvent) => {
+      if (evt.type === "ts-health" && evt.sourceUrl === streamUrl) setHealth(evt.health);
+    },
+    [streamUrl]
+  );
+
+  useBackendEvents(handleEvent, Boolean(stream));
+
+  return (
+    <Dialog open={Boolean(stream)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[720px] max-h-[88vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>TS health{stream ? ` · ${stream.name}` : ""}</DialogTitle>
+        </DialogHeader>
+
+        {!health ? (
+          <div className="text-sm text-muted-foreground">
+            {loading ? "Loading…" : `No transport stream analysed for this input. ${reason ?? "UDP and SRT inputs are checked while they run."}`}
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <span className={cn("px-2 py-0.5 rounded text-xs text-white", health.synced ? "bg-green-700" : "bg-red-700")}>
+                {health.synced ? "in sync" : "no sync"}
+              </span>
+              <span className="text-muted-foreground">
+                {health.packets.toLocaleString()} packets since {new Date(health.since).toLocaleTimeString()}
+              </span>
+            </div>
+            {health.alarm && <div className="rounded-md bg-destructive/20 border border-destructive px-3 py-2 text-sm">{health.alarm}</div>}
+
+            <section className="rounded-xl border p-4">
+              <h3 className="text-lg font-semibold mb-3">Priority 1</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Check</TableHead>
+                    <TableHead className="text-right">Last {health.windowSec}s</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {CHECKS.map((c) => (
+                    <TableRow key={c.key} className={health.window[c.key] > 0 ? "bg-destructive/10" : undefined}>
+                      <TableCell>
+                        <span className="text-muted-foreground mr-2">{c.id}</span>
+                        {c.label}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{health.window[c.key]}</TableCell>
+                      <TableCell className="text-right font-mono">{health.counters[c.key]}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </section>
+
+            <section className="rounded-xl border p-4">
+              <h3 className="text-lg font-semibold mb-3">PIDs ({health.pids.length})</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>PID</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Packets</TableHead>
+                    <TableHead className="text-right">CC errors</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {health.pids.map((p) => (
+                    <TableRow key={p.pid}>
+                      <TableCell className="font-mono">
+                        {p.pid} (0x{p.pid.toString(16).padStart(4, "0")})
+                      </TableCell>
+                      <TableCell>{p.kind}</TableCell>
+                      <TableCell className="text-right font-mono">{p.packets.toLocaleString()}</TableCell>
+                      <TableCell className={cn("text-right font-mono", p.ccErrors > 0 && "text-destructive")}>{p.ccErrors}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </section>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TsHealthDialog;
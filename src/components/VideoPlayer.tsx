@@ -1,21 +1,62 @@
 import React, { useRef, useState, useEffect, useCallback } from "react";
 import Hls from "hls.js";
-import { AlertCircle, Play, Pause, Volume2, VolumeX, Maximize, RefreshCcw } from "lucide-react";
+import { AlertCircle, Play, Pause, Volume2, VolumeX, Maximize, RefreshCcw, Rewind, Radio } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
 import { cn } from "@/lib/utils";
 import { useAudioLevels } from "@/hooks/use-audio-levels";
+import { formatTelemetry, transcoderLagging } from "@/lib/telemetry";
+import {
+  admissionRejection,
+  needsTranscoder,
+  startStream,
+  type AdmissionRejection,
+  type InputSelection,
+  type LoudnessSample,
+  type LoudnessTarget,
+  type RestartEvent,
+  type RestartMode,
+  type SourceInfo,
+  type SrtStats,
+  type TranscoderProgress,
+  type TrafficEventType,
+  type TrafficSeverity,
+} from "@/lib/api";
 import { AudioMeter } from "./ui/audio-meter";
-
-type TrafficEventType = "NO_SIGNAL" | "FROZEN" | "BLACK" | "SILENT" | "BUFFERING" | "RECOVERED" | "ERROR";
-type TrafficSeverity = "info" | "warn" | "critical";
+import { LoudnessReadout } from "./ui/loudness-readout";
 
 interface VideoPlayerProps {
   streamId: string;
   streamName: string;
   streamUrl: string;
+  // named transcoding profile (server/profiles.js) for single-rendition output
+  profile?: string;
+  // MPTS program / PIDs to transcode, picked from /probe when the stream was added
+  input?: InputSelection | null;
+  // transcode to the ABR ladder; level pins a rendition by height, "auto" lets hls.js choose
+  abr?: boolean;
+  level?: "auto" | number;
+  // rolling DVR window kept by the server (minutes, 0 = live edge only); the seek bar covers it
+  dvrMinutes?: number;
+  // jump to a wall-clock moment (ms), e.g. a clicked traffic event; seq makes repeated jumps distinct
+  seekRequest?: { at: number; seq: number } | null;
   reloadSignal?: number;
-  status?: "online" | "offline";
+  status?: "online" | "offline" | "starting";
+  // transcoder auto-restart: policy sent with start-stream, latest scheduled restart / open circuit
+  restartMode?: RestartMode;
+  restartState?: RestartEvent | null;
+  // SRT link stats from the latest server bitrate sample (srt:// sources)
+  srtStats?: SrtStats | null;
+  // transcoder -progress telemetry from the latest server bitrate sample
+  progress?: TranscoderProgress | null;
+  // EBU R128 target sent with start-stream, and the latest server loudness sample against it
+  loudnessTarget?: LoudnessTarget;
+  loudness?: { sample: LoudnessSample; outOfTolerance: boolean } | null;
+  // what a page URL resolved to, from the latest server "started" event
+  source?: SourceInfo | null;
+  // direct HLS tile the server monitors for black / frozen / silent video
+  serverDetects?: boolean;
   onBitrateUpdate?: (streamId: string, bitrate: number | null) => void;
   className?: string;
 
@@ -30,6 +71,20 @@ interface VideoPlayerProps {
   }) => void;
 }
 
+// Traffic events are logged when the player shows them, a live latency after the source sent them:
+// start jumps a little earlier so the moment itself plays
+const SEEK_PREROLL_SEC = 20;
+// further than this behind the live sync point counts as timeshifted
+const BEHIND_LIVE_SEC = 10;
+
+const formatOffset = (sec: number) => {
+  const total = Math.max(0, Math.round(sec));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const ss = String(total % 60).padStart(2, "0");
+  return h > 0 ? `-${h}:${String(m).padStart(2, "0")}:${ss}` : `-${m}:${ss}`;
+};
+
 // Cache busting
 const withCacheBuster = (url: string) => {
   const tick = Date.now().toString();
@@ -43,14 +98,26 @@ const withCacheBuster = (url: string) => {
   }
 };
 
-const isHlsUrl = (url: string) => url.toLowerCase().includes(".m3u8");
-
 const VideoPlayerMemo: React.FC<VideoPlayerProps> = ({
   streamId,
   streamName,
   streamUrl,
+  profile = "480p",
+  input,
+  abr = false,
+  level = "auto",
+  dvrMinutes,
+  seekRequest,
   reloadSignal,
   status,
+  restartMode,
+  restartState,
+  srtStats,
+  progress,
+  loudnessTarget,
+  loudness,
+  source,
+  serverDetects = false,
   onBitrateUpdate,
   onTrafficEvent,
   className,
@@ -72,14 +139,45 @@ const VideoPlayerMemo: React.FC<VideoPlayerProps> = ({
   const [showControls, setShowControls] = useState(false);
   const [reloadKey, setReloadKey] = useState(0);
 
+  // renditions of the current master playlist (heights, highest first) and the pinned one
+  const [levelHeights, setLevelHeights] = useState<number[]>([]);
+  const [pinnedLevel, setPinnedLevel] = useState<"auto" | number>(level);
+
+  // seekable window, playback position and live sync point (media seconds) for the seek bar
+  const [timeline, setTimeline] = useState<{ start: number; end: number; live: number; current: number } | null>(null);
+  const [scrubbing, setScrubbing] = useState<number | null>(null);
+  const [seekNote, setSeekNote] = useState("");
+  // resolution reported by start-stream; a later "started" event (re-resolve) supersedes it
+  const [startedSource, setStartedSource] = useState<SourceInfo | null>(null);
+  // waiting in the server's admission queue for a transcoder slot
+  const [queued, setQueued] = useState<AdmissionRejection | null>(null);
+  const shownSource = source && (!startedSource || source.resolvedAt >= startedSource.resolvedAt) ? source : startedSource;
+
   const audioLevels = useAudioLevels(videoRef);
 
   const fragLoadedRef = useRef(false);
+  const initSeqRef = useRef(0);
   const manifestWatchRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
+  // read at start time only; changing the policy must not restart playback
+  const restartModeRef = useRef(restartMode);
+  restartModeRef.current = restartMode;
+  const loudnessTargetRef = useRef(loudnessTarget);
+  loudnessTargetRef.current = loudnessTarget;
+  const inputRef = useRef(input);
+  inputRef.current = input;
+
   const retryCountRef = useRef(0);
   const MAX_RETRIES = 8;
 
+  // The frozen / silent / black checks only run while this tab plays; transcoded streams, and
+  // direct HLS tiles the server monitors, are watched by the server instead (fault events), so
+  // they stay quiet for those
+  const serverDetectsRef = useRef(false);
+  useEffect(() => {
+    if (!needsTranscoder(streamUrl)) serverDetectsRef.current = serverDetects;
+  }, [streamUrl, serverDetects]);
+
   // traffic dedupe (avoid spamming same message)
   const lastEvtRef = useRef<{ key: string; at: number } | null>(null);
 
@@ -155,6 +253,8 @@ const VideoPlayerMemo: React.FC<VideoPlayerProps> = ({
 
     if (!isVisible) return;
 
+    const seq = ++initSeqRef.current;
+
     setIsLoading(true);
     setHasError(false);
     setErrorText("");
@@ -163,14 +263,49 @@ const VideoPlayerMemo: React.FC<VideoPlayerProps> = ({
     if (manifestWatchRef.current) clearTimeout(manifestWatchRef.current);
     teardownPlayer();
 
-    // Frontend-only: only HLS .m3u8
-    if (!isHlsUrl(streamUrl)) {
-      setIsLoading(false);
-      emitTraffic("ERROR", "This stream type needs a backend (RTMP/RTSP/UDP). Use an HLS .m3u8 URL.", "warn");
-      return handleError("This stream type needs a backend (RTMP/RTSP/UDP). Please use an HLS .m3u8 URL.");
+    // RTMP/RTSP/UDP (and page URLs) are transcoded to HLS by the Node server
+    const transcoded = needsTranscoder(streamUrl);
+    let playUrl = streamUrl;
+    if (!transcoded) {
+      setStartedSource(null);
+      setQueued(null);
+    }
+    if (transcoded) {
+      serverDetectsRef.current = false;
+      try {
+        const mode = restartModeRef.current;
+        const { hlsAbsUrl, faultDetection, source: resolved } = await startStream({
+          streamUrl,
+          streamName,
+          profile,
+          abr,
+          ...(dvrMinutes !== undefined ? { dvrMinutes } : {}),
+          ...(inputRef.current ? { input: inputRef.current } : {}),
+          ...(mode ? { restartPolicy: { mode } } : {}),
+          ...(loudnessTargetRef.current ? { loudnessTarget: loudnessTargetRef.current } : {}),
+        });
+        playUrl = hlsAbsUrl;
+        serverDetectsRef.current = Boolean(faultDetection);
+        setStartedSource(resolved ?? null);
+        setQueued(null);
+      } catch (e) {
+        if (seq !== initSeqRef.current) return;
+        // no free transcoder slot yet: keep the spinner with the queue position, the effect below polls again
+        const rejected = admissionRejection(e);
+        if (rejected && rejected.queuePosition !== null) {
+          setQueued(rejected);
+          return;
+        }
+        setQueued(null);
+        const msg = `Transcoder start failed: ${e instanceof Error ? e.message : String(e)}`;
+        emitTraffic("ERROR", msg, "critical");
+        return handleError(msg);
+      }
+      // a newer init (url change / reload) superseded this one while we waited
+      if (seq !== initSeqRef.current) return;
     }
 
-    const finalStreamUrl = withCacheBuster(streamUrl);
+    const finalStreamUrl = withCacheBuster(playUrl);
 
     // Watchdog: manifest loads but no fragments
     manifestWatchRef.current = setTimeout(() => {
@@ -202,6 +337,10 @@ const VideoPlayerMemo: React.FC<VideoPlayerProps> = ({
       const hls = new Hls({
         enableWorker: true,
         lowLatencyMode: false,
+        // ffmpeg needs a few seconds before the first playlist exists
+        ...(transcoded ? { manifestLoadingMaxRetry: 6, manifestLoadingRetryDelay: 2000 } : {}),
+        // in auto mode small wall tiles stay on low renditions, fullscreen can climb to the top one
+        capLevelToPlayerSize: true,
       });
       hlsRef.current = hls;
 
@@ -237,6 +376,7 @@ const VideoPlayerMemo: React.FC<VideoPlayerProps> = ({
       });
 
       hls.on(Hls.Events.MANIFEST_PARSED, () => {
+        setLevelHeights(Array.from(new Set(hls.levels.map((l) => l.height).filter((h) => h > 0))).sort((a, b) => b - a));
         setIsLoading(false);
         video.muted = isMuted;
 
@@ -284,7 +424,14 @@ const VideoPlayerMemo: React.FC<VideoPlayerProps> = ({
 
     emitTraffic("ERROR", "HLS is not supported in this browser.", "critical");
     handleError("HLS is not supported in this browser.");
-  }, [isVisible, streamUrl, teardownPlayer, isMuted, onBitrateUpdate, streamId, status, handleError, emitTraffic]);
+  }, [isVisible, streamUrl, streamName, profile, abr, dvrMinutes, teardownPlayer, isMuted, onBitrateUpdate, streamId, status, handleError, emitTraffic]);
+
+  // Queued for a transcoder slot: ask again after the server's Retry-After
+  useEffect(() => {
+    if (!queued) return;
+    const timer = setTimeout(() => void initializeStream(), queued.retryAfterSec * 1000);
+    return () => clearTimeout(timer);
+  }, [queued, initializeStream]);
 
   // Retry logic
   useEffect(() => {
@@ -333,7 +480,120 @@ const VideoPlayerMemo: React.FC<VideoPlayerProps> = ({
       if (manifestWatchRef.current) clearTimeout(manifestWatchRef.current);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [reloadKey, streamUrl]);
+  }, [reloadKey, streamUrl, abr]);
+
+  useEffect(() => {
+    setPinnedLevel(level);
+  }, [level]);
+
+  // Apply the pinned rendition (closest height) or hand control back to hls.js
+  useEffect(() => {
+    const hls = hlsRef.current;
+    if (!hls || hls.levels.length < 2) return;
+    if (pinnedLevel === "auto") {
+      hls.currentLevel = -1;
+      return;
+    }
+    let best = 0;
+    hls.levels.forEach((l, i) => {
+      if (Math.abs(l.height - pinnedLevel) < Math.abs(hls.levels[best].height - pinnedLevel)) best = i;
+    });
+    hls.currentLevel = best;
+  }, [pinnedLevel, levelHeights]);
+
+  const cycleLevel = () => {
+    const options: ("auto" | number)[] = ["auto", ...levelHeights];
+    const idx = options.indexOf(pinnedLevel);
+    setPinnedLevel(options[(idx + 1) % options.length]);
+  };
+
+  // --------- ✅ DVR / timeshift ----------
+  const readTimeline = useCallback(() => {
+    const v = videoRef.current;
+    if (!v || v.seekable.length === 0) return null;
+    const start = v.seekable.start(0);
+    const end = v.seekable.end(v.seekable.length - 1);
+    const live = Math.min(end, hlsRef.current?.liveSyncPosition ?? end);
+    return { start, end, live, current: v.currentTime };
+  }, []);
+
+  // refreshed while the controls are visible; nothing else renders from it
+  useEffect(() => {
+    if (!showControls || isLoading || hasError) return;
+    setTimeline(readTimeline());
+    const id = setInterval(() => setTimeline(readTimeline()), 1000);
+    return () => clearInterval(id);
+  }, [showControls, isLoading, hasError, readTimeline]);
+
+  const seekTo = useCallback(
+    (position: number) => {
+      const v = videoRef.current;
+      const t = readTimeline();
+      if (!v || !t) return;
+      v.currentTime = Math.min(Math.max(position, t.start), t.live);
+      setTimeline(readTimeline());
+      if (v.paused) void v.play().then(() => setIsPlaying(true)).catch(() => {});
+    },
+    [readTimeline]
+  );
+
+  const jumpBack = () => {
+    const v = videoRef.current;
+    if (v) seekTo(v.currentTime - 30);
+  };
+
+  const goLive = () => {
+    const t = readTimeline();
+    if (t) seekTo(t.live);
+  };
+
+  // Media position of a wall-clock time. DVR playlists carry EXT-X-PROGRAM-DATE-TIME, which maps it
+  // exactly; without it, estimate from the live edge (assumes the edge is roughly "now").
+  const positionForDate = useCallback((at: number) => {
+    const t = readTimeline();
+    if (!t) return null;
+    const frags = hlsRef.current?.latestLevelDetails?.fragments ?? [];
+    const dated = frags.filter((f) => f.programDateTime !== null);
+    if (dated.length > 0) {
+      const frag = dated.find((f) => at < (f.programDateTime as number) + f.duration * 1000) ?? dated[dated.length - 1];
+      return { ...t, position: frag.start + (at - (frag.programDateTime as number)) / 1000 };
+    }
+    return { ...t, position: t.end - (Date.now() - at) / 1000 };
+  }, [readTimeline]);
+
+  const appliedSeekRef = useRef(0);
+  useEffect(() => {
+    if (!seekRequest || seekRequest.seq === appliedSeekRef.current || isLoading || hasError) return;
+
+    let tries = 0;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const apply = () => {
+      const found = positionForDate(seekRequest.at - SEEK_PREROLL_SEC * 1000);
+      // the playlist may not be loaded yet right after a (re)start
+      if (!found && ++tries < 10) {
+        timer = setTimeout(apply, 1000);
+        return;
+      }
+      appliedSeekRef.current = seekRequest.seq;
+      if (!found) return;
+      if (found.position < found.start) setSeekNote("Moment is older than the DVR window, showing the oldest part");
+      else if (found.position > found.live) setSeekNote("Moment is not in the window yet, showing live");
+      else setSeekNote("");
+      seekTo(found.position);
+    };
+    apply();
+    return () => {
+      if (timer) clearTimeout(timer);
+    };
+  }, [seekRequest, isLoading, hasError, positionForDate, seekTo]);
+
+  useEffect(() => {
+    if (!seekNote) return;
+    const t = setTimeout(() => setSeekNote(""), 5000);
+    return () => clearTimeout(t);
+  }, [seekNote]);
+
+  const behindLive = timeline ? timeline.live - timeline.current : 0;
 
   useEffect(() => {
     const savedMuted = localStorage.getItem("videoMuted") === "true";
@@ -404,7 +664,7 @@ const VideoPlayerMemo: React.FC<VideoPlayerProps> = ({
     if (!v) return;
 
     const id = setInterval(() => {
-      if (hasError || isLoading) return;
+      if (hasError || isLoading || serverDetectsRef.current) return;
       if (v.paused) return;
       if (v.readyState < 2) return;
 
@@ -429,7 +689,7 @@ const VideoPlayerMemo: React.FC<VideoPlayerProps> = ({
     if (!v) return;
 
     const id = setInterval(() => {
-      if (hasError || isLoading) return;
+      if (hasError || isLoading || serverDetectsRef.current) return;
       if (v.paused) return;
       if (v.readyState < 2) return;
       if (v.muted) return;
@@ -462,7 +722,7 @@ const VideoPlayerMemo: React.FC<VideoPlayerProps> = ({
     if (!v) return;
 
     const id = setInterval(() => {
-      if (hasError || isLoading) return;
+      if (hasError || isLoading || serverDetectsRef.current) return;
       if (v.readyState < 2) return;
       if (!v.videoWidth || !v.videoHeight) return;
 
@@ -510,20 +770,75 @@ const VideoPlayerMemo: React.FC<VideoPlayerProps> = ({
       <div
         className={cn(
           "absolute top-1 left-2 z-10 px-2 py-0.2 rounded text-xs font-semibold flex items-center gap-2",
-          status === "online" ? "bg-green-700" : status === "offline" ? "bg-red-700" : "bg-primary/90"
+          status === "online" ? "bg-green-700" : status === "offline" ? "bg-red-700" : status === "starting" ? "bg-yellow-600" : "bg-primary/90"
         )}
       >
         <span className="text-[10px] text-white">{status ?? computedStatus}</span>
       </div>
 
+      {srtStats && (
+        <div
+          className={cn(
+            "absolute top-6 left-2 z-10 px-2 py-0.2 rounded text-[10px] text-white",
+            srtStats.lostPkts > 0 || srtStats.droppedPkts > 0 ? "bg-yellow-600" : "bg-black/60"
+          )}
+          title={`SRT: ${srtStats.lostPkts} lost, ${srtStats.retransPkts} retransmitted, ${srtStats.droppedPkts} dropped since the previous sample`}
+        >
+          SRT {srtStats.rttMs} ms · loss {srtStats.lostPkts} · retx {srtStats.retransPkts}
+        </div>
+      )}
+
+      {progress && !progress.ended && (
+        <div
+          className={cn(
+            "absolute left-2 z-10 px-2 py-0.2 rounded text-[10px] text-white font-mono",
+            srtStats ? "top-11" : "top-6",
+            transcoderLagging(progress) ? "bg-yellow-600" : "bg-black/60"
+          )}
+          title={`Transcoder: ${progress.frame ?? "?"} frames, ${progress.dropFrames ?? 0} dropped, ${progress.dupFrames ?? 0} duplicated; speed ${progress.speed ?? "?"}x since start`}
+        >
+          {formatTelemetry(progress.fps, 1)} fps · {formatTelemetry(progress.realtimeSpeed ?? progress.speed, 2)}x · drop {progress.dropFrames ?? 0} · dup{" "}
+          {progress.dupFrames ?? 0}
+        </div>
+      )}
+
+      {restartState && (
+        <div
+          className={cn(
+            "absolute top-1 right-2 z-10 px-2 py-0.2 rounded text-[10px] font-semibold text-white",
+            restartState.type === "circuit-open" ? "bg-red-700" : "bg-yellow-600"
+          )}
+          title={restartState.reason}
+        >
+          {restartState.type === "circuit-open"
+            ? `restarts paused · retry ${new Date(restartState.retryAt).toLocaleTimeString()}`
+            : `restart ${restartState.attempt}/${restartState.maxAttempts} · ${new Date(restartState.restartAt).toLocaleTimeString()}`}
+        </div>
+      )}
+
+      {seekNote && (
+        <div className="absolute top-6 right-2 z-10 px-2 py-0.2 rounded text-[10px] text-white bg-yellow-600">{seekNote}</div>
+      )}
+
       <AudioMeter leftLevel={audioLevels.left} rightLevel={audioLevels.right} className="absolute bottom-14 right-2 z-10" />
+      {loudness && loudnessTarget && (
+        <LoudnessReadout sample={loudness.sample} target={loudnessTarget} outOfTolerance={loudness.outOfTolerance} className="absolute bottom-14 right-8 z-10" />
+      )}
 
       <div className="relative h-57 w-25">
         <video ref={videoRef} className="w-full h-full object-cover bg-black" playsInline controls={false} />
 
         {isLoading && (
-          <div className="absolute inset-0 flex items-center justify-center bg-stream-bg">
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-stream-bg">
             <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+            {queued && (
+              <div className="mt-3 px-3 text-center text-xs text-muted-foreground" title={queued.error}>
+                <p className="font-semibold text-foreground">
+                  Queued for a transcoder · {queued.queuePosition} of {queued.queueLength}
+                </p>
+                <p className="mt-1 break-words">{queued.error}</p>
+              </div>
+            )}
           </div>
         )}
 
@@ -557,7 +872,48 @@ const VideoPlayerMemo: React.FC<VideoPlayerProps> = ({
               <Button onClick={() => setReloadKey((p) => p + 1)} variant="ghost" size="sm" className="text-white hover:bg-white/20">
                 <RefreshCcw className="h-4 w-4" />
               </Button>
+
+              {levelHeights.length > 1 && (
+                <Button onClick={cycleLevel} variant="ghost" size="sm" className="text-white hover:bg-white/20 text-xs" title="Rendition">
+                  {pinnedLevel === "auto" ? "Auto" : `${pinnedLevel}p`}
+                </Button>
+              )}
             </div>
+
+            {timeline && timeline.live > timeline.start && (
+              <div className="absolute left-2 right-10 bottom-16 flex items-center gap-2 bg-black/60 rounded-lg px-2 py-1">
+                <Button onClick={jumpBack} variant="ghost" size="sm" className="h-6 px-1 text-white hover:bg-white/20 text-xs" title="Jump back 30s">
+                  <Rewind className="h-3 w-3 mr-1" />
+                  30s
+                </Button>
+                <Slider
+                  className="flex-1"
+                  min={timeline.start}
+                  max={timeline.live}
+                  step={1}
+                  value={[scrubbing ?? Math.min(timeline.current, timeline.live)]}
+                  onValueChange={([v]) => setScrubbing(v)}
+                  onValueCommit={([v]) => {
+                    setScrubbing(null);
+                    seekTo(v);
+                  }}
+                  title={`DVR window ${formatOffset(timeline.live - timeline.start)}`}
+                />
+                <span className="text-[10px] font-mono text-white w-14 text-right">
+                  {behindLive > BEHIND_LIVE_SEC ? formatOffset(behindLive) : "LIVE"}
+                </span>
+                <Button
+                  onClick={goLive}
+                  variant="ghost"
+                  size="sm"
+                  className={cn("h-6 px-1 text-xs hover:bg-white/20", behindLive > BEHIND_LIVE_SEC ? "text-white" : "text-red-500")}
+                  title="Go live"
+                >
+                  <Radio className="h-3 w-3 mr-1" />
+                  Live
+                </Button>
+              </div>
+            )}
           </div>
         )}
 
@@ -565,6 +921,16 @@ const VideoPlayerMemo: React.FC<VideoPlayerProps> = ({
           <div className="min-w-0">
             <p className="text-sm font-semibold truncate">{streamName}</p>
             <p className="text-xs text-muted-foreground font-mono truncate">{streamUrl}</p>
+            {shownSource && (
+              <p
+                className="text-xs text-muted-foreground font-mono truncate"
+                title={`Resolved by ${shownSource.rule ? `rule ${shownSource.rule}` : shownSource.resolver} at ${new Date(shownSource.resolvedAt).toLocaleTimeString()}${
+                  shownSource.expiresAt ? `, expires ${new Date(shownSource.expiresAt).toLocaleTimeString()}` : ""
+                }\n${shownSource.url}`}
+              >
+                ↳ {shownSource.resolver}: {shownSource.url}
+              </p>
+            )}
           </div>
         </div>
       </div>
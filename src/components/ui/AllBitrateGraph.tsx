@@ -18,18 +18,31 @@ export interface BitrateDataPoint {
   [key: string]: number | null | undefined;
 }
 
+// output = the transcoder's bitrate, input = what the source delivers (measured by the server)
+export type BitrateSeries = "output" | "input";
+
 export interface StreamDef {
   id: string;
   name: string;
   color: string;
 }
 
+// A vertical marker at `time` on one stream, e.g. an SCTE-35 cue; detail is its hover tooltip
+export interface BitrateMarker {
+  time: number;
+  streamId: string;
+  label: string;
+  detail: string;
+}
+
 export interface AllBitrateGraphProps {
   data: BitrateDataPoint[];
   streams: StreamDef[];
   maxBitrate?: number;
   timeDomain: [number, number]; // preferred initial domain
   height?: number | string;
+  series?: BitrateSeries;
+  markers?: BitrateMarker[];
 }
 
 interface TickProps {
@@ -67,12 +80,35 @@ const CustomXAxisTick: React.FC<TickProps> = ({ x, y, payload }) => {
   );
 };
 
+interface MarkerLabelProps {
+  viewBox?: { x?: number; y?: number };
+  text: string;
+  detail: string;
+  color: string;
+}
+
+// Short tag at the top of a marker line; the SVG title is the browser's tooltip for it
+const MarkerLabel: React.FC<MarkerLabelProps> = ({ viewBox, text, detail, color }) => {
+  if (viewBox?.x == null || viewBox.y == null) return null;
+  return (
+    <g transform={`translate(${viewBox.x},${viewBox.y})`} style={{ cursor: "help" }}>
+      <title>{detail}</title>
+      <rect x={-14} y={0} width={28} height={14} rx={3} fill="#222" stroke={color} />
+      <text x={0} y={10} textAnchor="middle" fill={color} fontSize={9} fontWeight="bold">
+        {text}
+      </text>
+    </g>
+  );
+};
+
 const AllBitrateGraph: React.FC<AllBitrateGraphProps> = ({
   data,
   streams,
   maxBitrate = 8,
   timeDomain: initialTimeDomain,
   height = "60vh",
+  series = "output",
+  markers = [],
 }) => {
   const formatMbps = React.useCallback((n?: number) => {
     if (!Number.isFinite(n)) return "";
@@ -228,7 +264,7 @@ const AllBitrateGraph: React.FC<AllBitrateGraphProps> = ({
   if (!processedData.length) {
     return (
       <div style={{ width: "100%", height, display: "flex", alignItems: "center", justifyContent: "center", color: "#aaa" }}>
-        No bitrate data yet
+        {series === "input" ? "No input bitrate measured yet" : "No bitrate data yet"}
       </div>
     );
   }
@@ -346,7 +382,7 @@ const AllBitrateGraph: React.FC<AllBitrateGraphProps> = ({
               const streamName = stream?.name ?? baseId;
               const num = typeof value === "number" ? value : Number(value);
               const formatted = Number.isFinite(num) ? formatMbps(num) : String(value);
-              return [`${formatted} Mbps`, streamName] as [ValueType, NameType];
+              return [`${formatted} Mbps`, series === "input" ? `${streamName} (input)` : streamName] as [ValueType, NameType];
             }}
             contentStyle={{ backgroundColor: "#222", border: "1px solid #444" }}
           />
@@ -418,6 +454,24 @@ const AllBitrateGraph: React.FC<AllBitrateGraphProps> = ({
               />
             );
           })}
+          {markers
+            .filter((m) => m.time >= xDomain[0] && m.time <= xDomain[1])
+            .map((m, i) => {
+              // markers follow the graph's stream selection
+              const stream = streams.find((s) => s.id === m.streamId);
+              if (!stream) return null;
+              const color = stream.color;
+              return (
+                <ReferenceLine
+                  key={`marker-${m.streamId}-${m.time}-${i}`}
+                  x={m.time}
+                  stroke={color}
+                  strokeDasharray="2 3"
+                  strokeOpacity={0.9}
+                  label={<MarkerLabel text={m.label} detail={m.detail} color={color} />}
+                />
+              );
+            })}
         </AreaChart>
       </ResponsiveContainer>
     </div>
@@ -0,0 +1,59 @@
+import React from "react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceArea, ReferenceLine } from "recharts";
+import type { ValueType, NameType } from "recharts/types/component/DefaultTooltipContent";
+import type { BitrateDataPoint, StreamDef } from "./AllBitrateGraph";
+import type { LoudnessTarget } from "@/lib/api";
+
+export interface LoudnessGraphProps {
+  // short-term LUFS per stream id; points only carry the streams that reported at that time
+  data: BitrateDataPoint[];
+  streams: StreamDef[];
+  target: LoudnessTarget;
+  height?: number | string;
+}
+
+const formatTime = (v: number) => new Date(v).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit", hour12: false });
+
+const LoudnessGraph: React.FC<LoudnessGraphProps> = ({ data, streams, target, height = "60vh" }) => {
+  const sorted = React.useMemo(() => [...data].sort((a, b) => a.time - b.time), [data]);
+
+  if (!sorted.length) {
+    return (
+      <div style={{ width: "100%", height, display: "flex", alignItems: "center", justifyContent: "center", color: "#aaa" }}>
+        No loudness data yet
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ width: "100%", height, userSelect: "none" }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={sorted} margin={{ top: 5, right: 30, left: 20, bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#333" />
+          <XAxis dataKey="time" type="number" domain={["dataMin", "dataMax"]} tickFormatter={formatTime} stroke="#888" />
+          <YAxis domain={[-50, 0]} allowDataOverflow tickFormatter={(v) => `${v} LUFS`} width={80} stroke="#888" />
+
+          {/* tolerance band around the target */}
+          <ReferenceArea y1={target.integratedLufs - target.toleranceLu} y2={target.integratedLufs + target.toleranceLu} fill="#22c55e" fillOpacity={0.12} />
+          <ReferenceLine y={target.integratedLufs} stroke="#22c55e" strokeDasharray="6 4" label={{ value: `Target ${target.integratedLufs} LUFS`, position: "insideTopLeft", fill: "#22c55e", fontSize: 12 }} />
+
+          <Tooltip
+            labelFormatter={(label) => new Date(Number(label)).toLocaleString("en-GB")}
+            formatter={(value: ValueType, name: NameType) => {
+              const stream = streams.find((s) => s.id === String(name));
+              return [`${Number(value).toFixed(1)} LUFS`, stream?.name ?? String(name)] as [ValueType, NameType];
+            }}
+            contentStyle={{ backgroundColor: "#222", border: "1px solid #444" }}
+          />
+          <Legend formatter={(dataKey) => streams.find((s) => s.id === dataKey)?.name ?? String(dataKey)} />
+
+          {streams.map((stream) => (
+            <Line key={stream.id} type="monotone" dataKey={stream.id} stroke={stream.color} strokeWidth={2} dot={false} isAnimationActive={false} connectNulls />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default LoudnessGraph;
@@ -0,0 +1,37 @@
+import React from "react";
+import { cn } from "@/lib/utils";
+import type { LoudnessSample, LoudnessTarget } from "@/lib/api";
+
+interface LoudnessReadoutProps {
+  sample: LoudnessSample;
+  target: LoudnessTarget;
+  // the server's verdict for this sample (short-term or true peak off target)
+  outOfTolerance: boolean;
+  className?: string;
+}
+
+const fmt = (v: number | null) => (v === null ? "—" : v.toFixed(1));
+
+/**
+ * Server-measured EBU R128 loudness next to the (browser FFT) audio meter.
+ */
+export const LoudnessReadout: React.FC<LoudnessReadoutProps> = ({ sample, target, outOfTolerance, className }) => {
+  const inBand = (v: number | null) => v === null || Math.abs(v - target.integratedLufs) <= target.toleranceLu;
+  const peakOk = sample.truePeak === null || sample.truePeak <= target.maxTruePeak;
+
+  return (
+    <div
+      className={cn(
+        "rounded px-1.5 py-1 text-[10px] leading-tight font-mono text-white bg-black/60 border",
+        outOfTolerance ? "border-red-500" : "border-transparent",
+        className
+      )}
+      title={`Target ${target.integratedLufs} LUFS ±${target.toleranceLu} LU, true peak ≤ ${target.maxTruePeak} dBTP`}
+    >
+      <div>M {fmt(sample.momentary)}</div>
+      <div className={cn(!inBand(sample.shortTerm) && "text-red-400")}>S {fmt(sample.shortTerm)}</div>
+      <div className={cn(!inBand(sample.integrated) && "text-yellow-300")}>I {fmt(sample.integrated)}</div>
+      <div className={cn(!peakOk && "text-red-400")}>TP {fmt(sample.truePeak)}</div>
+    </div>
+  );
+};
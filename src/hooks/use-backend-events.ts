@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from "react";
+import { getToken } from "@/lib/auth";
+import { apiUrl, parseBackendEvent, type BackendEvent } from "@/lib/api";
+
+const MIN_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+
+/**
+ * Subscribe to the server's /events SSE stream.
+ * EventSource can't send headers, so the Supabase token goes in the query string and is
+ * re-read on every reconnect (it may have been refreshed meanwhile). Reconnects back off
+ * exponentially up to 30s and reset once a connection opens.
+ */
+export const useBackendEvents = (onEvent: (evt: BackendEvent) => void, enabled = true) => {
+  const [connected, setConnected] = useState(false);
+
+  // keep the latest handler without reopening the stream on every render
+  const onEventRef = useRef(onEvent);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let alive = true;
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let backoff = MIN_BACKOFF_MS;
+
+    const scheduleReconnect = () => {
+      if (!alive) return;
+      const delay = backoff;
+      backoff = Math.min(backoff * 2, MAX_BACKOFF_MS);
+      retryTimer = setTimeout(() => void connect(), delay);
+    };
+
+    const connect = async () => {
+      const token = await getToken();
+      if (!alive) return;
+      if (!token) return scheduleReconnect();
+
+      source = new EventSource(apiUrl(`/events?token=${encodeURIComponent(token)}`));
+
+      source.onopen = () => {
+        backoff = MIN_BACKOFF_MS;
+        setConnected(true);
+      };
+
+      source.onmessage = (msg) => {
+        try {
+          const evt = parseBackendEvent(JSON.parse(msg.data));
+          if (evt) onEventRef.current(evt);
+        } catch {
+          // ignore malformed payloads
+        }
+      };
+
+      source.onerror = () => {
+        setConnected(false);
+        source?.close();
+        source = null;
+        scheduleReconnect();
+      };
+    };
+
+    void connect();
+
+    return () => {
+      alive = false;
+      if (retryTimer) clearTimeout(retryTimer);
+      source?.close();
+      setConnected(false);
+    };
+  }, [enabled]);
+
+  return { connected };
+};
@@ -0,0 +1,282 @@
+import type { z } from "zod";
+import * as contract from "@shared/contract";
+import { getToken } from "@/lib/auth";
+
+export type Resolution = z.infer<typeof contract.resolution>;
+
+export type StartStreamRequest = z.input<typeof contract.startStreamRequest>;
+export type StartMonitorRequest = z.input<typeof contract.startMonitorRequest>;
+export type StartStreamResponse = z.infer<typeof contract.startStreamResponse>;
+export type StopStreamResponse = z.infer<typeof contract.stopStreamResponse>;
+export type SourceInfo = z.infer<typeof contract.sourceInfo>;
+export type ActiveStream = z.infer<typeof contract.activeStream>;
+export type Health = z.infer<typeof contract.healthResponse>;
+export type FfmpegRole = z.infer<typeof contract.ffmpegRole>;
+export type AdmissionRejection = z.infer<typeof contract.admissionRejection>;
+export type TranscodeProfile = z.infer<typeof contract.transcodeProfile>;
+export type InputSelection = z.infer<typeof contract.inputSelection>;
+export type ProbedProgram = z.infer<typeof contract.probedProgram>;
+
+export type RecordingFormat = z.infer<typeof contract.recordingFormat>;
+export type StartRecordingRequest = z.input<typeof contract.startRecordingRequest>;
+export type RecordingScheduleRequest = z.input<typeof contract.recordingScheduleRequest>;
+export type Recordings = z.infer<typeof contract.recordingsResponse>;
+export type RecordingFile = z.infer<typeof contract.recordingFile>;
+
+export type ThumbnailInfo = z.infer<typeof contract.thumbnailInfo>;
+
+export type RestreamRequest = z.input<typeof contract.restreamRequest>;
+export type RestreamOutput = z.infer<typeof contract.restreamOutput>;
+export type TsHealth = z.infer<typeof contract.tsHealth>;
+export type TsCounters = z.infer<typeof contract.tsCounters>;
+
+export type RestartMode = z.infer<typeof contract.restartMode>;
+export type RestartPolicy = z.input<typeof contract.restartPolicy>;
+export type RestartPolicyResponse = z.infer<typeof contract.restartPolicyResponse>;
+
+export type BitrateSample = z.infer<typeof contract.bitrateSample>;
+export type InputBitrateSample = z.infer<typeof contract.inputBitrateSample>;
+export type LoudnessSample = z.infer<typeof contract.loudnessSample>;
+export type LoudnessTarget = z.infer<typeof contract.loudnessTarget>;
+export type SrtStats = z.infer<typeof contract.srtStats>;
+export type TranscoderProgress = z.infer<typeof contract.transcoderProgress>;
+export type Scte35Cue = z.infer<typeof contract.scte35Cue>;
+
+/**
+ * Events broadcast on the server's /events SSE stream.
+ */
+export type BackendEvent = z.infer<typeof contract.backendEvent>;
+export type BackendEventType = BackendEvent["type"];
+export type RestartEvent = z.infer<typeof contract.restartScheduledEvent> | z.infer<typeof contract.circuitOpenEvent>;
+
+export type TrafficEventType = z.infer<typeof contract.trafficEventType>;
+export type TrafficSeverity = z.infer<typeof contract.trafficSeverity>;
+
+// In dev the Vite proxy forwards API paths, so an empty base is fine there.
+const API_BASE = String(import.meta.env.VITE_API_BASE || "").replace(/\/+$/, "");
+
+export class ApiError extends Error {
+  status: number;
+  // parsed JSON error body, if any
+  body: unknown;
+
+  constructor(status: number, message: string, body: unknown = null) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export const apiUrl = (path: string) => `${API_BASE}${path}`;
+
+type ErrorBody = {
+  error?: string;
+  message?: string;
+  issues?: { path: string; message: string }[];
+};
+
+/**
+ * Call the Node API with the current Supabase access token and check the response
+ * against its shared schema. The server answers errors either as JSON
+ * ({ error, issues? } / { message }) or as plain text.
+ */
+async function request<S extends z.ZodTypeAny>(path: string, schema: S, init: RequestInit = {}): Promise<z.infer<S>> {
+  const token = await getToken();
+  const headers = new Headers(init.headers);
+  if (init.body && !headers.has("Content-Type")) headers.set("Content-Type", "application/json");
+  if (token) headers.set("Authorization", `Bearer ${token}`);
+
+  const res = await fetch(apiUrl(path), { ...init, headers });
+  const text = await res.text();
+
+  let body: unknown = null;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    body = text;
+  }
+
+  if (!res.ok) {
+    const obj = (body && typeof body === "object" ? body : {}) as ErrorBody;
+    let msg = obj.error || obj.message || (typeof body === "string" && body) || `HTTP ${res.status}`;
+    if (obj.issues?.length) msg += `: ${obj.issues.map((i) => `${i.path || "body"} ${i.message}`).join("; ")}`;
+    throw new ApiError(res.status, msg, body);
+  }
+
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) throw new ApiError(res.status, `Unexpected response from ${path}`);
+  return parsed.data;
+}
+
+/**
+ * Sources the browser cannot play directly (RTMP/RTSP/UDP, page URLs...) go through the transcoder.
+ */
+export const isHlsUrl = (url: string) => url.toLowerCase().includes(".m3u8");
+export const needsTranscoder = (url: string) => !isHlsUrl(url);
+
+export const startStream = (params: StartStreamRequest) =>
+  request("/start-stream", contract.startStreamResponse, {
+    method: "POST",
+    body: JSON.stringify(contract.startStreamRequest.parse(params)),
+  });
+
+export const stopStream = (streamUrl: string) =>
+  request("/stop-stream", contract.stopStreamResponse, { method: "POST", body: JSON.stringify({ streamUrl }) });
+
+/**
+ * Direct HLS tiles have no transcoder; registering one has the server monitor its source anyway.
+ */
+export const monitorStream = (params: StartMonitorRequest) =>
+  request("/api/monitors/start", contract.startMonitorResponse, {
+    method: "POST",
+    body: JSON.stringify(contract.startMonitorRequest.parse(params)),
+  });
+
+export const unmonitorStream = (streamUrl: string) =>
+  request("/api/monitors/stop", contract.stopStreamResponse, { method: "POST", body: JSON.stringify({ streamUrl }) });
+
+export const setRestartPolicy = (streamUrl: string, restartPolicy: RestartPolicy) =>
+  request("/restart-policy", contract.restartPolicyResponse, {
+    method: "POST",
+    body: JSON.stringify(contract.restartPolicyRequest.parse({ streamUrl, restartPolicy })),
+  });
+
+export const setLoudnessTarget = (streamUrl: string, loudnessTarget: LoudnessTarget) =>
+  request("/loudness-target", contract.loudnessTargetResponse, {
+    method: "POST",
+    body: JSON.stringify(contract.loudnessTargetRequest.parse({ streamUrl, loudnessTarget })),
+  });
+
+/**
+ * The server's "no transcoder slot" answer (429) behind a failed start / restart, or null.
+ */
+export const admissionRejection = (e: unknown): AdmissionRejection | null => {
+  if (!(e instanceof ApiError) || e.status !== 429) return null;
+  const parsed = contract.admissionRejection.safeParse(e.body);
+  return parsed.success ? parsed.data : null;
+};
+
+export const getActiveStreams = () => request("/api/active-streams", contract.activeStreamsResponse);
+
+export const getHealth = () => request("/api/health", contract.healthResponse);
+
+/**
+ * ffprobe a source (admin only) and list its programs with their video and audio tracks.
+ */
+export const probeStream = async (streamUrl: string): Promise<ProbedProgram[]> => {
+  const res = await request("/probe", contract.probeResponse, {
+    method: "POST",
+    body: JSON.stringify(contract.probeRequest.parse({ streamUrl })),
+  });
+  if (!res.ok || !res.programs) throw new ApiError(200, res.error || "Probe failed");
+  return res.programs;
+};
+
+export const listProfiles = () => request("/api/profiles", contract.profilesResponse);
+
+export const saveProfile = (profile: TranscodeProfile) =>
+  request("/api/profiles", contract.transcodeProfile, {
+    method: "POST",
+    body: JSON.stringify(contract.transcodeProfile.parse(profile)),
+  });
+
+export const deleteProfile = (name: string) =>
+  request(`/api/profiles/${encodeURIComponent(name)}`, contract.deleteProfileResponse, { method: "DELETE" });
+
+export const listRecordings = () => request("/api/recordings", contract.recordingsResponse);
+
+export const startRecording = (params: StartRecordingRequest) =>
+  request("/api/recordings/start", contract.activeRecording, {
+    method: "POST",
+    body: JSON.stringify(contract.startRecordingRequest.parse(params)),
+  });
+
+export const stopRecording = (streamId: string) =>
+  request("/api/recordings/stop", contract.okResponse, { method: "POST", body: JSON.stringify({ streamId }) });
+
+export const scheduleRecording = (params: RecordingScheduleRequest) =>
+  request("/api/recordings/schedules", contract.recordingSchedule, {
+    method: "POST",
+    body: JSON.stringify(contract.recordingScheduleRequest.parse(params)),
+  });
+
+export const deleteRecordingSchedule = (id: string) =>
+  request(`/api/recordings/schedules/${encodeURIComponent(id)}`, contract.okResponse, { method: "DELETE" });
+
+export const deleteRecordingFile = (file: Pick<RecordingFile, "streamId" | "filename">) =>
+  request(`/api/recordings/${encodeURIComponent(file.streamId)}/${encodeURIComponent(file.filename)}`, contract.okResponse, { method: "DELETE" });
+
+/**
+ * Fetch a recording with the API token (plain links can't carry the Authorization header).
+ */
+export const downloadRecording = async (file: Pick<RecordingFile, "streamId" | "filename">) => {
+  const token = await getToken();
+  const res = await fetch(apiUrl(`/download-recording/${encodeURIComponent(file.streamId)}/${encodeURIComponent(file.filename)}`), {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (!res.ok) throw new ApiError(res.status, (await res.text()) || `HTTP ${res.status}`);
+  return res.blob();
+};
+
+export const listThumbnails = () => request("/api/thumbnails", contract.thumbnailsResponse);
+
+export const listRestreams = (streamUrl?: string) =>
+  request(`/api/restreams${streamUrl ? `?streamUrl=${encodeURIComponent(streamUrl)}` : ""}`, contract.restreamsResponse);
+
+export const addRestream = (params: RestreamRequest) =>
+  request("/api/restreams", contract.restreamOutput, {
+    method: "POST",
+    body: JSON.stringify(contract.restreamRequest.parse(params)),
+  });
+
+export const startRestream = (id: string) =>
+  request(`/api/restreams/${encodeURIComponent(id)}/start`, contract.restreamOutput, { method: "POST" });
+
+export const stopRestream = (id: string) =>
+  request(`/api/restreams/${encodeURIComponent(id)}/stop`, contract.restreamOutput, { method: "POST" });
+
+export const deleteRestream = (id: string) =>
+  request(`/api/restreams/${encodeURIComponent(id)}`, contract.okResponse, { method: "DELETE" });
+
+/**
+ * TR 101 290 priority-1 counters of a stream's MPEG-TS input; health is null when it isn't
+ * analysed, and reason says why.
+ */
+export const getTsHealth = async (streamUrl: string) => {
+  const [entry] = await request(`/api/ts-health?streamUrl=${encodeURIComponent(streamUrl)}`, contract.tsHealthResponse);
+  return { health: entry?.health ?? null, reason: entry?.reason ?? null };
+};
+
+/**
+ * URL of a stream's latest still (or the one taken at `at`). <img> can't send headers, so the
+ * token goes in the query string like /events.
+ */
+export const thumbnailUrl = (streamId: string, token: string | null, at?: number) => {
+  const query = new URLSearchParams();
+  if (token) query.set("token", token);
+  if (at) query.set("at", String(at));
+  const qs = query.toString();
+  return apiUrl(`/api/thumbnails/${encodeURIComponent(streamId)}${qs ? `?${qs}` : ""}`);
+};
+
+/**
+ * Validate a raw /events payload; unknown or malformed events come back as null.
+ */
+export const parseBackendEvent = (raw: unknown): BackendEvent | null => {
+  const parsed = contract.backendEvent.safeParse(raw);
+  return parsed.success ? parsed.data : null;
+};
+
+/**
+ * Transcoder (or direct HLS monitoring) release when a tile goes away. A 404 just means the
+ * server already cleaned the stream up (idle timeout, restart...); other failures are thrown.
+ */
+export const releaseStream = async (streamUrl: string) => {
+  try {
+    await (needsTranscoder(streamUrl) ? stopStream(streamUrl) : unmonitorStream(streamUrl));
+  } catch (e) {
+    if (e instanceof ApiError && e.status === 404) return;
+    throw e;
+  }
+};
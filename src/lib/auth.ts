@@ -29,6 +29,7 @@ function clearLocalStreamCacheForUser(usernameOrEmail?: string) {
  *  - username text
  *  - role text
  *  - roles jsonb
+ * (created by supabase/migrations, which keeps users from changing their own role / roles)
  */
 async function fetchProfile(userId: string) {
   const { data, error } = await supabase
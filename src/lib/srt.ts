@@ -0,0 +1,49 @@
+/**
+ * SRT source options, carried in the srt:// URL query the way SRT tools expect them
+ * (latency in milliseconds). The server reads them from the URL for ffmpeg / srt-live-transmit.
+ */
+export type SrtMode = "caller" | "listener";
+
+export interface SrtOptions {
+  mode: SrtMode;
+  latencyMs: string;
+  passphrase: string;
+  pbkeylen: "" | "16" | "24" | "32";
+  streamId: string;
+}
+
+export const DEFAULT_SRT_OPTIONS: SrtOptions = { mode: "caller", latencyMs: "200", passphrase: "", pbkeylen: "", streamId: "" };
+
+export const isSrtUrl = (url: string) => url.trim().toLowerCase().startsWith("srt://");
+
+/**
+ * Problem with the options, or null when they can be applied.
+ */
+export const validateSrtOptions = (opts: SrtOptions): string | null => {
+  if (opts.latencyMs && !/^\d+$/.test(opts.latencyMs)) return "Latency must be a whole number of milliseconds";
+  // libsrt rejects passphrases outside 10..79 characters
+  if (opts.passphrase && (opts.passphrase.length < 10 || opts.passphrase.length > 79)) return "Passphrase must be 10 to 79 characters";
+  if (opts.pbkeylen && !opts.passphrase) return "Key length needs a passphrase";
+  return null;
+};
+
+/**
+ * Merge the form options into an srt:// URL; options already typed into the URL are overwritten.
+ * Listener URLs without a host bind every interface.
+ */
+export const applySrtOptions = (url: string, opts: SrtOptions): string => {
+  const trimmed = url.trim().replace(/^srt:\/\/:/i, "srt://0.0.0.0:");
+  let u: URL;
+  try {
+    u = new URL(trimmed);
+  } catch {
+    return trimmed;
+  }
+  const set = (key: string, value: string) => (value ? u.searchParams.set(key, value) : u.searchParams.delete(key));
+  set("mode", opts.mode === "caller" ? "" : opts.mode);
+  set("latency", opts.latencyMs);
+  set("passphrase", opts.passphrase);
+  set("pbkeylen", opts.passphrase ? opts.pbkeylen : "");
+  set("streamid", opts.streamId.trim());
+  return u.toString();
+};
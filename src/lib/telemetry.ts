@@ -0,0 +1,18 @@
+import type { TranscoderProgress } from "@/lib/api";
+
+/**
+ * Below this realtime speed a transcoder is falling behind its input. The server's SLOW alarm
+ * (TELEMETRY_MIN_SPEED) defaults to the same value and also needs it to last a while.
+ */
+export const MIN_REALTIME_SPEED = 0.95;
+
+/**
+ * Whether the latest sample shows the transcoder behind real time. ffmpeg's own speed is averaged
+ * since the process started, so the realtime speed is preferred once the server has one.
+ */
+export const transcoderLagging = (p: TranscoderProgress) => {
+  const speed = p.realtimeSpeed ?? p.speed;
+  return !p.ended && typeof speed === "number" && speed < MIN_REALTIME_SPEED;
+};
+
+export const formatTelemetry = (v: number | null | undefined, digits: number) => (typeof v === "number" ? v.toFixed(digits) : "—");
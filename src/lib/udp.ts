@@ -0,0 +1,45 @@
+/**
+ * UDP / multicast receive options, carried in the udp:// URL query as ffmpeg's udp protocol reads them.
+ */
+export interface UdpOptions {
+  // address of the interface that joins the multicast group
+  localAddr: string;
+  // socket receive buffer, bytes
+  bufferSize: string;
+  // ffmpeg's receive FIFO, in 188-byte packets
+  fifoSize: string;
+}
+
+export const DEFAULT_UDP_OPTIONS: UdpOptions = { localAddr: "", bufferSize: "", fifoSize: "" };
+
+export const isUdpUrl = (url: string) => url.trim().toLowerCase().startsWith("udp://");
+
+/**
+ * Problem with the options, or null when they can be applied.
+ */
+export const validateUdpOptions = (opts: UdpOptions): string | null => {
+  if (opts.localAddr && !/^\d{1,3}(\.\d{1,3}){3}$/.test(opts.localAddr)) return "Interface address must be an IPv4 address";
+  if (opts.bufferSize && !/^\d+$/.test(opts.bufferSize)) return "Buffer size must be a number of bytes";
+  if (opts.fifoSize && !/^\d+$/.test(opts.fifoSize)) return "FIFO size must be a number of packets";
+  return null;
+};
+
+/**
+ * Merge the form options into a udp:// URL; options already typed into the URL are overwritten.
+ * A FIFO also turns on overrun_nonfatal so a burst drops packets instead of stopping ffmpeg.
+ */
+export const applyUdpOptions = (url: string, opts: UdpOptions): string => {
+  if (!opts.localAddr && !opts.bufferSize && !opts.fifoSize) return url.trim();
+  let u: URL;
+  try {
+    u = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+  const set = (key: string, value: string) => (value ? u.searchParams.set(key, value) : u.searchParams.delete(key));
+  set("localaddr", opts.localAddr);
+  set("buffer_size", opts.bufferSize);
+  set("fifo_size", opts.fifoSize);
+  set("overrun_nonfatal", opts.fifoSize ? "1" : "");
+  return u.toString();
+};
@@ -0,0 +1,7 @@
+import RecordingsManager from "@/components/RecordingsManager";
+
+const Recordings = () => {
+  return <RecordingsManager />;
+};
+
+export default Recordings;
@@ -150,13 +150,11 @@ const Register: React.FC = () => {
       }
 
       // Create profile row (DB permissions storage)
-      // Requires profiles table + RLS insert policy allowing auth.uid() = id
+      // role / roles keep their defaults: users can't set them (see supabase/migrations)
       const { error: profileErr } = await supabase.from("profiles").upsert(
         {
           id: user.id,
           username: cleanUsername || cleanEmail,
-          role: "user",
-          roles: {},
         },
         { onConflict: "id" }
       );
@@ -0,0 +1,42 @@
+-- Profiles: the API's permissions (server/auth.js reads role and roles with the user's token or the
+-- service key). Users create and edit their own row at sign-up, so role and roles are locked here:
+-- only the service role or an SQL session (dashboard, psql) can grant admin or a permission.
+CREATE TABLE IF NOT EXISTS public.profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  username TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'user';
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS roles JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users read their own profile" ON public.profiles;
+DROP POLICY IF EXISTS "Users create their own profile" ON public.profiles;
+DROP POLICY IF EXISTS "Users update their own profile" ON public.profiles;
+CREATE POLICY "Users read their own profile" ON public.profiles FOR SELECT TO authenticated USING (auth.uid() = id);
+CREATE POLICY "Users create their own profile" ON public.profiles FOR INSERT TO authenticated WITH CHECK (auth.uid() = id);
+CREATE POLICY "Users update their own profile" ON public.profiles FOR UPDATE TO authenticated USING (auth.uid() = id) WITH CHECK (auth.uid() = id);
+
+-- A row written through the API as a user gets the defaults on insert and keeps its permissions on update
+CREATE OR REPLACE FUNCTION public.protect_profile_permissions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.role = 'user';
+      NEW.roles = '{}'::jsonb;
+    ELSE
+      NEW.role = OLD.role;
+      NEW.roles = OLD.roles;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_profile_permissions ON public.profiles;
+CREATE TRIGGER protect_profile_permissions BEFORE INSERT OR UPDATE ON public.profiles FOR EACH ROW EXECUTE FUNCTION public.protect_profile_permissions();
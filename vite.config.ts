@@ -31,6 +31,8 @@ export default defineConfig(({ mode }) => {
               ? {
                   "/start-stream": { target: API_BASE, changeOrigin: true, secure: false },
                   "/stop-stream": { target: API_BASE, changeOrigin: true, secure: false },
+                  "/restart-policy": { target: API_BASE, changeOrigin: true, secure: false },
+                  "/probe": { target: API_BASE, changeOrigin: true, secure: false },
                   "/calculate-bitrate": { target: API_BASE, changeOrigin: true, secure: false },
                   "/bitrate-history": { target: API_BASE, changeOrigin: true, secure: false },
                   "/events": { target: API_BASE, changeOrigin: true, secure: false },
@@ -38,6 +40,7 @@ export default defineConfig(({ mode }) => {
                   // ✅ your logs endpoints (StreamManager uses these)
                   "/api": { target: API_BASE, changeOrigin: true, secure: false },
                   "/download-log": { target: API_BASE, changeOrigin: true, secure: false },
+                  "/download-recording": { target: API_BASE, changeOrigin: true, secure: false },
                 }
               : {}),
 
@@ -55,6 +58,7 @@ export default defineConfig(({ mode }) => {
     resolve: {
       alias: {
         "@": path.resolve(__dirname, "./src"),
+        "@shared": path.resolve(__dirname, "./shared"),
       },
     },
 